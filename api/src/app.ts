@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import express, { Router, Request, Response, NextFunction } from "express";
+import cors from "cors";
+import { authMiddleware } from "./lib/auth";
+import { sendError, sendInternalError } from "./lib/errors";
+import { log, requestContext } from "./lib/logger";
+import { httpRequests, httpDuration, renderMetrics, secondsSince } from "./lib/metrics";
+import { buildOpenApiDocument } from "./lib/openapi";
+import type { HealthResponse } from "./lib/schemas";
+import bidRouter from "./routes/bid";
+import settleRouter from "./routes/settle";
+import statusRouter from "./routes/status";
+import verifyPropertyRouter from "./routes/verifyProperty";
+import loanRequestRouter from "./routes/loanRequest";
+import auctionsRouter from "./routes/auctions";
+import auditRouter from "./routes/audit";
+
+/**
+ * Routers mounted behind request signing, by path. Each route also declares
+ * the scope it needs with requireScope. Every route in them must be
+ * documented in ./lib/openapi — src/lib/openapi.test.ts checks both ways.
+ */
+export const protectedRoutes: [string, Router][] = [
+  ["/bid", bidRouter],
+  ["/settle", settleRouter],
+  ["/status", statusRouter],
+  ["/verify-property", verifyPropertyRouter],
+  ["/loan-request", loanRequestRouter],
+  ["/auctions", auctionsRouter],
+  ["/audit", auditRouter],
+];
+
+// Forwarded ids are reused as-is only if they look like an id
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Route pattern for logs and metric labels, e.g. "/settle/:auctionId/proof/:bidHash".
+ * Unmatched paths share one label so scanners can't grow the series.
+ */
+function routeOf(req: Request): string {
+  if (!req.route) return "unmatched";
+  const path = req.route.path === "/" ? "" : req.route.path;
+  return req.baseUrl + path || "/";
+}
+
+/**
+ * Tag each request with an id — the caller's X-Request-Id (CRE forwards
+ * one per workflow execution) or a fresh UUID — echo it back, and log and
+ * count the request once the response is sent.
+ */
+function requestLogger(req: Request, res: Response, next: NextFunction): void {
+  const forwarded = req.header("x-request-id");
+  const requestId = forwarded && REQUEST_ID.test(forwarded) ? forwarded : crypto.randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+
+  const start = process.hrtime.bigint();
+  res.once("finish", () => {
+    const route = routeOf(req);
+    const durationS = secondsSince(start);
+    httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    httpDuration.observe({ method: req.method, route }, durationS);
+
+    requestContext.run({ requestId }, () => {
+      const fields = {
+        method: req.method,
+        route,
+        status: res.statusCode,
+        durationMs: Math.round(durationS * 1000),
+        keyId: req.credential?.keyId,
+      };
+      if (res.statusCode >= 500) log.error("HTTP", "Request failed", fields);
+      else log.info("HTTP", "Request handled", fields);
+    });
+  });
+
+  requestContext.run({ requestId }, next);
+}
+
+const app = express();
+
+// --- Middleware ---
+app.use(requestLogger);
+app.use(cors());
+app.use(
+  express.json({
+    // Keep the exact bytes the caller signed
+    verify: (req, _res, buf) => {
+      (req as Request).rawBody = buf;
+    },
+  })
+);
+
+// --- Health check, API description and metrics (not signed) ---
+app.get("/health", (_req, res) => {
+  res.json({ status: "ok", timestamp: Date.now() } satisfies HealthResponse);
+});
+
+const openApiDocument = buildOpenApiDocument();
+app.get("/openapi.json", (_req, res) => {
+  res.json(openApiDocument);
+});
+
+/**
+ * Prometheus scrape endpoint. Bearer METRICS_TOKEN when set — the labels
+ * carry no amounts or addresses, but request volumes are still internal.
+ */
+app.get("/metrics", (req, res) => {
+  const token = process.env.METRICS_TOKEN;
+  const expected = Buffer.from(`Bearer ${token}`);
+  const given = Buffer.from(req.header("authorization") ?? "");
+  if (token && !(given.length === expected.length && crypto.timingSafeEqual(given, expected))) {
+    sendError(res, 401, "UNAUTHORIZED", "Missing or invalid metrics token");
+    return;
+  }
+  res.type("text/plain; version=0.0.4").send(renderMetrics());
+});
+
+// --- Protected routes (signed requests) ---
+for (const [path, router] of protectedRoutes) {
+  app.use(path, authMiddleware, router);
+}
+
+// --- Errors thrown outside a route's own try/catch (e.g. unparseable JSON) ---
+/** body-parser tags its errors with a `type`, e.g. "entity.parse.failed". */
+function isBodyParserError(err: unknown): err is Error & { type: string } {
+  return err instanceof Error && typeof (err as { type?: unknown }).type === "string";
+}
+
+app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+  if (isBodyParserError(err) && err.type === "entity.parse.failed") {
+    sendError(res, 400, "INVALID_FIELD", "Request body is not valid JSON");
+    return;
+  }
+  sendInternalError(res, "SERVER", err);
+});
+
+export default app;
@@ -0,0 +1,140 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { amortize, computeEmi, MAX_TENURE_MONTHS, RATE_DENOMINATOR } from "./amortization";
+import type { ApiErrorResponse, RepaymentScheduleResponse } from "./schemas";
+import { testKey, useTestApp } from "./testing";
+
+// Integer amortization against a reference built a different way, and
+// GET /loan-request/:hash/schedule.
+
+const KEY = testKey("credit", ["loan-read"]);
+const REQUEST_HASH = "0x" + "ab".repeat(32);
+
+const app = useTestApp({
+  keys: [KEY],
+  env: { INTEREST_RATE_BPS: "800" },
+  setup: async () => {
+    const { storeLoanRequest } = await import("./store");
+    storeLoanRequest({
+      requestHash: REQUEST_HASH,
+      borrowerAddress: "0x" + "11".repeat(20),
+      tokenId: 1,
+      requestedAmount: "500000000000", // 500,000 USDC
+      tenureMonths: 360,
+      nonce: 0,
+      timestamp: 0,
+      plaidToken: "access-sandbox-test",
+    });
+  },
+});
+
+/**
+ * The exact annuity payment as a present-value sum, floored:
+ *   P / Σ_{k=1..n} (D / (D+a))^k  =  P·(D+a)^n / Σ_{k=1..n} D^k·(D+a)^(n−k)
+ */
+function referenceEmi(principal: bigint, annualBps: number, tenureMonths: number): bigint {
+  const d = RATE_DENOMINATOR;
+  const g = d + BigInt(annualBps);
+  let discounted = 0n;
+  for (let k = 1; k <= tenureMonths; k++) discounted += d ** BigInt(k) * g ** BigInt(tenureMonths - k);
+  return (principal * g ** BigInt(tenureMonths)) / discounted;
+}
+
+/** Deterministic PRNG (mulberry32), so a failing case can be replayed. */
+function prng(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+test("EMI matches the present-value reference and the textbook float formula", () => {
+  const random = prng(20261019);
+  for (let i = 0; i < 300; i++) {
+    const principal = BigInt(Math.floor(random() * 2_000_000)) * 1_000_000n + BigInt(Math.floor(random() * 1_000_000));
+    const annualBps = Math.floor(random() * 3_000) + 1;
+    const tenureMonths = Math.floor(random() * 360) + 1;
+    const emi = computeEmi(principal, annualBps, tenureMonths);
+
+    assert.equal(emi, referenceEmi(principal, annualBps, tenureMonths), `P=${principal} a=${annualBps} n=${tenureMonths}`);
+
+    const r = annualBps / 10_000 / 12;
+    const factor = Math.pow(1 + r, tenureMonths);
+    const float = (Number(principal) * r * factor) / (factor - 1);
+    assert.ok(Math.abs(Number(emi) - float) <= Math.max(1, float * 1e-9), `float drift at P=${principal}`);
+  }
+});
+
+test("every schedule repays the principal exactly, with rounding in the last payment", () => {
+  const random = prng(7);
+  for (let i = 0; i < 150; i++) {
+    const principal = BigInt(Math.floor(random() * 1_000_000_000_000));
+    const annualBps = Math.floor(random() * 2_500);
+    const tenureMonths = Math.floor(random() * 360) + 1;
+    const { emi, installments, totalInterest, totalPaid } = amortize(principal, annualBps, tenureMonths);
+    const label = `P=${principal} a=${annualBps} n=${tenureMonths}`;
+
+    assert.equal(installments.length, tenureMonths, label);
+    assert.equal(installments.reduce((sum, i) => sum + i.principal, 0n), principal, label);
+    assert.equal(installments.reduce((sum, i) => sum + i.interest, 0n), totalInterest, label);
+    assert.equal(totalPaid, principal + totalInterest, label);
+    assert.equal(installments[tenureMonths - 1].balance, 0n, label);
+
+    let balance = principal;
+    for (const row of installments) {
+      assert.equal(row.interest, (balance * BigInt(annualBps)) / RATE_DENOMINATOR, label);
+      assert.equal(row.payment, row.principal + row.interest, label);
+      assert.ok(row.principal >= 0n, label);
+      balance -= row.principal;
+      assert.equal(row.balance, balance, label);
+      if (row.month < tenureMonths) assert.equal(row.payment, emi, label);
+    }
+    // Flooring EMI leaves under a unit a month, compounding, for the final payment
+    const r = annualBps / Number(RATE_DENOMINATOR);
+    const slack = r === 0 ? tenureMonths : Math.ceil((Math.pow(1 + r, tenureMonths) - 1) / r);
+    assert.ok(installments[tenureMonths - 1].payment <= emi + BigInt(slack), label);
+  }
+});
+
+test("a zero rate splits the principal evenly", () => {
+  const { emi, installments, totalInterest } = amortize(1_000_003n, 0, 4);
+  assert.equal(emi, 250_000n);
+  assert.equal(totalInterest, 0n);
+  assert.deepEqual(installments.map((i) => i.payment), [250_000n, 250_000n, 250_000n, 250_003n]);
+});
+
+test("invalid terms are refused", () => {
+  assert.throws(() => computeEmi(-1n, 800, 12), RangeError);
+  assert.throws(() => computeEmi(1n, 8.5, 12), RangeError);
+  assert.throws(() => computeEmi(1n, 800, 0), RangeError);
+  assert.throws(() => computeEmi(1n, 800, MAX_TENURE_MONTHS + 1), RangeError);
+  assert.throws(() => amortize(1n, 800, 5_000_000), RangeError);
+  assert.equal(amortize(1_000_000n, 800, MAX_TENURE_MONTHS).installments.length, MAX_TENURE_MONTHS);
+});
+
+test("GET /loan-request/:hash/schedule serves the same schedule", async () => {
+  const res = await app.request<RepaymentScheduleResponse>(KEY, "GET", `/loan-request/${REQUEST_HASH}/schedule`);
+  assert.equal(res.status, 200);
+  assert.equal(res.body.rateBps, 800);
+  assert.equal(res.body.principal, "500000000000");
+  assert.equal(res.body.emi, computeEmi(500_000_000_000n, 800, 360).toString());
+  assert.equal(res.body.installments.length, 360);
+  assert.equal(res.body.installments[359].balance, "0");
+
+  const priced = await app.request<RepaymentScheduleResponse>(
+    KEY,
+    "GET",
+    `/loan-request/${REQUEST_HASH}/schedule?rateBps=650&principal=400000000000`
+  );
+  assert.equal(priced.status, 200);
+  assert.equal(priced.body.emi, computeEmi(400_000_000_000n, 650, 360).toString());
+
+  const tooMuch = await app.request<ApiErrorResponse>(KEY, "GET", `/loan-request/${REQUEST_HASH}/schedule?principal=500000000001`);
+  assert.equal(tooMuch.status, 400);
+  assert.equal(tooMuch.body.field, "principal");
+
+  const missing = await app.request<ApiErrorResponse>(KEY, "GET", `/loan-request/0x${"cd".repeat(32)}/schedule`);
+  assert.equal(missing.status, 404);
+});
@@ -0,0 +1,81 @@
+/**
+ * Exact amortization math on USDC base units (6 decimals), in bigint only,
+ * so the API, the credit-assessment workflow and a Solidity port agree to
+ * the unit. `npm run gen:client` copies this file to
+ * cre-workflows/api-client/amortization.ts — keep it free of imports.
+ *
+ * With a monthly rate r = annualBps / 120000:
+ *
+ *   EMI      = floor(P × a × (D+a)^n / (D × ((D+a)^n − D^n)))   D = 120000, a = annualBps
+ *   interest = floor(balance × a / D)                            each month
+ *   principal = EMI − interest
+ *
+ * Every rounding is down, as mulDiv would. The final payment is whatever
+ * clears the balance — the remaining principal plus that month's interest —
+ * so it absorbs the rounding: under a unit a month, compounded at r.
+ */
+
+/** Monthly-rate denominator: 10_000 bps × 12 months. */
+export const RATE_DENOMINATOR = 120_000n;
+
+/**
+ * Longest tenure priced (50 years). (D+a)^n and the schedule loop both grow
+ * with n, so a tenure from a request is bounded before any math runs.
+ */
+export const MAX_TENURE_MONTHS = 600;
+
+export interface Installment {
+  month: number;     // 1-based
+  payment: bigint;
+  principal: bigint;
+  interest: bigint;
+  balance: bigint;   // remaining after this payment
+}
+
+export interface AmortizationSchedule {
+  emi: bigint;
+  totalInterest: bigint;
+  totalPaid: bigint;
+  installments: Installment[];
+}
+
+function checkTerms(principal: bigint, annualBps: number, tenureMonths: number): void {
+  if (principal < 0n) throw new RangeError("principal must be non-negative");
+  if (!Number.isInteger(annualBps) || annualBps < 0) throw new RangeError("annualBps must be a non-negative integer");
+  if (!Number.isInteger(tenureMonths) || tenureMonths < 1 || tenureMonths > MAX_TENURE_MONTHS) {
+    throw new RangeError(`tenureMonths must be an integer from 1 to ${MAX_TENURE_MONTHS}`);
+  }
+}
+
+/** The level monthly payment, rounded down to a whole base unit. */
+export function computeEmi(principal: bigint, annualBps: number, tenureMonths: number): bigint {
+  checkTerms(principal, annualBps, tenureMonths);
+  const a = BigInt(annualBps);
+  const n = BigInt(tenureMonths);
+  if (a === 0n) return principal / n;
+
+  const growth = (RATE_DENOMINATOR + a) ** n;
+  const base = RATE_DENOMINATOR ** n;
+  return (principal * a * growth) / (RATE_DENOMINATOR * (growth - base));
+}
+
+/** The month-by-month schedule; its principal parts always sum to `principal`. */
+export function amortize(principal: bigint, annualBps: number, tenureMonths: number): AmortizationSchedule {
+  const emi = computeEmi(principal, annualBps, tenureMonths);
+  const a = BigInt(annualBps);
+
+  const installments: Installment[] = [];
+  let balance = principal;
+  let totalInterest = 0n;
+  for (let month = 1; month <= tenureMonths; month++) {
+    const interest = (balance * a) / RATE_DENOMINATOR;
+    const last = month === tenureMonths;
+    // emi ≥ interest always, so principal never goes negative; cap it at the balance
+    const toPrincipal = last || emi - interest > balance ? balance : emi - interest;
+    balance -= toPrincipal;
+    totalInterest += interest;
+    installments.push({ month, payment: toPrincipal + interest, principal: toPrincipal, interest, balance });
+  }
+
+  return { emi, totalInterest, totalPaid: principal + totalInterest, installments };
+}
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import type { ApiErrorResponse, AuctionFormatResponse, AuctionListResponse } from "./schemas";
+import { MemoryBackend, SqliteBackend, setStorage } from "./storage";
+import { tempDir, testKey, useTestApp } from "./testing";
+
+// Setting an auction's settlement format, and listing auctions by state.
+
+const KEY = testKey("auctions", ["auctions"]);
+
+const app = useTestApp({ keys: [KEY] });
+
+const auctionId = (byte: string) => "0x" + byte.repeat(32);
+const putFormat = (id: string, format: object) =>
+  app.request<AuctionFormatResponse & ApiErrorResponse>(KEY, "PUT", `/auctions/${id}/format`, format);
+
+test("an unknown auction is a 404 and isn't created", async () => {
+  const res = await putFormat(auctionId("ab"), { kind: "first-price" });
+  assert.equal(res.status, 404);
+  assert.equal(res.body.code, "NOT_FOUND");
+
+  const list = await app.request<AuctionListResponse>(KEY, "GET", "/auctions");
+  assert.equal(list.body.total, 0);
+});
+
+test("uniform-price is refused until the contract settles several winners", async () => {
+  const { registerAuction } = await import("./store");
+  const id = auctionId("ef");
+  registerAuction(id, Math.floor(Date.now() / 1000) + 3600);
+
+  const res = await putFormat(id, { kind: "uniform-price", units: 2 });
+  assert.equal(res.status, 400);
+  assert.equal(res.body.code, "INVALID_FIELD");
+  assert.equal(res.body.field, "kind");
+});
+
+test("a registered auction takes a format until its first bid", async () => {
+  const { registerAuction, storeBid } = await import("./store");
+  const id = auctionId("cd");
+  registerAuction(id, Math.floor(Date.now() / 1000) + 3600);
+
+  const set = await putFormat(id, { kind: "english", incrementBps: 500 });
+  assert.equal(set.status, 200);
+  assert.deepEqual(set.body, { auctionId: id, format: { kind: "english", incrementBps: 500 } });
+
+  storeBid({
+    auctionId: id,
+    bidder: "0x" + "11".repeat(20),
+    amount: "1000000",
+    nonce: 1,
+    signature: "0x" + "22".repeat(65),
+    bidHash: "0x" + "33".repeat(32),
+    timestamp: 0,
+  });
+  const late = await putFormat(id, { kind: "vickrey" });
+  assert.equal(late.status, 409);
+  assert.equal(late.body.code, "CONFLICT");
+});
+
+for (const [name, backend] of [
+  ["memory", () => new MemoryBackend()],
+  ["sqlite", () => new SqliteBackend(path.join(tempDir(), "lienfi.db"))],
+] as const) {
+  test(`an auction closed unsold leaves the expired listing (${name})`, async () => {
+    const { registerAuction, closeAuctionInStore } = await import("./store");
+    setStorage(backend());
+    const expired = auctionId("e1");
+    const closed = auctionId("e2");
+    registerAuction(expired, Math.floor(Date.now() / 1000) - 60);
+    registerAuction(closed, Math.floor(Date.now() / 1000) - 60);
+    closeAuctionInStore(closed);
+
+    const listed = async (state: string) =>
+      (await app.request<AuctionListResponse>(KEY, "GET", `/auctions?state=${state}`)).body.auctions;
+    assert.deepEqual((await listed("expired")).map((a) => a.auctionId), [expired]);
+    const [summary, ...rest] = await listed("closed");
+    assert.equal(rest.length, 0);
+    assert.equal(summary.auctionId, closed);
+    assert.equal(summary.state, "closed");
+    assert.equal(summary.closed, true);
+    assert.equal(summary.settled, false);
+
+    const late = await putFormat(closed, { kind: "vickrey" });
+    assert.equal(late.status, 409);
+  });
+}
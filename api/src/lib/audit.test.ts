@@ -0,0 +1,85 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as path from "path";
+import Database from "better-sqlite3";
+import { ethers } from "ethers";
+import { recordAudit, listAudit, verifyAuditChain, type AuditEntry } from "./audit";
+import { setStorage, MemoryBackend, SqliteBackend } from "./storage";
+import { tempDir } from "./testing";
+
+// Hash chaining, tamper detection and append-only storage.
+
+before(() => {
+  process.env.STORE_KEKS = `test:${crypto.randomBytes(32).toString("hex")}`;
+  process.env.STORE_KEK_ACTIVE = "test";
+});
+
+function seed(count: number): AuditEntry[] {
+  for (let i = 0; i < count; i++) {
+    recordAudit({
+      kind: "bid.rejected",
+      subject: "0x" + "ab".repeat(32),
+      actor: "bid-workflow-1",
+      data: { action: "submit", bidder: "0x" + "11".repeat(20), code: "BELOW_RESERVE", reason: `attempt ${i}` },
+    });
+  }
+  return listAudit({ after: 0, limit: 100 }).entries;
+}
+
+test("entries chain from the zero hash and verify", () => {
+  setStorage(new MemoryBackend());
+  const entries = seed(3);
+
+  assert.deepEqual(entries.map((e) => e.seq), [1, 2, 3]);
+  assert.equal(entries[0].prevHash, ethers.ZeroHash);
+  assert.equal(entries[1].prevHash, entries[0].hash);
+
+  const result = verifyAuditChain(entries);
+  assert.deepEqual(result, { ok: true, count: 3, head: entries[2].hash });
+
+  // A later page verifies against the hash before it
+  assert.equal(verifyAuditChain(entries.slice(1), entries[0].hash).ok, true);
+});
+
+test("edits, gaps and reordering break the chain", () => {
+  setStorage(new MemoryBackend());
+  const entries = seed(3);
+
+  const edited = entries.map((e) => ({ ...e, data: { ...e.data } }));
+  edited[1].data.reason = "something else";
+  assert.deepEqual(verifyAuditChain(edited), {
+    ok: false,
+    seq: 2,
+    reason: "Entry contents do not match its hash",
+  });
+
+  assert.equal(verifyAuditChain([entries[0], entries[2]]).ok, false);
+  assert.equal(verifyAuditChain([entries[1], entries[0], entries[2]]).ok, false);
+  assert.equal(verifyAuditChain(entries.slice(1)).ok, false); // missing prevHash
+});
+
+test("the hash doesn't depend on data key order", () => {
+  setStorage(new MemoryBackend());
+  const [entry] = seed(1);
+  const reordered = Object.fromEntries(Object.entries(entry.data).reverse());
+  assert.equal(verifyAuditChain([{ ...entry, data: reordered }]).ok, true);
+});
+
+test("the SQLite audit_log refuses updates and deletes", () => {
+  const file = path.join(tempDir(), "lienfi.db");
+  const backend = new SqliteBackend(file);
+  setStorage(backend);
+  seed(2);
+
+  // Tamper as someone with the database file would, over a separate connection
+  const db = new Database(file);
+  try {
+    assert.throws(() => db.prepare("UPDATE audit_log SET subject = 'x' WHERE seq = 1").run(), /append-only/);
+    assert.throws(() => db.prepare("DELETE FROM audit_log WHERE seq = 2").run(), /append-only/);
+  } finally {
+    db.close();
+  }
+  assert.equal(verifyAuditChain(backend.listAuditEntries({ after: 0, limit: 10 })).ok, true);
+  backend.close();
+});
@@ -0,0 +1,138 @@
+import { ethers } from "ethers";
+import { getStorage } from "./storage";
+
+/**
+ * Append-only, hash-chained audit log of the API's decisions: bids accepted,
+ * rejected and withdrawn, settlement results, property verification
+ * verdicts and preimage reveals, and loan requests.
+ *
+ * Entries never carry bid amounts or other sealed fields — only who, what,
+ * and why. Each entry commits to its predecessor:
+ *
+ *   hash = keccak256(utf8(JSON.stringify(
+ *            [seq, timestamp, kind, subject, actor, sortedData, prevHash])))
+ *
+ * where sortedData is `data` with its keys in sorted order and prevHash is
+ * the previous entry's hash (zero hash for seq 1). Editing, dropping or
+ * reordering any entry breaks every hash after it; verifyAuditChain (and
+ * `npm run verify-audit`) recompute the chain from an export of GET /audit.
+ */
+
+export const AUDIT_KINDS = [
+  "bid.accepted",
+  "bid.rejected",           // with the error code and reason; signed bids within the rate limits only
+  "bid.withdrawn",
+  "settlement.completed",
+  "settlement.rejected",
+  "property.verification",  // valid or not, with the reason
+  "property.reveal",        // commitment preimage granted or refused, with the requester
+  "loanRequest.stored",
+  "loanRequest.rejected",
+] as const;
+
+export type AuditKind = (typeof AUDIT_KINDS)[number];
+
+export type AuditData = Record<string, string | number | boolean | null>;
+
+export interface AuditEvent {
+  kind: AuditKind;
+  subject: string;    // auctionId, propertyId or requestHash
+  actor: string | null; // API key id that made the request
+  data: AuditData;
+}
+
+export interface AuditEntry extends AuditEvent {
+  seq: number;        // 1-based, no gaps
+  timestamp: number;  // unix seconds
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  after: number;      // entries with seq > after
+  limit: number;
+  kind?: AuditKind;
+  subject?: string;
+}
+
+export type AuditVerification =
+  | { ok: true; count: number; head: string }
+  | { ok: false; seq: number; reason: string };
+
+export function hashAuditEntry(entry: Omit<AuditEntry, "hash">): string {
+  const data = Object.fromEntries(
+    Object.keys(entry.data)
+      .sort()
+      .map((key) => [key, entry.data[key]])
+  );
+  const payload = JSON.stringify([
+    entry.seq,
+    entry.timestamp,
+    entry.kind,
+    entry.subject,
+    entry.actor,
+    data,
+    entry.prevHash,
+  ]);
+  return ethers.keccak256(ethers.toUtf8Bytes(payload));
+}
+
+/**
+ * Append an entry, chained to the current head. Runs in a storage
+ * transaction so concurrent writers can't fork the chain.
+ */
+export function recordAudit(event: AuditEvent): AuditEntry {
+  const storage = getStorage();
+  return storage.transaction(() => {
+    const last = storage.getLastAuditEntry();
+    const unhashed = {
+      ...event,
+      seq: last ? last.seq + 1 : 1,
+      timestamp: Math.floor(Date.now() / 1000),
+      prevHash: last ? last.hash : ethers.ZeroHash,
+    };
+    const entry: AuditEntry = { ...unhashed, hash: hashAuditEntry(unhashed) };
+    storage.appendAuditEntry(entry);
+    return entry;
+  });
+}
+
+export function listAudit(query: AuditQuery): { entries: AuditEntry[]; head: AuditEntry | null } {
+  const storage = getStorage();
+  return {
+    entries: storage.listAuditEntries(query),
+    head: storage.getLastAuditEntry(),
+  };
+}
+
+/**
+ * Check a contiguous run of entries: each hash recomputes, and each links to
+ * the one before. Pass `prevHash` when the run doesn't start at seq 1 (the
+ * hash of the entry before it, from an earlier verified export).
+ */
+export function verifyAuditChain(
+  entries: AuditEntry[],
+  prevHash: string = ethers.ZeroHash
+): AuditVerification {
+  let expectedSeq = entries.length > 0 ? entries[0].seq : 1;
+  if (expectedSeq === 1 && prevHash !== ethers.ZeroHash) {
+    return { ok: false, seq: 1, reason: "Chain starts at seq 1 but a prevHash was given" };
+  }
+
+  for (const entry of entries) {
+    if (entry.seq !== expectedSeq) {
+      return { ok: false, seq: entry.seq, reason: `Expected seq ${expectedSeq} — entries missing or reordered` };
+    }
+    if (entry.prevHash !== prevHash) {
+      return { ok: false, seq: entry.seq, reason: "prevHash does not match the previous entry" };
+    }
+    const { hash, ...unhashed } = entry;
+    if (hashAuditEntry(unhashed) !== hash) {
+      return { ok: false, seq: entry.seq, reason: "Entry contents do not match its hash" };
+    }
+    prevHash = hash;
+    expectedSeq++;
+  }
+
+  return { ok: true, count: entries.length, head: prevHash };
+}
@@ -0,0 +1,129 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import type { ApiErrorResponse, AuctionStatusResponse } from "./schemas";
+import { registerAuction } from "./store";
+import { signedHeaders, useTestApp, type TestKey } from "./testing";
+
+// Request signing, replay protection, scopes and rotation windows.
+
+const HOUR = 3_600_000;
+const secret = () => crypto.randomBytes(32).toString("hex");
+
+const KEYS = {
+  reader: { keyId: "reader-1", client: "reader", secret: secret(), scopes: ["auctions"] },
+  bidder: { keyId: "bidder-1", client: "bidder", secret: secret(), scopes: ["bid"] },
+  expired: {
+    keyId: "reader-0",
+    client: "reader",
+    secret: secret(),
+    scopes: ["auctions"],
+    notAfter: new Date(Date.now() - HOUR).toISOString(),
+  },
+  pending: {
+    keyId: "reader-2",
+    client: "reader",
+    secret: secret(),
+    scopes: ["auctions"],
+    notBefore: new Date(Date.now() + HOUR).toISOString(),
+  },
+} satisfies Record<string, TestKey>;
+
+const AUCTION_ID = "0x" + "ab".repeat(32);
+const STATUS_ROUTE = `/status/${AUCTION_ID}`;
+
+const app = useTestApp({ keys: Object.values(KEYS), env: { API_SIGNATURE_MAX_AGE_S: "60" } });
+
+const get = (key: TestKey, route = STATUS_ROUTE, headers?: Record<string, string>) =>
+  app.request<ApiErrorResponse>(key, "GET", route, undefined, headers);
+const getStatus = (route = STATUS_ROUTE, headers?: Record<string, string>) =>
+  app.request<AuctionStatusResponse>(KEYS.reader, "GET", route, undefined, headers);
+
+test("a repeated signature gets the first response again, without re-running the handler", async () => {
+  const headers = signedHeaders(KEYS.reader, { route: STATUS_ROUTE });
+  const first = await getStatus(STATUS_ROUTE, headers);
+  assert.equal(first.status, 200);
+  assert.deepEqual(first.body, { bidCount: 0, deadline: 0, settled: false });
+
+  // The auction now exists, but the repeat is answered from the first run
+  registerAuction(AUCTION_ID, 1_900_000_000);
+  const repeat = await getStatus(STATUS_ROUTE, headers);
+  assert.equal(repeat.status, 200);
+  assert.deepEqual(repeat.body, first.body);
+  assert.equal(repeat.headers.get("content-type"), first.headers.get("content-type"));
+
+  // Fresh signatures see the change
+  assert.equal((await getStatus()).body.deadline, 1_900_000_000);
+});
+
+test("DON nodes sending the same signed request at once get identical responses", async () => {
+  const route = "/status/0x" + "cd".repeat(32);
+  const headers = signedHeaders(KEYS.reader, { route });
+  const responses = await Promise.all([1, 2, 3, 4].map(() => getStatus(route, headers)));
+
+  for (const res of responses) {
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, responses[0].body);
+  }
+});
+
+test("refuses missing headers, unknown keys and bad signatures", async () => {
+  const res = await fetch(`${app.baseUrl}${STATUS_ROUTE}`);
+  assert.equal(res.status, 401);
+
+  const unknown = { ...KEYS.reader, keyId: "nobody" };
+  assert.equal((await get(unknown)).status, 401);
+
+  const wrongSecret = signedHeaders({ ...KEYS.reader, secret: secret() }, { route: STATUS_ROUTE });
+  assert.equal((await get(KEYS.reader, STATUS_ROUTE, wrongSecret)).status, 401);
+});
+
+test("the signature covers the body and the query string", async () => {
+  const signedOther = signedHeaders(KEYS.bidder, {
+    method: "POST",
+    route: "/bid",
+    body: JSON.stringify({ auctionId: "0x" + "ef".repeat(32) }),
+  });
+  const tampered = await app.request(KEYS.bidder, "POST", "/bid", { auctionId: "0x" + "cd".repeat(32) }, signedOther);
+  assert.equal(tampered.status, 401);
+
+  const headers = signedHeaders(KEYS.reader, { route: "/auctions?limit=1" });
+  const requery = await get(KEYS.reader, "/auctions?limit=2", headers);
+  assert.equal(requery.status, 401);
+});
+
+test("refuses timestamps outside the allowed skew", async () => {
+  const now = Math.floor(Date.now() / 1000);
+  const at = (timestamp: number) => get(KEYS.reader, STATUS_ROUTE, signedHeaders(KEYS.reader, { route: STATUS_ROUTE, timestamp }));
+  assert.equal((await at(now - 120)).status, 401);
+  assert.equal((await at(now + 120)).status, 401);
+  assert.equal((await at(now - 30)).status, 200);
+});
+
+test("a key may only call routes in its scopes", async () => {
+  const res = await get(KEYS.bidder);
+  assert.equal(res.status, 403);
+  assert.equal(res.body.code, "FORBIDDEN");
+});
+
+test("honours notBefore / notAfter, and picks up a rotated keys file", async () => {
+  assert.equal((await get(KEYS.expired)).status, 401);
+  assert.equal((await get(KEYS.pending)).status, 401);
+
+  // Rotate: the pending key becomes valid now, overlapping the current one
+  const rotated = { ...KEYS.pending, notBefore: new Date(Date.now() - 1000).toISOString() };
+  app.writeKeys([KEYS.reader, KEYS.bidder, rotated], new Date(Date.now() + 5000));
+
+  assert.equal((await get(rotated, "/auctions")).status, 200);
+  assert.equal((await get(KEYS.reader, "/auctions")).status, 200);
+});
+
+test("a malformed keys file is a server misconfiguration, not an open door", async () => {
+  fs.writeFileSync(app.keysFile, JSON.stringify({ credentials: [{ keyId: "x" }] }));
+  fs.utimesSync(app.keysFile, new Date(Date.now() + 10_000), new Date(Date.now() + 10_000));
+
+  const res = await get(KEYS.reader, "/auctions?limit=3");
+  assert.equal(res.status, 500);
+  assert.equal(res.body.code, "SERVER_MISCONFIGURED");
+});
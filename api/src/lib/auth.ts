@@ -1,28 +1,273 @@
-import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import * as fs from "fs";
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { z } from "zod";
+import { sendError } from "./errors";
+import { log } from "./logger";
 
 /**
- * Middleware: validates X-Api-Key header against BID_API_KEY env var.
- * Called only via Confidential HTTP from CRE — API key is decrypted
- * inside the enclave and never exposed.
+ * Request authentication for the CRE workflows.
+ *
+ * Each workflow holds its own named credential from the keys file, limited
+ * to the scopes its routes need. Requests carry:
+ *
+ *   X-Api-Key-Id     credential id (not secret)
+ *   X-Api-Timestamp  unix seconds
+ *   X-Api-Signature  hex HMAC-SHA256(secret, signingPayload(...))
+ *
+ * The signature covers method, path + query, timestamp and the raw body, so
+ * a captured request can't be altered, and timestamps outside
+ * API_SIGNATURE_MAX_AGE_S are refused. Inside that window a signature runs
+ * its handler once: every DON node signs the same request with DON time, so
+ * a repeat is answered with the first response, replayed verbatim, which
+ * keeps the nodes' results identical for consensus.
+ *
+ * Rotation: give the replacement credential a `notBefore` and the old one a
+ * `notAfter` that overlap, so both verify while the workflow's secret is
+ * swapped. The file is re-read when it changes — no restart needed
+ * (`npm run api-keys -- rotate <client>` does the edit).
+ *
+ * Env:
+ *   API_KEYS_FILE           = path to the keys file (default ./api-keys.json)
+ *   API_SIGNATURE_MAX_AGE_S = allowed clock skew either way (default 300)
+ */
+
+export const SCOPES = [
+  "bid",        // submit and withdraw bids
+  "settle",     // run settlement
+  "audit",      // bid proofs, ranking reports and the audit log
+  "auctions",   // auction registry and status
+  "verify",     // property verification
+  "reveal",     // property commitment preimages, for owners and auction winners
+  "loan-write", // submit loan requests
+  "loan-read",  // read loan requests, including the Plaid token
+] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+const isoDate = z.string().datetime({ offset: true }).transform((s) => Date.parse(s));
+
+const credentialSchema = z.object({
+  keyId: z.string().min(1),
+  client: z.string().min(1), // workflow or service it was issued to
+  secret: z.string().min(32),
+  scopes: z.array(z.enum(SCOPES)).min(1),
+  notBefore: isoDate.optional(),
+  notAfter: isoDate.optional(),
+});
+
+export const keysFileSchema = z.object({
+  credentials: z.array(credentialSchema),
+});
+
+export type Credential = z.infer<typeof credentialSchema>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;        // kept by express.json() for signature checks
+      credential?: Credential; // set once the signature verifies
+    }
+  }
+}
+
+export const SIGNATURE_HEADERS = {
+  keyId: "x-api-key-id",
+  timestamp: "x-api-timestamp",
+  signature: "x-api-signature",
+} as const;
+
+/**
+ * The string a request signature covers. Mirrored by
+ * cre-workflows/api-client/signing.ts — change both together.
+ */
+export function signingPayload(method: string, path: string, timestamp: string, body: string): string {
+  return [method.toUpperCase(), path, timestamp, body].join("\n");
+}
+
+export function sign(secret: string, payload: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+export function keysFilePath(): string {
+  return process.env.API_KEYS_FILE || "./api-keys.json";
+}
+
+// ─── Keys file ───────────────────────────────────────────────────────────────
+
+let cached: { mtimeMs: number; credentials: Map<string, Credential> } | null = null;
+
+/** Credentials by keyId, re-read whenever the file's mtime changes. */
+function loadCredentials(): Map<string, Credential> {
+  const file = keysFilePath();
+  const { mtimeMs } = fs.statSync(file);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.credentials;
+
+  const parsed = keysFileSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf8")));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Malformed ${file}: ${issue.path.join(".")} ${issue.message}`);
+  }
+
+  const credentials: Map<string, Credential> = new Map();
+  for (const credential of parsed.data.credentials) {
+    if (credentials.has(credential.keyId)) {
+      throw new Error(`Malformed ${file}: duplicate keyId ${credential.keyId}`);
+    }
+    credentials.set(credential.keyId, credential);
+  }
+
+  cached = { mtimeMs, credentials };
+  log.info("AUTH", "Loaded API credentials", { count: credentials.size, file });
+  return credentials;
+}
+
+function isActive(credential: Credential, now: number): boolean {
+  if (credential.notBefore !== undefined && now < credential.notBefore) return false;
+  if (credential.notAfter !== undefined && now >= credential.notAfter) return false;
+  return true;
+}
+
+// ─── Repeated signatures ─────────────────────────────────────────────────────
+
+/** What the first request under a signature was answered with. */
+interface RecordedResponse {
+  status: number;
+  contentType: string | undefined;
+  body: unknown;
+}
+
+/** Signatures already accepted → the response to replay, until they leave the window. */
+const seenSignatures: Map<string, { expiresAt: number; response: Promise<RecordedResponse | null> }> = new Map();
+let lastPrune = 0;
+
+function maxAgeSeconds(): number {
+  return Number(process.env.API_SIGNATURE_MAX_AGE_S) || 300;
+}
+
+/** The first response recorded under `key` while it's inside the window. */
+function findSeen(key: string, now: number): Promise<RecordedResponse | null> | undefined {
+  if (now - lastPrune > 60_000) {
+    for (const [seen, { expiresAt }] of seenSignatures) {
+      if (expiresAt <= now) seenSignatures.delete(seen);
+    }
+    lastPrune = now;
+  }
+
+  const seen = seenSignatures.get(key);
+  return seen && seen.expiresAt > now ? seen.response : undefined;
+}
+
+/**
+ * Record what `res` sends under `key`. Resolves once the response is
+ * finished, or with null if the connection closed before it was.
+ */
+function recordResponse(key: string, expiresAt: number, res: Response): void {
+  let body: unknown;
+  const send = res.send.bind(res);
+  res.send = (chunk?: unknown) => {
+    body = chunk; // res.json() re-enters send() with the serialised string
+    return send(chunk);
+  };
+
+  const response = new Promise<RecordedResponse | null>((resolve) => {
+    res.once("finish", () => resolve({ status: res.statusCode, contentType: res.get("Content-Type"), body }));
+    res.once("close", () => resolve(null));
+  });
+  seenSignatures.set(key, { expiresAt, response });
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const left = Buffer.from(a, "utf8");
+  const right = Buffer.from(b, "utf8");
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// ─── Middleware ──────────────────────────────────────────────────────────────
+
+/**
+ * Middleware: verifies the request signature and sets req.credential.
+ * Which routes the credential may call is checked by requireScope.
  */
 export function authMiddleware(
   req: Request,
   res: Response,
   next: NextFunction
 ): void {
-  const apiKey = req.headers["x-api-key"] as string | undefined;
-  const expectedKey = process.env.BID_API_KEY;
+  const keyId = req.header(SIGNATURE_HEADERS.keyId);
+  const timestamp = req.header(SIGNATURE_HEADERS.timestamp);
+  const signature = req.header(SIGNATURE_HEADERS.signature);
 
-  if (!expectedKey) {
-    console.error("BID_API_KEY not set in environment");
-    res.status(500).json({ error: "Server misconfigured" });
+  if (!keyId || !timestamp || !signature) {
+    sendError(res, 401, "UNAUTHORIZED", "Missing X-Api-Key-Id, X-Api-Timestamp or X-Api-Signature");
     return;
   }
 
-  if (!apiKey || apiKey !== expectedKey) {
-    res.status(403).json({ error: "Invalid API key" });
+  let credentials: Map<string, Credential>;
+  try {
+    credentials = loadCredentials();
+  } catch (err) {
+    log.error("AUTH", "Could not load API credentials", { err });
+    sendError(res, 500, "SERVER_MISCONFIGURED", "Server misconfigured");
     return;
   }
 
+  const now = Date.now();
+  const credential = credentials.get(keyId);
+  if (!credential || !isActive(credential, now)) {
+    log.warn("AUTH", "Request rejected", { keyId, reason: credential ? "inactive" : "unknown" });
+    sendError(res, 401, "UNAUTHORIZED", "Unknown or inactive API key");
+    return;
+  }
+
+  const maxAgeMs = maxAgeSeconds() * 1000;
+  const signedAt = /^\d+$/.test(timestamp) ? Number(timestamp) * 1000 : NaN;
+  if (!Number.isFinite(signedAt) || Math.abs(now - signedAt) > maxAgeMs) {
+    sendError(res, 401, "UNAUTHORIZED", "Request timestamp outside the allowed window");
+    return;
+  }
+
+  const body = req.rawBody?.toString("utf8") ?? "";
+  const expected = sign(credential.secret, signingPayload(req.method, req.originalUrl, timestamp, body));
+  if (!safeEqualHex(signature.toLowerCase(), expected)) {
+    log.warn("AUTH", "Request rejected", { keyId, reason: "signature", path: req.originalUrl });
+    sendError(res, 401, "UNAUTHORIZED", "Invalid request signature");
+    return;
+  }
+
+  const seenKey = `${keyId}:${expected}`;
+  const seen = findSeen(seenKey, now);
+  if (seen) {
+    void seen.then((recorded) => {
+      if (!recorded) {
+        log.warn("AUTH", "Request rejected", { keyId, reason: "replay", path: req.originalUrl });
+        sendError(res, 401, "UNAUTHORIZED", "Request already used");
+        return;
+      }
+      log.debug("AUTH", "Replaying response to a repeated signature", { keyId, path: req.originalUrl });
+      if (recorded.contentType) res.set("Content-Type", recorded.contentType);
+      res.status(recorded.status).send(recorded.body);
+    });
+    return;
+  }
+
+  recordResponse(seenKey, signedAt + maxAgeMs, res);
+  req.credential = credential;
   next();
 }
+
+/**
+ * Route middleware: 403 unless the authenticated credential holds `scope`.
+ * The scope is exposed on the handler so the OpenAPI test can compare it
+ * with the documented one.
+ */
+export function requireScope(scope: Scope): RequestHandler & { scope: Scope } {
+  const handler = (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.credential?.scopes.includes(scope)) {
+      sendError(res, 403, "FORBIDDEN", `API key lacks the '${scope}' scope`);
+      return;
+    }
+    next();
+  };
+  return Object.assign(handler, { scope });
+}
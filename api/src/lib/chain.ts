@@ -1,16 +1,78 @@
 import { ethers } from "ethers";
+import { indexedView } from "./indexer";
+import { cachedRead, rpcCall, RpcUnavailableError, RpcBusyError } from "./rpc";
+import { rpcDuration, secondsSince } from "./metrics";
+
+export { RpcUnavailableError, RpcBusyError } from "./rpc";
 
 // Minimal ABI fragments — only the mappings we need to read
 const CONTRACT_ABI = [
   "function poolBalance(address, address) view returns (uint256)",
   "function lockExpiry(address) view returns (uint256)",
   "function auctions(bytes32) view returns (address seller, uint256 tokenId, uint256 deadline, uint256 reservePrice, bool settled, address winner, uint256 settledPrice)",
+  "function getBidCount(bytes32) view returns (uint256)",
+  "function bidHashes(bytes32, uint256) view returns (bytes32)",
+  "function bidRevoked(bytes32, bytes32) view returns (bool)",
 ];
 
-function getContract(): ethers.Contract {
-  const provider = new ethers.JsonRpcProvider(
-    process.env.RPC_URL || "https://rpc.sepolia.org"
-  );
+const MULTICALL_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
+// Multicall3 — same address on every chain it is deployed to
+const DEFAULT_MULTICALL_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const auctionInterface = new ethers.Interface(CONTRACT_ABI);
+
+// getPoolBalance, getLockExpiry, getAuctionOnChain and getBidEligibility
+// answer from the chain indexer's view when it is running and caught up
+// (INDEXER_ENABLED=true) — `confirmations` blocks behind head. Otherwise
+// they read at the latest block through the shared RPC pool (./rpc), cached
+// until the block moves. Settlement-time reads (funding snapshot, bid
+// hashes) always go to RPC. RPC reads are timed into
+// lienfi_rpc_duration_seconds (see ./metrics); indexer answers are not.
+
+/**
+ * The auction id has no on-chain record (the contract returned a zero
+ * deadline). Distinct from RpcUnavailableError, where the read failed.
+ */
+export class AuctionNotFoundError extends Error {
+  constructor(auctionId: string) {
+    super(`Auction ${auctionId} not found on-chain`);
+    this.name = "AuctionNotFoundError";
+  }
+}
+
+// ─── RPC latency ─────────────────────────────────────────────────────────────
+
+/** Record how long a chain read took, as the route saw it, and pass it through. */
+async function observeRpc<T>(method: string, read: () => Promise<T>): Promise<T> {
+  const start = process.hrtime.bigint();
+  try {
+    const result = await read();
+    rpcDuration.observe({ method, outcome: "ok" }, secondsSince(start));
+    return result;
+  } catch (err) {
+    const outcome =
+      err instanceof RpcUnavailableError ? "unavailable" : err instanceof RpcBusyError ? "busy" : "error";
+    rpcDuration.observe({ method, outcome }, secondsSince(start));
+    throw err;
+  }
+}
+
+function timedRead<T>(
+  method: string,
+  key: string,
+  fn: (provider: ethers.JsonRpcProvider, blockTag: number) => Promise<T>
+): Promise<T> {
+  return observeRpc(method, () => cachedRead(key, fn));
+}
+
+function timedCall<T>(method: string, fn: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+  return observeRpc(method, () => rpcCall(fn));
+}
+
+function auctionContract(provider: ethers.Provider): ethers.Contract {
   const contractAddress =
     process.env.VERIFYING_CONTRACT || ethers.ZeroAddress;
   return new ethers.Contract(contractAddress, CONTRACT_ABI, provider);
@@ -20,13 +82,21 @@ export async function getPoolBalance(
   bidder: string,
   token: string
 ): Promise<bigint> {
-  const contract = getContract();
-  return contract.poolBalance(bidder, token) as Promise<bigint>;
+  const view = indexedView();
+  if (view) return view.poolBalance(bidder, token);
+
+  return timedRead("getPoolBalance", `poolBalance:${bidder}:${token}`.toLowerCase(), (p, blockTag) =>
+    auctionContract(p).poolBalance(bidder, token, { blockTag }) as Promise<bigint>
+  );
 }
 
 export async function getLockExpiry(bidder: string): Promise<bigint> {
-  const contract = getContract();
-  return contract.lockExpiry(bidder) as Promise<bigint>;
+  const view = indexedView();
+  if (view) return view.lockExpiry(bidder);
+
+  return timedRead("getLockExpiry", `lockExpiry:${bidder}`.toLowerCase(), (p, blockTag) =>
+    auctionContract(p).lockExpiry(bidder, { blockTag }) as Promise<bigint>
+  );
 }
 
 export interface AuctionOnChain {
@@ -39,11 +109,7 @@ export interface AuctionOnChain {
   settledPrice: bigint;  // USDC (6 decimals)
 }
 
-export async function getAuctionOnChain(
-  auctionId: string
-): Promise<AuctionOnChain> {
-  const contract = getContract();
-  const result = await contract.auctions(auctionId);
+function toAuction(result: ethers.Result): AuctionOnChain {
   return {
     seller: result[0],
     tokenId: result[1],
@@ -54,3 +120,193 @@ export async function getAuctionOnChain(
     settledPrice: result[6],
   };
 }
+
+/**
+ * Throws AuctionNotFoundError for an unknown id, RpcUnavailableError if
+ * no endpoint answered.
+ */
+export async function getAuctionOnChain(
+  auctionId: string
+): Promise<AuctionOnChain> {
+  const view = indexedView();
+  const auction = view
+    ? view.getAuction(auctionId)
+    : await timedRead("getAuctionOnChain", `auction:${auctionId}`.toLowerCase(), async (p, blockTag) =>
+        toAuction(await auctionContract(p).auctions(auctionId, { blockTag }))
+      );
+
+  if (auction.deadline === 0n) {
+    throw new AuctionNotFoundError(auctionId);
+  }
+  return auction;
+}
+
+export interface BidEligibility {
+  auction: AuctionOnChain;
+  balance: bigint;    // bidder's pool balance in `token`
+  lockExpiry: bigint;
+}
+
+/**
+ * Everything POST /bid checks on-chain, in one round trip: a Multicall3
+ * aggregate when the chain has it, otherwise three parallel reads.
+ * Same errors as getAuctionOnChain().
+ */
+export async function getBidEligibility(
+  auctionId: string,
+  bidder: string,
+  token: string
+): Promise<BidEligibility> {
+  const view = indexedView();
+  if (view) {
+    return {
+      auction: await getAuctionOnChain(auctionId),
+      balance: view.poolBalance(bidder, token),
+      lockExpiry: view.lockExpiry(bidder),
+    };
+  }
+
+  const key = `eligibility:${auctionId}:${bidder}:${token}`.toLowerCase();
+  const result = await timedRead("getBidEligibility", key, async (p, blockTag) => {
+    if (!(await hasMulticall(p))) {
+      const contract = auctionContract(p);
+      const [auction, balance, lockExpiry] = await Promise.all([
+        contract.auctions(auctionId, { blockTag }),
+        contract.poolBalance(bidder, token, { blockTag }) as Promise<bigint>,
+        contract.lockExpiry(bidder, { blockTag }) as Promise<bigint>,
+      ]);
+      return { auction: toAuction(auction), balance, lockExpiry };
+    }
+
+    const target = process.env.VERIFYING_CONTRACT || ethers.ZeroAddress;
+    const calls: [string, unknown[]][] = [
+      ["auctions", [auctionId]],
+      ["poolBalance", [bidder, token]],
+      ["lockExpiry", [bidder]],
+    ];
+    const multicall = new ethers.Contract(multicallAddress(), MULTICALL_ABI, p);
+    const results: { success: boolean; returnData: string }[] =
+      await multicall.aggregate3.staticCall(
+        calls.map(([fn, args]) => ({
+          target,
+          allowFailure: false,
+          callData: auctionInterface.encodeFunctionData(fn, args),
+        })),
+        { blockTag }
+      );
+
+    const [auction, balance, lockExpiry] = results.map((r, i) =>
+      auctionInterface.decodeFunctionResult(calls[i][0], r.returnData)
+    );
+    return {
+      auction: toAuction(auction),
+      balance: balance[0] as bigint,
+      lockExpiry: lockExpiry[0] as bigint,
+    };
+  });
+
+  if (result.auction.deadline === 0n) {
+    throw new AuctionNotFoundError(auctionId);
+  }
+  return result;
+}
+
+function multicallAddress(): string {
+  return process.env.MULTICALL_ADDRESS || DEFAULT_MULTICALL_ADDRESS;
+}
+
+// Per endpoint — a local anvil node has no Multicall3 unless forked
+const multicallDeployed: WeakMap<ethers.Provider, Promise<boolean>> = new WeakMap();
+
+function hasMulticall(provider: ethers.Provider): Promise<boolean> {
+  let deployed = multicallDeployed.get(provider);
+  if (!deployed) {
+    deployed = provider.getCode(multicallAddress()).then((code) => code !== "0x");
+    deployed.catch(() => multicallDeployed.delete(provider));
+    multicallDeployed.set(provider, deployed);
+  }
+  return deployed;
+}
+
+export interface BidHashOnChain {
+  bidHash: string;
+  revoked: boolean; // superseded or withdrawn via a later bid report
+}
+
+/**
+ * Every bidHash registered for an auction, in registration order,
+ * with its revocation status.
+ */
+export async function getBidHashesOnChain(
+  auctionId: string
+): Promise<BidHashOnChain[]> {
+  return timedCall("getBidHashesOnChain", async (p) => {
+    const contract = auctionContract(p);
+    const blockTag = await p.getBlockNumber();
+    const count = Number(await contract.getBidCount(auctionId, { blockTag }));
+
+    const hashes: string[] = await Promise.all(
+      Array.from({ length: count }, (_, i) =>
+        contract.bidHashes(auctionId, i, { blockTag })
+      )
+    );
+    const revoked: boolean[] = await Promise.all(
+      hashes.map((h) => contract.bidRevoked(auctionId, h, { blockTag }))
+    );
+
+    return hashes.map((bidHash, i) => ({ bidHash, revoked: revoked[i] }));
+  });
+}
+
+async function finalizedBlock(p: ethers.JsonRpcProvider): Promise<number> {
+  const block = await p.getBlock("finalized");
+  if (!block) {
+    throw new Error("No finalized block");
+  }
+  return block.number;
+}
+
+export interface BidderFunding {
+  balance: bigint;    // USDC pool balance
+  lockExpiry: bigint;
+}
+
+export interface FundingSnapshot {
+  blockNumber: number;
+  bidders: Map<string, BidderFunding>; // keyed by lowercased address
+}
+
+/**
+ * Pool balance and lock expiry for each bidder, all read at the same block
+ * so the settlement sees one consistent view. The block is `atBlock` if
+ * given, else the latest finalized one — never the head, which differs
+ * between callers that ask moments apart.
+ */
+export async function getFundingSnapshot(
+  bidders: string[],
+  token: string,
+  atBlock?: number
+): Promise<FundingSnapshot> {
+  const unique = [...new Set(bidders.map((b) => b.toLowerCase()))];
+
+  return timedCall("getFundingSnapshot", async (p) => {
+    const contract = auctionContract(p);
+    const blockNumber = atBlock ?? (await finalizedBlock(p));
+    const overrides = { blockTag: blockNumber };
+
+    const funding = await Promise.all(
+      unique.map(async (bidder): Promise<BidderFunding> => {
+        const [balance, lockExpiry] = await Promise.all([
+          contract.poolBalance(bidder, token, overrides) as Promise<bigint>,
+          contract.lockExpiry(bidder, overrides) as Promise<bigint>,
+        ]);
+        return { balance, lockExpiry };
+      })
+    );
+
+    return {
+      blockNumber,
+      bidders: new Map(unique.map((bidder, i) => [bidder, funding[i]])),
+    };
+  });
+}
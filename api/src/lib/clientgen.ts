@@ -0,0 +1,171 @@
+import type { OpenAPIObject, OperationObject, ParameterObject, ReferenceObject, SchemaObject } from "openapi3-ts/oas30";
+
+/**
+ * Renders the OpenAPI document as a dependency-free TypeScript module for
+ * the CRE workflows: one type per component schema and one request builder
+ * per operation. Builders return { url, method, bodyString } — the shape a
+ * CRE HTTP request takes — since workflows can't use fetch.
+ *
+ * Output follows the workflows' style (double quotes, no semicolons).
+ */
+
+type Schema = SchemaObject | ReferenceObject;
+
+const HEADER = `// Generated from the LienFi API's OpenAPI document by api/src/scripts/generateClient.ts.
+// Do not edit — run \`npm run gen:client\` in api/ after changing a route schema.
+`;
+
+function refName(ref: ReferenceObject): string {
+  return ref.$ref.split("/").pop()!;
+}
+
+function isRef(schema: Schema): schema is ReferenceObject {
+  return "$ref" in schema;
+}
+
+function renderType(schema: Schema, indent: string): string {
+  if (isRef(schema)) return refName(schema);
+
+  let type: string;
+  if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf)!.map((s) => renderType(s, indent)).join(" | ");
+  } else if (schema.allOf) {
+    type = schema.allOf.map((s) => renderType(s, indent)).join(" & ");
+  } else if (schema.enum) {
+    type = schema.enum.map((v) => JSON.stringify(v)).join(" | ");
+  } else {
+    switch (schema.type) {
+      case "string":
+        type = "string";
+        break;
+      case "number":
+      case "integer":
+        type = "number";
+        break;
+      case "boolean":
+        type = "boolean";
+        break;
+      case "array": {
+        const item = renderType(schema.items!, indent);
+        type = /[|&]/.test(item) ? `Array<${item}>` : `${item}[]`;
+        break;
+      }
+      case "object":
+        type = renderObject(schema, indent);
+        break;
+      default:
+        type = "unknown";
+    }
+  }
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function renderObject(schema: SchemaObject, indent: string): string {
+  const inner = indent + "  ";
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(
+    ([name, prop]) =>
+      `${inner}${name}${required.has(name) ? "" : "?"}: ${renderType(prop, inner)}`
+  );
+  if (schema.additionalProperties) {
+    lines.push(`${inner}[key: string]: unknown`);
+  }
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function renderComponent(name: string, schema: Schema): string {
+  if (!isRef(schema) && schema.type === "object" && !schema.nullable) {
+    return `export interface ${name} ${renderObject(schema, "")}`;
+  }
+  return `export type ${name} = ${renderType(schema, "")}`;
+}
+
+function renderOperation(path: string, method: string, op: OperationObject): string {
+  const params = (op.parameters ?? []) as ParameterObject[];
+  const pathParams = params.filter((p) => p.in === "path");
+  const queryParams = params.filter((p) => p.in === "query");
+  const bodySchema = (op.requestBody as { content?: Record<string, { schema: Schema }> } | undefined)
+    ?.content?.["application/json"]?.schema;
+  const success = Object.entries(op.responses).find(([status]) => status.startsWith("2"));
+  const responseSchema = (success?.[1] as { content?: Record<string, { schema: Schema }> })
+    ?.content?.["application/json"]?.schema;
+
+  const args = ["baseUrl: string"];
+  if (pathParams.length > 0) {
+    const fields = pathParams.map((p) => `${p.name}: string`).join("; ");
+    args.push(`params: { ${fields} }`);
+  }
+  if (queryParams.length > 0) {
+    const fields = queryParams
+      .map((p) => `${p.name}${p.required ? "" : "?"}: ${renderType(p.schema!, "")}`)
+      .join("; ");
+    args.push(`query: { ${fields} } = {}`);
+  }
+  if (bodySchema) {
+    args.push(`body: ${renderType(bodySchema, "")}`);
+  }
+
+  const urlPath = path.replace(/\{(\w+)\}/g, (_, name) => `\${params.${name}}`);
+  const url = queryParams.length > 0 ? `\`\${baseUrl}${urlPath}\${queryString(query)}\`` : `\`\${baseUrl}${urlPath}\``;
+  const returns = responseSchema ? renderType(responseSchema, "") : "unknown";
+
+  const fields = [`  url: ${url},`, `  method: "${method.toUpperCase()}",`];
+  if (bodySchema) fields.push(`  bodyString: JSON.stringify(body),`);
+
+  return [
+    `/** ${op.summary} — ${method.toUpperCase()} ${path} → ${returns} */`,
+    `export const ${op.operationId} = (${args.join(", ")}): ApiRequest => ({`,
+    ...fields,
+    `})`,
+  ].join("\n");
+}
+
+export function renderClient(doc: OpenAPIObject): string {
+  const components = Object.entries(doc.components?.schemas ?? {}).map(([name, schema]) =>
+    renderComponent(name, schema)
+  );
+
+  const operations: string[] = [];
+  for (const [path, item] of Object.entries(doc.paths)) {
+    for (const method of ["get", "post", "put", "delete"] as const) {
+      const op = item[method] as OperationObject | undefined;
+      if (op) operations.push(renderOperation(path, method, op));
+    }
+  }
+
+  return [
+    HEADER,
+    "// ─── Types ───────────────────────────────────────────────────────────────────\n",
+    components.join("\n\n"),
+    "",
+    "// ─── Requests ────────────────────────────────────────────────────────────────\n",
+    `export interface ApiRequest {
+  url: string
+  method: "GET" | "POST" | "PUT" | "DELETE"
+  bodyString?: string
+}
+
+const queryString = (query: Record<string, string | number | undefined>): string => {
+  const pairs = Object.entries(query)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => \`\${encodeURIComponent(k)}=\${encodeURIComponent(String(v))}\`)
+  return pairs.length > 0 ? \`?\${pairs.join("&")}\` : ""
+}
+`,
+    operations.join("\n\n"),
+    "",
+  ].join("\n");
+}
+
+const AMORTIZATION_HEADER = `// Generated from api/src/lib/amortization.ts by api/src/scripts/generateClient.ts.
+// Do not edit — change the API's copy and run \`npm run gen:client\` in api/.
+
+`;
+
+/**
+ * The shared amortization library in the workflows' style: the API source
+ * with statement-ending semicolons dropped (it has no imports to rewrite).
+ */
+export function renderAmortization(source: string): string {
+  return AMORTIZATION_HEADER + source.replace(/;([ \t]*(?:\/\/.*)?)$/gm, "$1");
+}
@@ -0,0 +1,124 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { COMMITMENT_ENCODING, CommitmentConfigError, computeMetadataHash, deriveSalt, newSaltSeed } from "./commitment";
+import type { ApiErrorResponse, RevealResponse, VerifyPropertyResponse } from "./schemas";
+import { tempDir, testKey, useTestApp } from "./testing";
+
+// Per-property salted commitments and the preimage reveal route.
+
+const OWNER = ethers.Wallet.createRandom();
+const STRANGER = ethers.Wallet.createRandom();
+const KEY = testKey("reveal", ["verify", "reveal"]);
+const PEPPER = crypto.randomBytes(32).toString("hex");
+
+const REGISTRY_FILE = path.join(tempDir(), "registry.json");
+fs.writeFileSync(
+  REGISTRY_FILE,
+  JSON.stringify({
+    properties: [
+      {
+        propertyId: "PROP-001",
+        address: "123 Main St, Austin TX",
+        titleDeedNumber: "TX-2024-00123",
+        appraisedValueUsd: 1_000_000,
+        ownerAddress: OWNER.address,
+        titleClear: true,
+      },
+    ],
+  })
+);
+
+let tokenId: number;
+let metadataHash: string;
+
+const app = useTestApp({
+  keys: [KEY],
+  env: { PROPERTY_REGISTRY_FILE: REGISTRY_FILE, COMMITMENT_PEPPER: PEPPER },
+  setup: async () => {
+    const verified = await app.request<VerifyPropertyResponse>(KEY, "POST", "/verify-property", {
+      propertyId: "PROP-001",
+      sellerAddress: OWNER.address,
+    });
+    assert.equal(verified.body.valid, true);
+    ({ tokenId, metadataHash } = verified.body);
+  },
+});
+
+async function reveal(
+  requester: string,
+  { signer = OWNER, expiry = Math.floor(Date.now() / 1000) + 600 }: { signer?: ethers.BaseWallet; expiry?: number } = {}
+) {
+  const signature = await signer.signTypedData(
+    { name: "LienFi", version: "1", chainId: 11155111, verifyingContract: ethers.ZeroAddress },
+    {
+      RevealRequest: [
+        { name: "tokenId", type: "uint256" },
+        { name: "requester", type: "address" },
+        { name: "expiry", type: "uint256" },
+      ],
+    },
+    { tokenId, requester, expiry }
+  );
+  return app.request<RevealResponse & ApiErrorResponse>(KEY, "POST", `/verify-property/${tokenId}/reveal`, {
+    requester,
+    expiry,
+    signature,
+  });
+}
+
+test("salts differ per seed and depend on the pepper", () => {
+  const seed = newSaltSeed();
+  assert.notEqual(deriveSalt(seed), deriveSalt(newSaltSeed()));
+  assert.equal(deriveSalt(seed), deriveSalt(seed));
+
+  process.env.COMMITMENT_PEPPER = "short";
+  try {
+    assert.throws(() => deriveSalt(seed), CommitmentConfigError);
+  } finally {
+    process.env.COMMITMENT_PEPPER = PEPPER;
+  }
+});
+
+test("the owner gets a preimage that hashes to the minted metadataHash", async () => {
+  const res = await reveal(OWNER.address);
+  assert.equal(res.status, 200);
+  assert.equal(res.body.tokenId, tokenId);
+  assert.equal(res.body.metadataHash, metadataHash);
+  assert.deepEqual(res.body.encoding, [...COMMITMENT_ENCODING]);
+  assert.equal(res.body.preimage.titleDeedNumber, "TX-2024-00123");
+  assert.equal(computeMetadataHash(res.body.preimage), metadataHash);
+});
+
+test("anyone else is refused, even with a valid signature of their own", async () => {
+  const res = await reveal(STRANGER.address, { signer: STRANGER });
+  assert.equal(res.status, 403);
+  assert.equal(res.body.code, "FORBIDDEN");
+
+  const forged = await reveal(OWNER.address, { signer: STRANGER });
+  assert.equal(forged.status, 403);
+  assert.equal(forged.body.code, "INVALID_SIGNATURE");
+});
+
+test("an expired or far-future request is rejected", async () => {
+  const now = Math.floor(Date.now() / 1000);
+  for (const expiry of [now - 1, now + 2 * 24 * 60 * 60]) {
+    const res = await reveal(OWNER.address, { expiry });
+    assert.equal(res.status, 400);
+    assert.equal(res.body.field, "expiry");
+  }
+});
+
+test("without a pepper nothing is committed or revealed", async () => {
+  delete process.env.COMMITMENT_PEPPER;
+  try {
+    const res = await reveal(OWNER.address);
+    assert.equal(res.status, 500);
+    assert.equal(res.body.code, "SERVER_MISCONFIGURED");
+  } finally {
+    process.env.COMMITMENT_PEPPER = PEPPER;
+  }
+});
@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+
+/**
+ * Property commitments — the metadataHash minted into PropertyNFT.
+ *
+ *   salt         = HMAC-SHA256(COMMITMENT_PEPPER, seed)
+ *   metadataHash = keccak256(abi.encode(
+ *                    string address, uint256 appraisedValueUsd,
+ *                    string titleDeedNumber, bytes32 salt))
+ *
+ * `seed` is 32 random bytes per property, stored with it. The pepper lives
+ * only in the API's environment, so neither the source nor a copy of the
+ * store is enough to brute-force an address from an on-chain hash.
+ * Revealing one property's preimage (POST /verify-property/:tokenId/reveal)
+ * gives away its salt, never the pepper or another property's salt.
+ *
+ * Env:
+ *   COMMITMENT_PEPPER = at least 32 characters (openssl rand -hex 32).
+ *                       Never rotate it while tokenized properties may
+ *                       still need a reveal — their salts derive from it.
+ */
+
+export const COMMITMENT_ENCODING = ["string", "uint256", "string", "bytes32"] as const;
+
+/** What a commitment hashes, in COMMITMENT_ENCODING order. */
+export interface PropertyPreimage {
+  address: string;
+  appraisedValueUsd: string; // uint256 decimal string
+  titleDeedNumber: string;
+  salt: string;              // bytes32
+}
+
+/** COMMITMENT_PEPPER is unset or too short to be a secret. */
+export class CommitmentConfigError extends Error {
+  constructor() {
+    super("COMMITMENT_PEPPER must be set to at least 32 characters");
+    this.name = "CommitmentConfigError";
+  }
+}
+
+function pepper(): string {
+  const value = process.env.COMMITMENT_PEPPER;
+  if (!value || value.length < 32) throw new CommitmentConfigError();
+  return value;
+}
+
+/** A fresh per-property seed (bytes32 hex). */
+export function newSaltSeed(): string {
+  return ethers.hexlify(crypto.randomBytes(32));
+}
+
+/** The commitment salt for a seed. Throws CommitmentConfigError without a pepper. */
+export function deriveSalt(seed: string): string {
+  return ethers.hexlify(crypto.createHmac("sha256", pepper()).update(ethers.getBytes(seed)).digest());
+}
+
+export function computeMetadataHash(preimage: PropertyPreimage): string {
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(COMMITMENT_ENCODING, [
+      preimage.address,
+      preimage.appraisedValueUsd,
+      preimage.titleDeedNumber,
+      preimage.salt,
+    ])
+  );
+}
@@ -8,6 +8,11 @@ import { ethers } from "ethers";
  *   version: "1"
  *   chainId: 11155111 (Sepolia)
  *   verifyingContract: <LienFiAuction address>
+ *
+ * Types:
+ *   Bid           — submit a bid, or revise it by re-signing with a higher nonce
+ *   BidWithdrawal — withdraw the live bid before the deadline
+ *   RevealRequest — ask for a property's commitment preimage
  */
 
 const BID_TYPES = {
@@ -19,6 +24,32 @@ const BID_TYPES = {
   ],
 };
 
+/**
+ * Signed by a bidder to pull their live bid before the deadline.
+ * `nonce` must be higher than any nonce the bidder has used in this auction,
+ * so an old withdrawal can't be replayed against a later bid.
+ */
+const WITHDRAWAL_TYPES = {
+  BidWithdrawal: [
+    { name: "auctionId", type: "bytes32" },
+    { name: "bidder", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+/**
+ * Signed by the property's owner or an auction winner to receive its
+ * commitment preimage. `expiry` (unix seconds) bounds how long a captured
+ * request stays usable.
+ */
+const REVEAL_TYPES = {
+  RevealRequest: [
+    { name: "tokenId", type: "uint256" },
+    { name: "requester", type: "address" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
 function getDomain(): ethers.TypedDataDomain {
   return {
     name: "LienFi",
@@ -62,9 +93,56 @@ export function verifyBidSignature(
   return recoveredAddress;
 }
 
+export interface WithdrawalMessage {
+  auctionId: string;
+  bidder: string;
+  nonce: number;
+}
+
+/**
+ * Verify an EIP-712 BidWithdrawal signature and return the recovered signer.
+ * Throws if signature is invalid.
+ */
+export function verifyWithdrawalSignature(
+  message: WithdrawalMessage,
+  signature: string
+): string {
+  const value = {
+    auctionId: message.auctionId,
+    bidder: message.bidder,
+    nonce: message.nonce,
+  };
+
+  return ethers.verifyTypedData(getDomain(), WITHDRAWAL_TYPES, value, signature);
+}
+
+export interface RevealMessage {
+  tokenId: number;
+  requester: string;
+  expiry: number;
+}
+
+/**
+ * Verify an EIP-712 RevealRequest signature and return the recovered signer.
+ * Throws if signature is invalid.
+ */
+export function verifyRevealSignature(
+  message: RevealMessage,
+  signature: string
+): string {
+  const value = {
+    tokenId: message.tokenId,
+    requester: message.requester,
+    expiry: message.expiry,
+  };
+
+  return ethers.verifyTypedData(getDomain(), REVEAL_TYPES, value, signature);
+}
+
 /**
  * Compute a bid hash from the bid parameters.
  * This hash is what gets stored on-chain via registerBid().
+ * A revised bid has a new nonce and therefore a new hash.
  */
 export function computeBidHash(message: BidMessage): string {
   return ethers.keccak256(
@@ -0,0 +1,85 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "crypto";
+import { activeKeyId, open, resetKeyring, rewrap, seal, type Envelope } from "./envelope";
+
+// Sealing, context binding and KEK rotation, with keys swapped in through env.
+
+const OLD = `old:${crypto.randomBytes(32).toString("hex")}`;
+const NEW = `new:${crypto.randomBytes(32).toString("hex")}`;
+const BID_HASH = "0x" + "ab".repeat(32);
+const FIELDS = { amount: "1500000000", signature: "0x" + "22".repeat(65) };
+
+function useKeys(keks: string, active?: string): void {
+  process.env.STORE_KEKS = keks;
+  if (active) process.env.STORE_KEK_ACTIVE = active;
+  else delete process.env.STORE_KEK_ACTIVE;
+  resetKeyring();
+}
+
+/** Flip one byte of a base64 field past the IV and tag. */
+function tamper(field: string): string {
+  const buf = Buffer.from(field, "base64");
+  buf[buf.length - 1] ^= 0xff;
+  return buf.toString("base64");
+}
+
+beforeEach(() => useKeys(OLD));
+
+test("a sealed value opens under the same context and hides the plaintext", () => {
+  const envelope = seal(FIELDS, BID_HASH);
+  assert.equal(envelope.keyId, "old");
+  assert.deepEqual(open(envelope, BID_HASH), FIELDS);
+
+  const stored = JSON.stringify(envelope);
+  assert.ok(!stored.includes(FIELDS.amount) && !stored.includes(FIELDS.signature.slice(2)));
+
+  const again = seal(FIELDS, BID_HASH);
+  assert.notEqual(again.data, envelope.data, "each envelope gets its own data key and IV");
+  assert.notEqual(again.wrappedKey, envelope.wrappedKey);
+});
+
+test("an envelope can't be opened under another record's context or after tampering", () => {
+  const envelope = seal(FIELDS, BID_HASH);
+  const other = seal({ amount: "1", signature: FIELDS.signature }, "0x" + "cd".repeat(32));
+
+  const refused: [string, Envelope, string][] = [
+    ["another bidHash", envelope, "0x" + "cd".repeat(32)],
+    ["payload moved onto another record's data key", { ...other, data: envelope.data }, BID_HASH],
+    ["payload ciphertext changed", { ...envelope, data: tamper(envelope.data) }, BID_HASH],
+    ["wrapped key changed", { ...envelope, wrappedKey: tamper(envelope.wrappedKey) }, BID_HASH],
+    ["wrapped key relabelled to another KEK id", { ...envelope, keyId: "new" }, BID_HASH],
+  ];
+
+  useKeys(`${OLD},${NEW}`, "old");
+  for (const [name, candidate, context] of refused) {
+    assert.throws(() => open(candidate, context), Error, name);
+  }
+});
+
+test("rewrap moves the data key under the active KEK and leaves the payload alone", () => {
+  const envelope = seal(FIELDS, BID_HASH);
+
+  // Rotation: the new key becomes active with the old one still listed
+  useKeys(`${OLD},${NEW}`, "new");
+  assert.equal(activeKeyId(), "new");
+  const rewrapped = rewrap(envelope);
+  assert.equal(rewrapped.keyId, "new");
+  assert.equal(rewrapped.data, envelope.data);
+  assert.notEqual(rewrapped.wrappedKey, envelope.wrappedKey);
+  assert.equal(rewrap(rewrapped), rewrapped, "already under the active key");
+
+  // ...then the old key is retired
+  useKeys(NEW);
+  assert.deepEqual(open(rewrapped, BID_HASH), FIELDS);
+  assert.throws(() => open(envelope, BID_HASH), /Unknown key-encryption key: old/);
+});
+
+test("a malformed keyring is refused", () => {
+  useKeys("");
+  assert.throws(() => seal(FIELDS, BID_HASH), /STORE_KEKS not set/);
+  useKeys("short:abcd");
+  assert.throws(() => seal(FIELDS, BID_HASH), /Malformed STORE_KEKS entry: short/);
+  useKeys(OLD, "missing");
+  assert.throws(() => seal(FIELDS, BID_HASH), /STORE_KEK_ACTIVE missing not present/);
+});
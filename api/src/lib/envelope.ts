@@ -0,0 +1,153 @@
+import crypto from "crypto";
+
+/**
+ * Envelope encryption for sensitive store fields (bid amounts, signatures,
+ * Plaid tokens).
+ *
+ * Each record gets a fresh 256-bit data key (DEK). The payload is sealed with
+ * AES-256-GCM under the DEK, and the DEK itself is wrapped with AES-256-GCM
+ * under a key-encryption key (KEK) loaded from env. Only the wrapped DEK and
+ * the KEK's id are stored, so rotating the KEK re-wraps DEKs without touching
+ * payload ciphertext.
+ *
+ * Env:
+ *   STORE_KEKS       = "<id>:<64 hex chars>[,<id>:<64 hex chars>...]"
+ *   STORE_KEK_ACTIVE = id used for new envelopes (default: first in list)
+ */
+
+export interface Envelope {
+  keyId: string;      // KEK id that wrapped the data key
+  wrappedKey: string; // base64(iv | tag | encrypted DEK)
+  data: string;       // base64(iv | tag | encrypted payload)
+}
+
+interface Keyring {
+  activeId: string;
+  keys: Map<string, Buffer>;
+}
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+let keyring: Keyring | null = null;
+
+function loadKeyring(): Keyring {
+  if (keyring) return keyring;
+
+  const raw = process.env.STORE_KEKS;
+  if (!raw) {
+    throw new Error("STORE_KEKS not set in environment");
+  }
+
+  const keys: Map<string, Buffer> = new Map();
+  for (const entry of raw.split(",")) {
+    const [id, hex] = entry.trim().split(":");
+    if (!id || !hex || !/^[0-9a-fA-F]{64}$/.test(hex)) {
+      throw new Error(`Malformed STORE_KEKS entry: ${id || "<empty>"}`);
+    }
+    keys.set(id, Buffer.from(hex, "hex"));
+  }
+
+  const activeId = process.env.STORE_KEK_ACTIVE || [...keys.keys()][0];
+  if (!keys.has(activeId)) {
+    throw new Error(`STORE_KEK_ACTIVE ${activeId} not present in STORE_KEKS`);
+  }
+
+  keyring = { activeId, keys };
+  return keyring;
+}
+
+/** Forget the loaded keys so the next seal/open re-reads env (tests). */
+export function resetKeyring(): void {
+  keyring = null;
+}
+
+function getKek(keyId: string): Buffer {
+  const kek = loadKeyring().keys.get(keyId);
+  if (!kek) {
+    throw new Error(`Unknown key-encryption key: ${keyId}`);
+  }
+  return kek;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function decrypt(key: Buffer, sealed: string, aad: string): Buffer {
+  const buf = Buffer.from(sealed, "base64");
+  const iv = buf.subarray(0, IV_BYTES);
+  const tag = buf.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const ciphertext = buf.subarray(IV_BYTES + TAG_BYTES);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function unwrapKey(envelope: Envelope): Buffer {
+  return decrypt(getKek(envelope.keyId), envelope.wrappedKey, envelope.keyId);
+}
+
+/**
+ * Id of the KEK new envelopes are wrapped with.
+ */
+export function activeKeyId(): string {
+  return loadKeyring().activeId;
+}
+
+/**
+ * Seal a JSON-serializable value. `context` (e.g. the bidHash) is bound as
+ * additional authenticated data so an envelope can't be moved to another record.
+ */
+export function seal(value: unknown, context: string): Envelope {
+  const keyId = activeKeyId();
+  const dek = crypto.randomBytes(KEY_BYTES);
+  try {
+    return {
+      keyId,
+      wrappedKey: encrypt(getKek(keyId), dek, keyId),
+      data: encrypt(dek, Buffer.from(JSON.stringify(value)), context),
+    };
+  } finally {
+    dek.fill(0);
+  }
+}
+
+/**
+ * Open an envelope sealed with the same `context`. Throws if the KEK is
+ * unknown or either layer fails authentication.
+ */
+export function open<T>(envelope: Envelope, context: string): T {
+  const dek = unwrapKey(envelope);
+  try {
+    return JSON.parse(decrypt(dek, envelope.data, context).toString()) as T;
+  } finally {
+    dek.fill(0);
+  }
+}
+
+/**
+ * Re-wrap an envelope's data key under the active KEK.
+ * The payload ciphertext is left untouched.
+ */
+export function rewrap(envelope: Envelope): Envelope {
+  const keyId = activeKeyId();
+  if (envelope.keyId === keyId) return envelope;
+
+  const dek = unwrapKey(envelope);
+  try {
+    return {
+      keyId,
+      wrappedKey: encrypt(getKek(keyId), dek, keyId),
+      data: envelope.data,
+    };
+  } finally {
+    dek.fill(0);
+  }
+}
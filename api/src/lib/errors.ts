@@ -0,0 +1,57 @@
+import type { Response } from "express";
+import { log } from "./logger";
+
+/**
+ * Machine-readable error codes. Every non-2xx response carries one, so the
+ * CRE workflows can branch on `code` instead of matching message text.
+ */
+export const ERROR_CODES = [
+  // Request shape
+  "MISSING_FIELD",         // required field absent
+  "INVALID_FIELD",         // present but malformed — see `field`
+  // Auth
+  "UNAUTHORIZED",          // missing, unknown or inactive API key, bad request signature or replay
+  "FORBIDDEN",             // API key lacks the route's scope
+  "INVALID_SIGNATURE",     // EIP-712 signature doesn't recover to the claimed signer
+  // Lookup
+  "NOT_FOUND",
+  "CONFLICT",              // duplicate or state already fixed
+  // Bidding
+  "AUCTION_SETTLED",
+  "AUCTION_EXPIRED",
+  "BELOW_RESERVE",
+  "INSUFFICIENT_BALANCE",
+  "LOCK_TOO_SHORT",
+  "STALE_NONCE",
+  "NO_LIVE_BID",
+  // Settlement
+  "NO_ELIGIBLE_BIDS",
+  // Throttling
+  "RATE_LIMITED",          // 429 — see `limit` and `retryAfter` (seconds, also the Retry-After header)
+  // Server side
+  "UPSTREAM_UNAVAILABLE",  // chain RPC or property registry failed
+  "SERVER_MISCONFIGURED",
+  "INTERNAL",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/**
+ * Send an error response. `extra` carries route-specific context
+ * (e.g. the reconciliation report) alongside the standard fields.
+ */
+export function sendError(
+  res: Response,
+  status: number,
+  code: ErrorCode,
+  message: string,
+  extra: { field?: string } & Record<string, unknown> = {}
+): void {
+  res.status(status).json({ code, message, ...extra });
+}
+
+/** 500 for an unexpected exception — logged, never echoed to the caller. */
+export function sendInternalError(res: Response, tag: string, err: unknown): void {
+  log.error(tag, "Unexpected error", { err });
+  sendError(res, 500, "INTERNAL", "Internal server error");
+}
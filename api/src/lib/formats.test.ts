@@ -0,0 +1,318 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "crypto";
+import { ethers } from "ethers";
+import type { AuctionFormat, OpenBid, StoredBid } from "./store";
+import { seal } from "./envelope";
+import { settleAuction, SettlementError, type SettlementEngine } from "./formats";
+import { rankBids } from "./formats/types";
+import { vickrey } from "./formats/vickrey";
+import { firstPrice } from "./formats/firstPrice";
+import { english } from "./formats/english";
+import { uniformPrice } from "./formats/uniformPrice";
+
+// Each engine's pricing rule, the ranking order they share, and the reserve
+// and funding filters settleAuction() applies before any engine runs.
+
+process.env.STORE_KEKS = `test:${crypto.randomBytes(32).toString("hex")}`;
+process.env.STORE_KEK_ACTIVE = "test";
+
+const AUCTION_ID = "0x" + "ab".repeat(32);
+const SIGNER_KEY = ethers.Wallet.createRandom().privateKey;
+
+const address = (n: number) => "0x" + n.toString(16).padStart(2, "0").repeat(20);
+const hash = (n: number) => "0x" + n.toString(16).padStart(2, "0").repeat(32);
+
+/** Bid `n` from bidder `n`; ranking tests override the timestamp and hash. */
+function bid(n: number, amount: bigint, overrides: Partial<OpenBid> = {}): OpenBid {
+  return {
+    auctionId: AUCTION_ID,
+    bidder: address(n),
+    nonce: 1,
+    bidHash: hash(n),
+    timestamp: 1_000 + n,
+    amount: amount.toString(),
+    signature: "0x" + "22".repeat(65),
+    ...overrides,
+  };
+}
+
+function stored({ amount, signature, ...fields }: OpenBid): StoredBid {
+  return { ...fields, sealed: seal({ amount, signature }, fields.bidHash), status: "live" };
+}
+
+/** Every bidder holds `balance` and stays locked past any deadline. */
+function funding(bids: OpenBid[], balance = 10n ** 18n) {
+  return {
+    blockNumber: 42,
+    bidders: new Map(bids.map((b) => [b.bidder.toLowerCase(), { balance, lockExpiry: 2n ** 64n }])),
+  };
+}
+
+test("rankBids orders by amount, then earlier timestamp, then lower bidHash", () => {
+  const cases: { name: string; bids: OpenBid[]; order: number[] }[] = [
+    {
+      name: "higher amount first, compared as bigints",
+      bids: [bid(1, 9n), bid(2, 10n ** 30n), bid(3, 100n)],
+      order: [2, 3, 1],
+    },
+    {
+      name: "equal amounts: earlier timestamp first",
+      bids: [bid(1, 100n, { timestamp: 30 }), bid(2, 100n, { timestamp: 10 }), bid(3, 100n, { timestamp: 20 })],
+      order: [2, 3, 1],
+    },
+    {
+      name: "equal timestamps: lower bidHash first, ignoring case",
+      bids: [
+        bid(1, 100n, { timestamp: 5, bidHash: "0x" + "BB".repeat(32) }),
+        bid(2, 100n, { timestamp: 5, bidHash: "0x" + "aa".repeat(32) }),
+        bid(3, 100n, { timestamp: 5, bidHash: "0x" + "Ab".repeat(32) }),
+      ],
+      order: [2, 3, 1],
+    },
+  ];
+
+  for (const { name, bids, order } of cases) {
+    const expected = order.map((n) => address(n));
+    assert.deepEqual(rankBids(bids).map((b) => b.bidder), expected, name);
+    assert.deepEqual(rankBids([...bids].reverse()).map((b) => b.bidder), expected, `${name} (reversed input)`);
+  }
+});
+
+test("each engine picks the winner and price its rule defines", () => {
+  const cases: {
+    name: string;
+    engine: SettlementEngine;
+    format: AuctionFormat;
+    bids: OpenBid[];
+    reserve: bigint;
+    winner: number;
+    price: bigint;
+    priceBid: number | null;
+    units?: number[];
+  }[] = [
+    {
+      name: "vickrey pays the runner-up's bid",
+      engine: vickrey as SettlementEngine,
+      format: { kind: "vickrey" },
+      bids: [bid(1, 80n), bid(2, 100n), bid(3, 60n)],
+      reserve: 50n,
+      winner: 2,
+      price: 80n,
+      priceBid: 1,
+    },
+    {
+      name: "vickrey with one bid pays the reserve",
+      engine: vickrey as SettlementEngine,
+      format: { kind: "vickrey" },
+      bids: [bid(1, 80n)],
+      reserve: 50n,
+      winner: 1,
+      price: 50n,
+      priceBid: null,
+    },
+    {
+      name: "vickrey tie goes to the earlier bid at the tied amount",
+      engine: vickrey as SettlementEngine,
+      format: { kind: "vickrey" },
+      bids: [bid(1, 100n, { timestamp: 20 }), bid(2, 100n, { timestamp: 10 })],
+      reserve: 50n,
+      winner: 2,
+      price: 100n,
+      priceBid: 1,
+    },
+    {
+      name: "first-price pays the winner's own bid",
+      engine: firstPrice as SettlementEngine,
+      format: { kind: "first-price" },
+      bids: [bid(1, 80n), bid(2, 100n)],
+      reserve: 50n,
+      winner: 2,
+      price: 100n,
+      priceBid: 2,
+    },
+    {
+      name: "english pays the runner-up plus one increment",
+      engine: english as SettlementEngine,
+      format: { kind: "english", incrementBps: 500 },
+      bids: [bid(1, 80n), bid(2, 100n)],
+      reserve: 50n,
+      winner: 2,
+      price: 84n,
+      priceBid: 1,
+    },
+    {
+      name: "english never charges more than the winner bid",
+      engine: english as SettlementEngine,
+      format: { kind: "english", incrementBps: 500 },
+      bids: [bid(1, 98n), bid(2, 100n)],
+      reserve: 50n,
+      winner: 2,
+      price: 100n,
+      priceBid: 1,
+    },
+    {
+      name: "english never charges less than the reserve",
+      engine: english as SettlementEngine,
+      format: { kind: "english", incrementBps: 500 },
+      bids: [bid(1, 40n), bid(2, 100n)],
+      reserve: 90n,
+      winner: 2,
+      price: 90n,
+      priceBid: 1,
+    },
+    {
+      name: "english increment rounds down",
+      engine: english as SettlementEngine,
+      format: { kind: "english", incrementBps: 150 },
+      bids: [bid(1, 199n), bid(2, 1_000n)],
+      reserve: 0n,
+      winner: 2,
+      price: 201n, // 199 + floor(2.985)
+      priceBid: 1,
+    },
+    {
+      name: "english with one bid opens and closes at the reserve",
+      engine: english as SettlementEngine,
+      format: { kind: "english", incrementBps: 500 },
+      bids: [bid(1, 100n)],
+      reserve: 50n,
+      winner: 1,
+      price: 50n,
+      priceBid: null,
+    },
+    {
+      name: "uniform-price clears every unit at the highest losing bid",
+      engine: uniformPrice as SettlementEngine,
+      format: { kind: "uniform-price", units: 2 },
+      bids: [bid(1, 70n), bid(2, 100n), bid(3, 90n), bid(4, 60n)],
+      reserve: 50n,
+      winner: 2,
+      price: 70n,
+      priceBid: 1,
+      units: [2, 3],
+    },
+    {
+      name: "uniform-price clears at the reserve when every bid wins",
+      engine: uniformPrice as SettlementEngine,
+      format: { kind: "uniform-price", units: 3 },
+      bids: [bid(1, 70n), bid(2, 100n)],
+      reserve: 50n,
+      winner: 2,
+      price: 50n,
+      priceBid: null,
+      units: [2, 1],
+    },
+    {
+      name: "uniform-price breaks a tie at the cut-off by timestamp",
+      engine: uniformPrice as SettlementEngine,
+      format: { kind: "uniform-price", units: 2 },
+      bids: [bid(1, 100n), bid(2, 90n, { timestamp: 20 }), bid(3, 90n, { timestamp: 10 })],
+      reserve: 50n,
+      winner: 1,
+      price: 90n,
+      priceBid: 2,
+      units: [1, 3],
+    },
+  ];
+
+  for (const c of cases) {
+    const outcome = c.engine.settle(c.bids, c.reserve, c.format);
+    assert.equal(outcome.winner, address(c.winner), c.name);
+    assert.equal(outcome.price, c.price, c.name);
+    assert.equal(outcome.priceBidHash, c.priceBid === null ? null : hash(c.priceBid), c.name);
+    assert.deepEqual(
+      outcome.allocations,
+      (c.units ?? [c.winner]).map((n) => ({ bidder: address(n), units: 1, price: c.price.toString() })),
+      c.name
+    );
+  }
+});
+
+test("bids below the reserve are left out of pricing but still committed and ranked", () => {
+  const bids = [bid(1, 100n), bid(2, 40n), bid(3, 70n)];
+  const { result, report } = settleAuction(
+    { kind: "vickrey" },
+    bids.map(stored),
+    50n,
+    1_900_000_000n,
+    funding(bids),
+    SIGNER_KEY
+  );
+
+  assert.equal(result.winner, address(1));
+  assert.equal(result.price, "70");
+  assert.equal(result.proof.priceBidHash, hash(3));
+  assert.deepEqual(result.proof.bidHashes, [hash(1), hash(2), hash(3)]);
+  assert.equal(result.fundingBlock, 42);
+  assert.deepEqual(
+    report.bids.map((b) => [b.bidder, b.outcome]),
+    [
+      [address(1), "won"],
+      [address(3), "lost"],
+      [address(2), "below-reserve"],
+    ]
+  );
+
+  // Only the reserve stands between the lone qualified bid and the price
+  const alone = settleAuction({ kind: "vickrey" }, [bids[0], bids[1]].map(stored), 50n, 0n, funding(bids), SIGNER_KEY);
+  assert.equal(alone.result.price, "50");
+  assert.equal(alone.result.proof.priceBidHash, ethers.ZeroHash);
+});
+
+test("an auction with no bid at or above the reserve doesn't settle", () => {
+  const bids = [bid(1, 40n), bid(2, 49n)];
+  assert.throws(
+    () => settleAuction({ kind: "first-price" }, bids.map(stored), 50n, 0n, funding(bids), SIGNER_KEY),
+    (err: unknown) => err instanceof SettlementError && err.message === "No bids at or above reserve price"
+  );
+  assert.throws(
+    () => settleAuction({ kind: "first-price" }, [], 50n, 0n, funding([]), SIGNER_KEY),
+    SettlementError
+  );
+});
+
+test("bids their bidder's funding no longer covers are disqualified before pricing", () => {
+  const deadline = 1_900_000_000n;
+  const bids = [bid(1, 100n), bid(2, 90n), bid(3, 80n), bid(4, 70n), bid(5, 60n)];
+  const snapshot = funding([bids[3], bids[4]]);
+  snapshot.bidders.set(address(1), { balance: 99n, lockExpiry: deadline });     // balance below the bid
+  snapshot.bidders.set(address(2), { balance: 90n, lockExpiry: deadline - 1n }); // unlocks before the deadline
+  // bidder 3 has no pool entry at all
+
+  const { result, report } = settleAuction({ kind: "vickrey" }, bids.map(stored), 50n, deadline, snapshot, SIGNER_KEY);
+  assert.equal(result.winner, address(4));
+  assert.equal(result.price, "60");
+  assert.equal(result.proof.bidHashes.length, 5);
+  assert.deepEqual(result.disqualified, [
+    { bidder: address(1), bidHash: hash(1), reason: "insufficient-balance" },
+    { bidder: address(2), bidHash: hash(2), reason: "lock-expired" },
+    { bidder: address(3), bidHash: hash(3), reason: "insufficient-balance" },
+  ]);
+  assert.deepEqual(
+    report.bids.map((b) => [b.bidder, b.outcome, b.reason]),
+    [
+      [address(4), "won", undefined],
+      [address(5), "lost", undefined],
+      [address(1), "disqualified", "insufficient-balance"],
+      [address(2), "disqualified", "lock-expired"],
+      [address(3), "disqualified", "insufficient-balance"],
+    ]
+  );
+
+  // A balance exactly at the bid and a lock ending at the deadline still qualify
+  const exact = funding(bids);
+  exact.bidders.set(address(1), { balance: 100n, lockExpiry: deadline });
+  assert.equal(settleAuction({ kind: "first-price" }, bids.map(stored), 50n, deadline, exact, SIGNER_KEY).result.winner, address(1));
+});
+
+test("an auction whose every bid is underfunded doesn't settle, and says which", () => {
+  const bids = [bid(1, 100n), bid(2, 90n)];
+  assert.throws(
+    () => settleAuction({ kind: "vickrey" }, bids.map(stored), 50n, 0n, funding(bids, 10n), SIGNER_KEY),
+    (err: unknown) =>
+      err instanceof SettlementError &&
+      err.message === "No funded bids at or above reserve price" &&
+      err.disqualified.map((d) => d.bidHash).join() === [hash(1), hash(2)].join()
+  );
+});
@@ -0,0 +1,36 @@
+import type { EnglishFormat } from "../store";
+import { SettlementEngine, rankBids, singleWinner } from "./types";
+
+/**
+ * English-style settlement from sealed bids.
+ *
+ * Emulates where an ascending open-cry auction would have stopped: bidding
+ * opens at the reserve and the runner-up drops out at their bid, so the
+ * winner pays the second-highest bid plus one increment. The price never
+ * exceeds the winner's own bid and never falls below the reserve, which is
+ * revealed as the opening price when there is no runner-up.
+ *
+ * Rules:
+ * - Highest bidder wins
+ * - Price = min(winner's bid, max(reserve, second-highest + increment))
+ * - increment = second-highest × incrementBps / 10000
+ */
+export const english: SettlementEngine<EnglishFormat> = {
+  settle(bids, reservePrice, format) {
+    const sorted = rankBids(bids);
+    const top = BigInt(sorted[0].amount);
+
+    if (sorted.length === 1) {
+      return singleWinner(sorted[0].bidder, reservePrice);
+    }
+
+    const second = BigInt(sorted[1].amount);
+    const increment = (second * BigInt(format.incrementBps)) / 10000n;
+
+    let price = second + increment;
+    if (price < reservePrice) price = reservePrice;
+    if (price > top) price = top;
+
+    return singleWinner(sorted[0].bidder, price, sorted[1]);
+  },
+};
@@ -0,0 +1,18 @@
+import type { FirstPriceFormat } from "../store";
+import { SettlementEngine, rankBids, singleWinner } from "./types";
+
+/**
+ * First-price sealed-bid settlement.
+ *
+ * Rules:
+ * - Highest bidder wins
+ * - Winner pays their own bid
+ *
+ * Used for liquidations where the seller should capture the full top bid.
+ */
+export const firstPrice: SettlementEngine<FirstPriceFormat> = {
+  settle(bids) {
+    const top = rankBids(bids)[0];
+    return singleWinner(top.bidder, BigInt(top.amount), top);
+  },
+};
@@ -0,0 +1,195 @@
+import { ethers } from "ethers";
+import { AuctionFormat, OpenBid, StoredBid, openBid } from "../store";
+import { merkleRoot } from "../merkle";
+import type { FundingSnapshot } from "../chain";
+import {
+  Disqualification,
+  DisqualificationReason,
+  SettlementEngine,
+  SettlementError,
+  SettlementOutcome,
+  SettlementProof,
+  SettlementResult,
+} from "./types";
+import { RankingReport, buildRankingReport } from "./ranking";
+import { vickrey } from "./vickrey";
+import { firstPrice } from "./firstPrice";
+import { english } from "./english";
+import { uniformPrice } from "./uniformPrice";
+
+export type {
+  Allocation,
+  Disqualification,
+  DisqualificationReason,
+  SettlementProof,
+  SettlementResult,
+  SettlementEngine,
+} from "./types";
+export { SettlementError } from "./types";
+export type { RankingReport, SignedRankingReport } from "./ranking";
+export { signRankingReport } from "./ranking";
+
+const ENGINES: { [K in AuctionFormat["kind"]]: SettlementEngine<Extract<AuctionFormat, { kind: K }>> } = {
+  "vickrey": vickrey,
+  "first-price": firstPrice,
+  "english": english,
+  "uniform-price": uniformPrice,
+};
+
+/**
+ * Commit to the settlement over the full bid set and sign the commitment.
+ */
+function buildProof(
+  auctionId: string,
+  bidHashes: string[],
+  outcome: SettlementOutcome,
+  signerKey: string
+): SettlementProof {
+  const bidRoot = merkleRoot(bidHashes);
+  const priceBidHash = outcome.priceBidHash || ethers.ZeroHash;
+
+  const commitment = ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ["bytes32", "bytes32", "uint256", "address", "uint256", "bytes32"],
+      [auctionId, bidRoot, bidHashes.length, outcome.winner, outcome.price, priceBidHash]
+    )
+  );
+
+  const wallet = new ethers.Wallet(signerKey);
+  return {
+    bidRoot,
+    bidCount: bidHashes.length,
+    bidHashes,
+    priceBidHash,
+    commitment,
+    signer: wallet.address,
+    signature: wallet.signMessageSync(ethers.getBytes(commitment)),
+  };
+}
+
+/**
+ * Recompute a proof's commitment from the published result and check the
+ * signature and bid root. Bidders pair this with merkle.verifyInclusion().
+ */
+export function verifySettlementProof(
+  auctionId: string,
+  winner: string,
+  price: string,
+  proof: SettlementProof,
+  expectedSigner: string
+): boolean {
+  if (merkleRoot(proof.bidHashes) !== proof.bidRoot) return false;
+
+  const commitment = ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ["bytes32", "bytes32", "uint256", "address", "uint256", "bytes32"],
+      [auctionId, proof.bidRoot, proof.bidCount, winner, price, proof.priceBidHash]
+    )
+  );
+  if (commitment !== proof.commitment) return false;
+
+  const signer = ethers.verifyMessage(ethers.getBytes(commitment), proof.signature);
+  return signer.toLowerCase() === expectedSigner.toLowerCase();
+}
+
+export interface Settlement {
+  result: SettlementResult;
+  report: RankingReport; // full ranking — for auditors only, never on-chain
+}
+
+/**
+ * Why a bid's funding no longer backs it, or null if it does. Mirrors the
+ * checks POST /bid makes at submission, re-run against `funding`.
+ */
+function disqualify(
+  bid: OpenBid,
+  funding: FundingSnapshot,
+  deadline: bigint
+): DisqualificationReason | null {
+  const bidder = funding.bidders.get(bid.bidder.toLowerCase());
+  if (!bidder || bidder.balance < BigInt(bid.amount)) return "insufficient-balance";
+  if (bidder.lockExpiry < deadline) return "lock-expired";
+  return null;
+}
+
+/**
+ * Settle an auction with the engine for its format.
+ *
+ * Bids arrive sealed and are only decrypted here. Bids below the on-chain
+ * reserve are excluded before the engine runs (they still appear in the
+ * ranking report), as are bids whose bidder's pool balance or lock no
+ * longer covers them at `funding.blockNumber` — so the price is computed
+ * among qualified bids only and the on-chain settlement can't revert with
+ * WinnerUnderfunded. Ties are broken deterministically — see rankBids().
+ * The proof commits to every bidHash in `bids`, so each bidder can verify
+ * their own bid was counted.
+ */
+export function settleAuction(
+  format: AuctionFormat,
+  bids: StoredBid[],
+  reservePrice: bigint,
+  deadline: bigint,
+  funding: FundingSnapshot,
+  signerKey: string
+): Settlement {
+  if (bids.length === 0) {
+    throw new SettlementError("No bids to settle");
+  }
+
+  const opened = bids.map(openBid);
+  const belowReserve = opened.filter((b) => BigInt(b.amount) < reservePrice);
+
+  const qualified: OpenBid[] = [];
+  const disqualified: Disqualification[] = [];
+  for (const bid of opened) {
+    if (BigInt(bid.amount) < reservePrice) continue;
+
+    const reason = disqualify(bid, funding, deadline);
+    if (reason) {
+      disqualified.push({ bidder: bid.bidder, bidHash: bid.bidHash, reason });
+    } else {
+      qualified.push(bid);
+    }
+  }
+
+  if (qualified.length === 0) {
+    throw new SettlementError(
+      disqualified.length > 0
+        ? "No funded bids at or above reserve price"
+        : "No bids at or above reserve price",
+      disqualified
+    );
+  }
+
+  const engine = ENGINES[format.kind] as SettlementEngine;
+  const outcome = engine.settle(qualified, reservePrice, format);
+
+  const auctionId = bids[0].auctionId;
+  const bidHashes = bids.map((b) => b.bidHash);
+
+  const result: SettlementResult = {
+    auctionId,
+    winner: outcome.winner,
+    price: outcome.price.toString(),
+    proof: buildProof(auctionId, bidHashes, outcome, signerKey),
+    allocations: outcome.allocations,
+    fundingBlock: funding.blockNumber,
+    disqualified,
+  };
+
+  const disqualifiedBids = opened.filter((b) =>
+    disqualified.some((d) => d.bidHash === b.bidHash)
+  );
+
+  return {
+    result,
+    report: buildRankingReport(
+      format,
+      qualified,
+      disqualifiedBids,
+      belowReserve,
+      reservePrice,
+      result
+    ),
+  };
+}
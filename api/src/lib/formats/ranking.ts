@@ -0,0 +1,109 @@
+import { ethers } from "ethers";
+import type { AuctionFormat, OpenBid } from "../store";
+import { rankBids, type DisqualificationReason, type SettlementResult } from "./types";
+
+/**
+ * Auditor-facing ranking of every bid in a settled auction.
+ *
+ * Never goes on-chain: it is signed by the API's report key (REPORT_SIGNER_KEY)
+ * and stored sealed, to be released on request via GET /settle/:id/report.
+ * Auditors check `signature` against the published signer address.
+ */
+
+export type RankedOutcome = "won" | "lost" | "disqualified" | "below-reserve";
+
+export interface RankedBid {
+  rank: number; // 1-based; qualified bids first, then disqualified, then below-reserve
+  bidder: string;
+  amount: string;
+  timestamp: number;
+  bidHash: string;
+  outcome: RankedOutcome;
+  reason?: DisqualificationReason; // set when outcome is "disqualified"
+}
+
+export interface RankingReport {
+  auctionId: string;
+  format: AuctionFormat;
+  reservePrice: string;
+  winner: string;
+  clearingPrice: string;
+  fundingBlock: number;
+  bids: RankedBid[];
+  generatedAt: number; // unix seconds
+}
+
+export interface SignedRankingReport {
+  report: RankingReport;
+  digest: string;    // keccak256 of the report's JSON encoding
+  signer: string;    // address of REPORT_SIGNER_KEY
+  signature: string; // EIP-191 signature over digest
+}
+
+/**
+ * Build the ranking from the qualified, disqualified (underfunded) and
+ * below-reserve bid sets, using the same deterministic order as settlement.
+ */
+export function buildRankingReport(
+  format: AuctionFormat,
+  qualified: OpenBid[],
+  disqualified: OpenBid[],
+  belowReserve: OpenBid[],
+  reservePrice: bigint,
+  result: SettlementResult
+): RankingReport {
+  const winners = new Set(result.allocations.map((a) => a.bidder.toLowerCase()));
+  const reasons = new Map(result.disqualified.map((d) => [d.bidHash, d.reason]));
+
+  const ranked: RankedBid[] = [
+    ...rankBids(qualified).map((b) => ({
+      bid: b,
+      outcome: (winners.has(b.bidder.toLowerCase()) ? "won" : "lost") as RankedOutcome,
+    })),
+    ...rankBids(disqualified).map((b) => ({
+      bid: b,
+      outcome: "disqualified" as RankedOutcome,
+    })),
+    ...rankBids(belowReserve).map((b) => ({
+      bid: b,
+      outcome: "below-reserve" as RankedOutcome,
+    })),
+  ].map(({ bid, outcome }, i) => ({
+    rank: i + 1,
+    bidder: bid.bidder,
+    amount: bid.amount,
+    timestamp: bid.timestamp,
+    bidHash: bid.bidHash,
+    outcome,
+    reason: reasons.get(bid.bidHash),
+  }));
+
+  return {
+    auctionId: result.auctionId,
+    format,
+    reservePrice: reservePrice.toString(),
+    winner: result.winner,
+    clearingPrice: result.price,
+    fundingBlock: result.fundingBlock,
+    bids: ranked,
+    generatedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Sign a report with the given private key.
+ */
+export function signRankingReport(
+  report: RankingReport,
+  privateKey: string
+): SignedRankingReport {
+  const wallet = new ethers.Wallet(privateKey);
+  const digest = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(report)));
+
+  return {
+    report,
+    digest,
+    signer: wallet.address,
+    signature: wallet.signMessageSync(ethers.getBytes(digest)),
+  };
+}
@@ -0,0 +1,132 @@
+import type { AuctionFormat, OpenBid } from "../store";
+
+/**
+ * A settlement that can't proceed for a business reason (no eligible bids),
+ * as opposed to an internal failure. Routes map it to a 400.
+ */
+export class SettlementError extends Error {
+  constructor(
+    message: string,
+    public readonly disqualified: Disqualification[] = []
+  ) {
+    super(message);
+    this.name = "SettlementError";
+  }
+}
+
+/**
+ * One winning line of a settlement. Single-winner formats return exactly one;
+ * uniform-price returns one per unit sold.
+ */
+export interface Allocation {
+  bidder: string;
+  units: number;
+  price: string; // per-unit uint256 decimal string
+}
+
+/**
+ * Publicly checkable commitment to a settlement.
+ *
+ * `commitment` = keccak256(abi.encode(
+ *   bytes32 auctionId, bytes32 bidRoot, uint256 bidCount,
+ *   address winner, uint256 price, bytes32 priceBidHash))
+ * signed (EIP-191) by SETTLEMENT_SIGNER_KEY. A losing bidder checks the
+ * signature, their bid's inclusion under `bidRoot` (GET /settle/:id/proof/:bidHash)
+ * and that their own amount ≤ price — which holds for a loser in every format.
+ * A bid disqualified for funding is committed too; its bidder finds it in
+ * SettlementResult.disqualified instead.
+ */
+export interface SettlementProof {
+  bidRoot: string;       // Merkle root over bidHashes (see ../merkle)
+  bidCount: number;
+  bidHashes: string[];   // the committed set — already public on-chain
+  priceBidHash: string;  // bid whose amount set the price; zero hash if the reserve did
+  commitment: string;
+  signer: string;
+  signature: string;
+}
+
+/**
+ * insufficient-balance — pool balance below the bid amount
+ * lock-expired         — pool lock ends before the auction deadline
+ */
+export type DisqualificationReason = "insufficient-balance" | "lock-expired";
+
+/**
+ * A bid excluded at settlement because its bidder's funding no longer
+ * backs it on-chain. Still committed in the proof's bid set.
+ */
+export interface Disqualification {
+  bidder: string;
+  bidHash: string;
+  reason: DisqualificationReason;
+}
+
+export interface SettlementResult {
+  auctionId: string;
+  winner: string;  // highest qualified bidder — the address settled on-chain
+  price: string;   // uint256 decimal string — token-agnostic
+  proof: SettlementProof;
+  allocations: Allocation[];
+  fundingBlock: number; // block the pool balances and locks were read at
+  disqualified: Disqualification[];
+}
+
+/**
+ * What an engine decides; settleAuction() adds auctionId and the proof.
+ */
+export interface SettlementOutcome {
+  winner: string;
+  price: bigint;
+  priceBidHash: string | null; // null when the reserve set the price
+  allocations: Allocation[];
+}
+
+/**
+ * Strategy interface for an auction format's settlement rule.
+ * Engines receive opened (decrypted) bids and never see the signing key.
+ */
+export interface SettlementEngine<F extends AuctionFormat = AuctionFormat> {
+  settle(bids: OpenBid[], reservePrice: bigint, format: F): SettlementOutcome;
+}
+
+/**
+ * Rank bids best-first. The order is total, so every DON node calling the
+ * API ranks the same bid set identically:
+ *   1. Higher amount first (bigint comparison)
+ *   2. Equal amounts: earlier `timestamp` first
+ *   3. Equal timestamps: lower `bidHash` first (case-insensitive hex)
+ */
+export function rankBids(bids: OpenBid[]): OpenBid[] {
+  return [...bids].sort((a, b) => {
+    const amountA = BigInt(a.amount);
+    const amountB = BigInt(b.amount);
+    if (amountA > amountB) return -1;
+    if (amountA < amountB) return 1;
+
+    if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+
+    const hashA = a.bidHash.toLowerCase();
+    const hashB = b.bidHash.toLowerCase();
+    if (hashA < hashB) return -1;
+    if (hashA > hashB) return 1;
+    return 0;
+  });
+}
+
+/**
+ * Single-winner outcome with a one-unit allocation.
+ * `priceBid` is the bid whose amount set the price, if any.
+ */
+export function singleWinner(
+  winner: string,
+  price: bigint,
+  priceBid?: OpenBid
+): SettlementOutcome {
+  return {
+    winner,
+    price,
+    priceBidHash: priceBid ? priceBid.bidHash : null,
+    allocations: [{ bidder: winner, units: 1, price: price.toString() }],
+  };
+}
@@ -0,0 +1,36 @@
+import type { UniformPriceFormat } from "../store";
+import { SettlementEngine, rankBids } from "./types";
+
+/**
+ * Uniform-price multi-unit settlement — for fractionalized LienFiRWAToken
+ * tranches.
+ *
+ * Each bid is a bid for one unit at the signed amount.
+ *
+ * Rules:
+ * - The `units` highest bidders each win one unit
+ * - Every winner pays the same clearing price: the highest losing bid,
+ *   or the reserve if every bid wins
+ * - `winner` is the top bidder, kept for the single-winner on-chain report;
+ *   the full result is in `allocations`
+ */
+export const uniformPrice: SettlementEngine<UniformPriceFormat> = {
+  settle(bids, reservePrice, format) {
+    const sorted = rankBids(bids);
+    const winners = sorted.slice(0, format.units);
+
+    const priceBid = sorted.length > format.units ? sorted[format.units] : null;
+    const price = priceBid ? BigInt(priceBid.amount) : reservePrice;
+
+    return {
+      winner: winners[0].bidder,
+      price,
+      priceBidHash: priceBid ? priceBid.bidHash : null,
+      allocations: winners.map((b) => ({
+        bidder: b.bidder,
+        units: 1,
+        price: price.toString(),
+      })),
+    };
+  },
+};
@@ -0,0 +1,24 @@
+import type { VickreyFormat } from "../store";
+import { SettlementEngine, rankBids, singleWinner } from "./types";
+
+/**
+ * Vickrey (second-price) auction settlement.
+ *
+ * Rules:
+ * - Highest bidder wins
+ * - Winner pays the second-highest bid price
+ * - If only one bid, winner pays the reserve price
+ *
+ * Token-agnostic: amounts compared as bigints regardless of decimal scheme.
+ */
+export const vickrey: SettlementEngine<VickreyFormat> = {
+  settle(bids, reservePrice) {
+    const sorted = rankBids(bids);
+
+    // Vickrey: pay second-highest price, or reserve if only one bid
+    if (sorted.length > 1) {
+      return singleWinner(sorted[0].bidder, BigInt(sorted[1].amount), sorted[1]);
+    }
+    return singleWinner(sorted[0].bidder, reservePrice);
+  },
+};
@@ -0,0 +1,196 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { Indexer, type IndexerConfig, type IndexerLog, type IndexerProvider } from "./indexer";
+import { indexerLagBlocks } from "./metrics";
+import { getStorage, setStorage, MemoryBackend } from "./storage";
+
+// Batching, checkpoints, reorg rewinds and readiness, against a scripted chain.
+
+const AUCTION = "0x" + "a1".repeat(20);
+const AUCTION_ID = "0x" + "ab".repeat(32);
+const EVENTS = new ethers.Interface([
+  "event AuctionCreated(bytes32 indexed auctionId, address indexed seller, uint256 indexed tokenId, uint256 deadline, uint256 reservePrice)",
+  "event BidRegistered(bytes32 indexed auctionId, bytes32 bidHash)",
+  "event AuctionClosed(bytes32 indexed auctionId)",
+]);
+
+/** A chain whose blocks and logs the test writes; a fork label keeps block hashes apart. */
+class StubChain implements IndexerProvider {
+  hashes: string[] = [ethers.id("genesis")];
+  logs: IndexerLog[] = [];
+  down = false;
+  onGetLogs = () => {};
+
+  get head(): number {
+    return this.hashes.length - 1;
+  }
+
+  mine(count: number, fork = "a"): void {
+    for (let i = 0; i < count; i++) this.hashes.push(ethers.id(`${fork}:${this.hashes.length}`));
+  }
+
+  /** Drop blocks from `block` on; mine() then builds the other branch. */
+  orphan(block: number): void {
+    this.hashes = this.hashes.slice(0, block);
+    this.logs = this.logs.filter((l) => l.blockNumber < block);
+  }
+
+  /** Mine one block holding `name(...args)` from LienFiAuction. */
+  emit(name: string, args: unknown[], fork = "a"): void {
+    this.mine(1, fork);
+    const { topics, data } = EVENTS.encodeEventLog(name, args);
+    this.logs.push({
+      address: AUCTION,
+      topics,
+      data,
+      blockNumber: this.head,
+      blockHash: this.hashes[this.head],
+      index: 0,
+      transactionHash: ethers.id(`tx:${fork}:${this.head}`),
+    });
+  }
+
+  async getBlockNumber(): Promise<number> {
+    if (this.down) throw new Error("connection refused");
+    return this.head;
+  }
+
+  async getBlock(blockNumber: number): Promise<{ hash: string } | null> {
+    const hash = this.hashes[blockNumber];
+    return hash ? { hash } : null;
+  }
+
+  async getLogs({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }): Promise<IndexerLog[]> {
+    this.onGetLogs();
+    return this.logs.filter((l) => l.blockNumber >= fromBlock && l.blockNumber <= toBlock);
+  }
+}
+
+const CONFIG: IndexerConfig = {
+  auctionAddress: AUCTION,
+  usdcAddress: "0x" + "c0".repeat(20),
+  startBlock: 1,
+  confirmations: 2,
+  batchBlocks: 5,
+  pollMs: 1000,
+  maxLagBlocks: 10,
+};
+
+const bidHash = (n: number) => ethers.id(`bid:${n}`);
+
+beforeEach(() => {
+  setStorage(new MemoryBackend());
+  process.env.LOG_LEVEL = "error";
+});
+
+test("indexes confirmed blocks in batches, with a checkpoint per batch", async () => {
+  const chain = new StubChain();
+  chain.mine(2);
+  chain.emit("AuctionCreated", [AUCTION_ID, "0x" + "11".repeat(20), 7, 1_900_000_000, 1_000_000]); // 3
+  chain.mine(4);
+  chain.emit("BidRegistered", [AUCTION_ID, bidHash(1)]); // 8
+  chain.mine(3);
+  chain.emit("BidRegistered", [AUCTION_ID, bidHash(2)]); // 12, unconfirmed
+
+  const indexer = new Indexer(chain, CONFIG);
+  await indexer.poll();
+
+  assert.deepEqual(getStorage().getIndexCheckpoints().map((c) => c.blockNumber), [5, 10]);
+  assert.equal(getStorage().getLatestIndexCheckpoint()?.blockHash, chain.hashes[10]);
+  assert.equal(indexer.getView().getAuction(AUCTION_ID).deadline, 1_900_000_000n);
+  assert.deepEqual(indexer.getView().getBidHashes(AUCTION_ID), [{ bidHash: bidHash(1), revoked: false }]);
+  assert.equal(indexer.isSynced, true);
+  assert.equal(indexer.lagBlocks, 0);
+
+  chain.mine(2);
+  await indexer.poll();
+  assert.deepEqual(indexer.getView().getBidHashes(AUCTION_ID).map((b) => b.bidHash), [bidHash(1), bidHash(2)]);
+});
+
+test("a reorg rewinds to the newest checkpoint still canonical and re-indexes the new branch", async () => {
+  const chain = new StubChain();
+  chain.emit("AuctionCreated", [AUCTION_ID, "0x" + "11".repeat(20), 7, 1_900_000_000, 1_000_000]); // 1
+  chain.mine(5);
+  chain.emit("BidRegistered", [AUCTION_ID, bidHash(1)]); // 7
+  chain.mine(4);
+
+  const indexer = new Indexer(chain, CONFIG);
+  await indexer.poll();
+  assert.deepEqual(getStorage().getIndexCheckpoints().map((c) => c.blockNumber), [5, 9]);
+
+  // Blocks 7.. are replaced: the bid lands in block 8 of the new branch instead
+  chain.orphan(7);
+  chain.mine(1, "b");
+  chain.emit("BidRegistered", [AUCTION_ID, bidHash(2)], "b");
+  chain.mine(4, "b");
+
+  await indexer.poll();
+  assert.deepEqual(getStorage().getIndexCheckpoints().map((c) => c.blockNumber), [5, 10]);
+  assert.equal(getStorage().getLatestIndexCheckpoint()?.blockHash, chain.hashes[10]);
+  assert.deepEqual(indexer.getView().getBidHashes(AUCTION_ID), [{ bidHash: bidHash(2), revoked: false }]);
+  assert.deepEqual(getStorage().getChainEvents().map((e) => e.blockNumber), [1, 8]);
+});
+
+test("a reorg below every checkpoint starts over from startBlock", async () => {
+  const chain = new StubChain();
+  chain.emit("BidRegistered", [AUCTION_ID, bidHash(1)]); // 1
+  chain.mine(6);
+
+  const indexer = new Indexer(chain, CONFIG);
+  await indexer.poll();
+
+  chain.orphan(1);
+  chain.mine(8, "b");
+  await indexer.poll();
+  assert.deepEqual(indexer.getView().getBidHashes(AUCTION_ID), []);
+  assert.deepEqual(getStorage().getIndexCheckpoints().map((c) => c.blockNumber), [5, 6]);
+});
+
+test("an auction closed without a winner reads as settled with no winner", async () => {
+  const chain = new StubChain();
+  chain.emit("AuctionCreated", [AUCTION_ID, "0x" + "11".repeat(20), 7, 1_900_000_000, 1_000_000]); // 1
+  chain.emit("AuctionClosed", [AUCTION_ID]); // 2
+  chain.mine(2);
+
+  const indexer = new Indexer(chain, CONFIG);
+  await indexer.poll();
+
+  const auction = indexer.getView().getAuction(AUCTION_ID);
+  assert.equal(auction.settled, true);
+  assert.equal(auction.winner, ethers.ZeroAddress);
+  assert.equal(auction.settledPrice, 0n);
+  assert.equal(auction.tokenId, 7n);
+});
+
+test("a failed poll or a backlog past maxLagBlocks hands reads back to RPC", async () => {
+  const chain = new StubChain();
+  chain.mine(10);
+  const indexer = new Indexer(chain, CONFIG);
+  await indexer.poll();
+  assert.equal(indexer.isSynced, true);
+
+  chain.down = true;
+  await assert.rejects(indexer.poll(), /connection refused/);
+  assert.equal(indexer.isSynced, false);
+
+  chain.down = false;
+  await indexer.poll();
+  assert.equal(indexer.isSynced, true);
+
+  // 30 confirmed blocks behind: unsynced while catching up, synced after
+  chain.mine(30);
+  const duringCatchUp: boolean[] = [];
+  chain.onGetLogs = () => duringCatchUp.push(indexer.isSynced);
+  await indexer.poll();
+  assert.equal(duringCatchUp[0], false);
+  assert.equal(indexer.isSynced, true);
+  assert.equal(indexer.lagBlocks, 0);
+  assert.equal(indexerLagBlocks.get({}), 0);
+
+  // A small lag is tolerated
+  chain.mine(4);
+  duringCatchUp.length = 0;
+  await indexer.poll();
+  assert.deepEqual(duringCatchUp, [true]);
+});
@@ -0,0 +1,321 @@
+import { ethers } from "ethers";
+import { getStorage } from "../storage";
+import { rpcUrls } from "../rpc";
+import { log } from "../logger";
+import { indexerLagBlocks, indexerSynced } from "../metrics";
+import { ChainView } from "./view";
+import type { ChainEvent, IndexCheckpoint, IndexedContract } from "./types";
+
+export type { ChainEvent, IndexCheckpoint, IndexedContract } from "./types";
+export { ChainView, type IndexedProperty } from "./view";
+
+/**
+ * Chain event indexer.
+ *
+ * Follows LienFiAuction and PropertyNFT logs up to `confirmations` blocks
+ * behind head, persists them with a checkpoint per batch, and keeps a
+ * ChainView projection up to date. chain.ts answers point reads from the
+ * view once the indexer has caught up, instead of going to RPC.
+ *
+ * Reorgs: each poll re-checks the cursor block's hash. If it changed, the
+ * indexer walks back through its checkpoints to the newest one still on
+ * the canonical chain, drops everything after it and rebuilds the view.
+ *
+ * Readiness is re-earned every poll: a failed poll, or confirmed blocks
+ * more than `maxLagBlocks` ahead of the cursor, hands reads back to RPC
+ * until a poll catches up again. The lag is exported as
+ * lienfi_indexer_lag_blocks.
+ */
+
+const AUCTION_EVENTS = new ethers.Interface([
+  "event PoolDeposit(address indexed depositor, address indexed token, uint256 amount, uint256 lockUntil)",
+  "event LockExtended(address indexed depositor, uint256 newExpiry)",
+  "event PoolWithdrawal(address indexed depositor, address indexed token, uint256 amount)",
+  "event AuctionCreated(bytes32 indexed auctionId, address indexed seller, uint256 indexed tokenId, uint256 deadline, uint256 reservePrice)",
+  "event BidRegistered(bytes32 indexed auctionId, bytes32 bidHash)",
+  "event BidRevoked(bytes32 indexed auctionId, bytes32 bidHash, bytes32 supersededBy)",
+  "event AuctionSettled(bytes32 indexed auctionId, address winner, uint256 price)",
+  "event AuctionClosed(bytes32 indexed auctionId)",
+]);
+
+const PROPERTY_NFT_EVENTS = new ethers.Interface([
+  "event PropertyMinted(uint256 indexed tokenId, address indexed owner, bytes32 metadataHash)",
+]);
+
+/** Checkpoints kept for finding a reorg's common ancestor. */
+const CHECKPOINT_HISTORY = 128;
+
+export interface IndexerConfig {
+  auctionAddress: string;
+  propertyNftAddress?: string;
+  usdcAddress: string;
+  startBlock: number;    // first block to index (contract deployment)
+  confirmations: number; // blocks behind head treated as final
+  batchBlocks: number;   // max block range per eth_getLogs
+  pollMs: number;
+  maxLagBlocks: number;  // unindexed confirmed blocks tolerated before falling back to RPC
+}
+
+/** The log fields the indexer decodes and persists. */
+export type IndexerLog = Pick<
+  ethers.Log,
+  "address" | "topics" | "data" | "blockNumber" | "blockHash" | "index" | "transactionHash"
+>;
+
+/** The provider calls the indexer makes — an ethers.Provider, or a stub in tests. */
+export interface IndexerProvider {
+  getBlockNumber(): Promise<number>;
+  getBlock(blockNumber: number): Promise<{ hash: string | null } | null>;
+  getLogs(filter: { address: string[]; fromBlock: number; toBlock: number }): Promise<IndexerLog[]>;
+}
+
+export class Indexer {
+  private view: ChainView;
+  private synced = false;
+  private lag: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly contracts: Map<string, { kind: IndexedContract; iface: ethers.Interface }>;
+
+  constructor(
+    private readonly provider: IndexerProvider,
+    private readonly config: IndexerConfig
+  ) {
+    this.view = new ChainView(config.usdcAddress);
+    this.contracts = new Map([
+      [config.auctionAddress.toLowerCase(), { kind: "auction", iface: AUCTION_EVENTS }],
+    ]);
+    if (config.propertyNftAddress) {
+      this.contracts.set(config.propertyNftAddress.toLowerCase(), {
+        kind: "propertyNFT",
+        iface: PROPERTY_NFT_EVENTS,
+      });
+    }
+  }
+
+  /**
+   * True while the last poll succeeded and left the view within
+   * maxLagBlocks of head - confirmations.
+   */
+  get isSynced(): boolean {
+    return this.synced;
+  }
+
+  /** Confirmed blocks not yet indexed, as of the last poll; null before the first. */
+  get lagBlocks(): number | null {
+    return this.lag;
+  }
+
+  getView(): ChainView {
+    return this.view;
+  }
+
+  /** Replay persisted events, then poll until stop(). */
+  start(): void {
+    this.rebuildView();
+    const loop = async () => {
+      try {
+        await this.poll();
+      } catch (err) {
+        log.error("INDEXER", "Poll failed", { err });
+      }
+      if (this.timer) {
+        this.timer = setTimeout(loop, this.config.pollMs);
+      }
+    };
+    this.timer = setTimeout(loop, 0);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * One indexing step: handle a reorg at the cursor if there was one, then
+   * index confirmed blocks in batches up to head - confirmations. A failure
+   * marks the indexer unsynced before it propagates.
+   */
+  async poll(): Promise<void> {
+    try {
+      await this.indexToHead();
+    } catch (err) {
+      this.setSynced(false, { reason: "poll failed" });
+      throw err;
+    }
+  }
+
+  private async indexToHead(): Promise<void> {
+    const storage = getStorage();
+
+    const cursor = this.cursor();
+    if (cursor) {
+      const block = await this.provider.getBlock(cursor.blockNumber);
+      if (!block || block.hash !== cursor.blockHash) {
+        await this.rewind();
+      }
+    }
+
+    const head = await this.provider.getBlockNumber();
+    const target = head - this.config.confirmations;
+    let from = (this.cursor()?.blockNumber ?? this.config.startBlock - 1) + 1;
+    this.setLag(target - from + 1);
+
+    while (from <= target) {
+      const to = Math.min(from + this.config.batchBlocks - 1, target);
+
+      const logs = await this.provider.getLogs({
+        address: [...this.contracts.keys()],
+        fromBlock: from,
+        toBlock: to,
+      });
+      const block = await this.provider.getBlock(to);
+      if (!block || !block.hash) {
+        throw new Error(`Block ${to} not available`);
+      }
+
+      const events = logs
+        .map((log) => this.decode(log))
+        .filter((e): e is ChainEvent => e !== null)
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+      storage.transaction(() => {
+        storage.insertChainEvents(events);
+        storage.insertIndexCheckpoint({ blockNumber: to, blockHash: block.hash! });
+        storage.pruneIndexCheckpoints(CHECKPOINT_HISTORY);
+      });
+      for (const event of events) {
+        this.view.apply(event);
+      }
+
+      if (events.length > 0) {
+        log.info("INDEXER", "Indexed blocks", { from, to, events: events.length });
+      }
+      from = to + 1;
+      this.setLag(target - to);
+    }
+
+    this.setSynced(true, { block: target, head });
+  }
+
+  private setLag(blocks: number): void {
+    this.lag = Math.max(0, blocks);
+    indexerLagBlocks.set({}, this.lag);
+    if (this.lag > this.config.maxLagBlocks) {
+      this.setSynced(false, { reason: "behind", lagBlocks: this.lag });
+    }
+  }
+
+  private setSynced(synced: boolean, fields: Record<string, unknown>): void {
+    indexerSynced.set({}, synced ? 1 : 0);
+    if (synced === this.synced) return;
+    this.synced = synced;
+    if (synced) {
+      log.info("INDEXER", "Synced", fields);
+    } else {
+      log.warn("INDEXER", "Out of sync, reads fall back to RPC", fields);
+    }
+  }
+
+  private cursor(): IndexCheckpoint | null {
+    return getStorage().getLatestIndexCheckpoint();
+  }
+
+  /**
+   * Roll back to the newest checkpoint still on the canonical chain, or to
+   * before startBlock if none is.
+   */
+  private async rewind(): Promise<void> {
+    const storage = getStorage();
+    const checkpoints = storage.getIndexCheckpoints();
+
+    let ancestor: IndexCheckpoint | null = null;
+    for (const checkpoint of [...checkpoints].reverse()) {
+      const block = await this.provider.getBlock(checkpoint.blockNumber);
+      if (block && block.hash === checkpoint.blockHash) {
+        ancestor = checkpoint;
+        break;
+      }
+    }
+
+    const keepThrough = ancestor ? ancestor.blockNumber : this.config.startBlock - 1;
+    storage.transaction(() => {
+      storage.deleteChainEventsAfter(keepThrough);
+      storage.deleteIndexCheckpointsAfter(keepThrough);
+    });
+    this.rebuildView();
+
+    log.warn("INDEXER", "Reorg detected, rewound", {
+      block: checkpoints[checkpoints.length - 1]?.blockNumber,
+      rewoundTo: keepThrough,
+    });
+  }
+
+  private rebuildView(): void {
+    this.view = new ChainView(this.config.usdcAddress);
+    for (const event of getStorage().getChainEvents()) {
+      this.view.apply(event);
+    }
+  }
+
+  private decode(log: IndexerLog): ChainEvent | null {
+    const contract = this.contracts.get(log.address.toLowerCase());
+    if (!contract) return null;
+
+    const parsed = contract.iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) return null;
+
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name] = String(parsed.args[i]);
+    });
+
+    return {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+      contract: contract.kind,
+      name: parsed.name,
+      args,
+    };
+  }
+}
+
+let indexer: Indexer | null = null;
+
+/**
+ * Start the indexer if INDEXER_ENABLED=true:
+ *   RPC_URLS/RPC_URL (first endpoint), VERIFYING_CONTRACT (LienFiAuction), USDC_ADDRESS
+ *   PROPERTY_NFT_ADDRESS   — optional; PropertyMinted is skipped without it
+ *   INDEXER_START_BLOCK    — deployment block (default 0)
+ *   INDEXER_CONFIRMATIONS  — default 3 (0 is fine against anvil)
+ *   INDEXER_BATCH_BLOCKS   — default 2000
+ *   INDEXER_POLL_MS        — default 4000
+ *   INDEXER_MAX_LAG_BLOCKS — default 10; further behind, reads go to RPC
+ */
+export function startIndexer(): Indexer | null {
+  if (process.env.INDEXER_ENABLED !== "true" || indexer) return indexer;
+
+  const provider = new ethers.JsonRpcProvider(rpcUrls()[0]);
+  indexer = new Indexer(provider, {
+    auctionAddress: process.env.VERIFYING_CONTRACT || ethers.ZeroAddress,
+    propertyNftAddress: process.env.PROPERTY_NFT_ADDRESS || undefined,
+    usdcAddress: process.env.USDC_ADDRESS || ethers.ZeroAddress,
+    startBlock: Number(process.env.INDEXER_START_BLOCK || 0),
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS || 3),
+    batchBlocks: Number(process.env.INDEXER_BATCH_BLOCKS || 2000),
+    pollMs: Number(process.env.INDEXER_POLL_MS || 4000),
+    maxLagBlocks: Number(process.env.INDEXER_MAX_LAG_BLOCKS || 10),
+  });
+  indexer.start();
+  log.info("INDEXER", "Started");
+  return indexer;
+}
+
+/**
+ * The indexed view, or null if the indexer is off or still catching up —
+ * callers then fall back to RPC.
+ */
+export function indexedView(): ChainView | null {
+  return indexer && indexer.isSynced ? indexer.getView() : null;
+}
@@ -0,0 +1,27 @@
+/** Which indexed contract a log came from. */
+export type IndexedContract = "auction" | "propertyNFT";
+
+/**
+ * A decoded contract log, as persisted by the indexer.
+ * Argument values are stringified — uint256s as decimal strings, addresses
+ * and bytes32 as hex — so events round-trip through JSON unchanged.
+ */
+export interface ChainEvent {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  txHash: string;
+  contract: IndexedContract;
+  name: string; // e.g. "PoolDeposit"
+  args: Record<string, string>;
+}
+
+/**
+ * A block the indexer has processed through, with the hash it saw.
+ * The latest checkpoint is the cursor; older ones locate the common
+ * ancestor after a reorg.
+ */
+export interface IndexCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
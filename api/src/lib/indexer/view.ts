@@ -0,0 +1,135 @@
+import { ethers } from "ethers";
+import type { AuctionOnChain, BidHashOnChain } from "../chain";
+import type { ChainEvent } from "./types";
+
+export interface IndexedProperty {
+  tokenId: number;
+  owner: string;
+  metadataHash: string;
+}
+
+/**
+ * In-memory projection of LienFiAuction and PropertyNFT state, built by
+ * replaying indexed events in order. Mirrors the contract's storage closely
+ * enough to answer the point reads chain.ts would otherwise send over RPC.
+ */
+export class ChainView {
+  private balances: Map<string, bigint> = new Map(); // "<depositor>:<token>", lowercased
+  private locks: Map<string, bigint> = new Map();
+  private auctions: Map<string, AuctionOnChain> = new Map();
+  private bids: Map<string, BidHashOnChain[]> = new Map();
+  private properties: Map<number, IndexedProperty> = new Map();
+
+  /** `usdc` is the token settlement debits from the winner's pool. */
+  constructor(private readonly usdc: string) {}
+
+  apply(event: ChainEvent): void {
+    const a = event.args;
+    switch (event.name) {
+      case "PoolDeposit": {
+        this.credit(a.depositor, a.token, BigInt(a.amount));
+        const lockUntil = BigInt(a.lockUntil);
+        if (lockUntil > this.lockExpiry(a.depositor)) {
+          this.locks.set(a.depositor.toLowerCase(), lockUntil);
+        }
+        break;
+      }
+      case "LockExtended":
+        this.locks.set(a.depositor.toLowerCase(), BigInt(a.newExpiry));
+        break;
+      case "PoolWithdrawal":
+        this.credit(a.depositor, a.token, -BigInt(a.amount));
+        break;
+      case "AuctionCreated":
+        this.auctions.set(a.auctionId.toLowerCase(), {
+          seller: a.seller,
+          tokenId: BigInt(a.tokenId),
+          deadline: BigInt(a.deadline),
+          reservePrice: BigInt(a.reservePrice),
+          settled: false,
+          winner: ethers.ZeroAddress,
+          settledPrice: 0n,
+        });
+        break;
+      case "BidRegistered":
+        this.bidList(a.auctionId).push({ bidHash: a.bidHash, revoked: false });
+        break;
+      case "BidRevoked": {
+        const bid = this.bidList(a.auctionId).find(
+          (b) => b.bidHash.toLowerCase() === a.bidHash.toLowerCase()
+        );
+        if (bid) bid.revoked = true;
+        break;
+      }
+      case "AuctionSettled": {
+        const auction = this.auctions.get(a.auctionId.toLowerCase());
+        if (auction) {
+          auction.settled = true;
+          auction.winner = a.winner;
+          auction.settledPrice = BigInt(a.price);
+        }
+        this.credit(a.winner, this.usdc, -BigInt(a.price));
+        break;
+      }
+      case "AuctionClosed": {
+        // Closed unsold: settled with no winner, nothing debited
+        const auction = this.auctions.get(a.auctionId.toLowerCase());
+        if (auction) auction.settled = true;
+        break;
+      }
+      case "PropertyMinted":
+        this.properties.set(Number(a.tokenId), {
+          tokenId: Number(a.tokenId),
+          owner: a.owner,
+          metadataHash: a.metadataHash,
+        });
+        break;
+    }
+  }
+
+  poolBalance(depositor: string, token: string): bigint {
+    return this.balances.get(`${depositor}:${token}`.toLowerCase()) ?? 0n;
+  }
+
+  lockExpiry(depositor: string): bigint {
+    return this.locks.get(depositor.toLowerCase()) ?? 0n;
+  }
+
+  /** Same zero-valued struct the contract returns for an unknown id. */
+  getAuction(auctionId: string): AuctionOnChain {
+    const auction = this.auctions.get(auctionId.toLowerCase());
+    if (auction) return { ...auction };
+    return {
+      seller: ethers.ZeroAddress,
+      tokenId: 0n,
+      deadline: 0n,
+      reservePrice: 0n,
+      settled: false,
+      winner: ethers.ZeroAddress,
+      settledPrice: 0n,
+    };
+  }
+
+  getBidHashes(auctionId: string): BidHashOnChain[] {
+    return (this.bids.get(auctionId.toLowerCase()) ?? []).map((b) => ({ ...b }));
+  }
+
+  getProperty(tokenId: number): IndexedProperty | null {
+    return this.properties.get(tokenId) ?? null;
+  }
+
+  private credit(depositor: string, token: string, delta: bigint): void {
+    const key = `${depositor}:${token}`.toLowerCase();
+    this.balances.set(key, (this.balances.get(key) ?? 0n) + delta);
+  }
+
+  private bidList(auctionId: string): BidHashOnChain[] {
+    const key = auctionId.toLowerCase();
+    let list = this.bids.get(key);
+    if (!list) {
+      list = [];
+      this.bids.set(key, list);
+    }
+    return list;
+  }
+}
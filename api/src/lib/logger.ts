@@ -0,0 +1,83 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Structured logging: one JSON object per line on stdout (stderr for
+ * warnings and errors), e.g.
+ *
+ *   {"level":"info","time":"2026-…","tag":"BID","msg":"Bid accepted","requestId":"…","bidHash":"0x…"}
+ *
+ * Lines written while a request is being handled carry its requestId (see
+ * requestContext), so one request can be followed across route, chain and
+ * store logs. Bid and loan amounts, signatures, Plaid tokens and secrets are
+ * redacted wherever they appear in `fields`, however deeply nested.
+ *
+ * Env:
+ *   LOG_LEVEL = debug | info | warn | error (default info)
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface RequestContext {
+  requestId: string;
+}
+
+/** Set by the request middleware in app.ts for the life of each request. */
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Matched against field names, case-insensitively
+const REDACTED_KEYS = /amount|signature|plaidtoken|secret/i;
+
+export const REDACTED = "[redacted]";
+
+function threshold(): number {
+  const level = (process.env.LOG_LEVEL || "info").toLowerCase() as LogLevel;
+  const index = LOG_LEVELS.indexOf(level);
+  return index === -1 ? 1 : index;
+}
+
+/** Copy of `value` with sensitive fields replaced and errors made serializable. */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (typeof value === "bigint") return value.toString();
+  if (value === null || typeof value !== "object" || depth > 8) return value;
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key,
+      REDACTED_KEYS.test(key) ? REDACTED : redact(v, depth + 1),
+    ])
+  );
+}
+
+function write(level: LogLevel, tag: string, msg: string, fields: LogFields = {}): void {
+  if (LOG_LEVELS.indexOf(level) < threshold()) return;
+
+  const line = JSON.stringify({
+    level,
+    time: new Date().toISOString(),
+    tag,
+    msg,
+    requestId: requestContext.getStore()?.requestId,
+    ...(redact(fields) as LogFields),
+  });
+
+  if (level === "warn" || level === "error") {
+    process.stderr.write(line + "\n");
+  } else {
+    process.stdout.write(line + "\n");
+  }
+}
+
+export const log = {
+  debug: (tag: string, msg: string, fields?: LogFields) => write("debug", tag, msg, fields),
+  info: (tag: string, msg: string, fields?: LogFields) => write("info", tag, msg, fields),
+  warn: (tag: string, msg: string, fields?: LogFields) => write("warn", tag, msg, fields),
+  error: (tag: string, msg: string, fields?: LogFields) => write("error", tag, msg, fields),
+};
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { bidLeaf, inclusionProof, merkleRoot, verifyInclusion } from "./merkle";
+
+// The bid-set tree against OpenZeppelin's MerkleProof.verify, re-implemented
+// here from the Solidity so the check doesn't lean on merkle.ts itself.
+
+const hash = (n: number) => "0x" + n.toString(16).padStart(2, "0").repeat(32);
+const hashes = (count: number) => Array.from({ length: count }, (_, i) => hash(i + 1));
+
+/** MerkleProof.processProof with Hashes.commutativeKeccak256. */
+function ozProcessProof(proof: string[], leaf: string): string {
+  return proof.reduce(
+    (node, sibling) =>
+      BigInt(node) < BigInt(sibling)
+        ? ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [node, sibling])
+        : ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [sibling, node]),
+    leaf
+  );
+}
+
+test("a known bid set has a fixed root, built the way the contract checks it", () => {
+  const leaves = [hash(1), hash(2), hash(3)]
+    .map((h) => ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes32"], [h])))
+    .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  const expected = ozProcessProof([leaves[2]], ozProcessProof([leaves[1]], leaves[0]));
+
+  const root = merkleRoot([hash(1), hash(2), hash(3)]);
+  assert.equal(root, expected);
+  assert.equal(root, "0x0d5cd68744f13d11a230dbebb20070573ad8c65aaed17dba103c9f17bf0031f6");
+  assert.equal(merkleRoot([hash(3), hash(1), hash(2)]), root, "registration order doesn't matter");
+
+  assert.equal(merkleRoot([]), ethers.ZeroHash);
+  assert.equal(merkleRoot([hash(1)]), bidLeaf(hash(1)));
+});
+
+test("every member's proof passes MerkleProof.verify, for sets with and without odd layers", () => {
+  for (let count = 1; count <= 9; count++) {
+    const set = hashes(count);
+    const root = merkleRoot(set);
+    for (const bidHash of set) {
+      const proof = inclusionProof(set, bidHash);
+      assert.equal(ozProcessProof(proof, bidLeaf(bidHash)), root, `${count} bids, ${bidHash}`);
+      assert.equal(verifyInclusion(root, bidHash, proof), true);
+    }
+  }
+});
+
+test("a tampered leaf, proof or root fails verification", () => {
+  const set = hashes(5);
+  const root = merkleRoot(set);
+  const proof = inclusionProof(set, hash(2));
+
+  assert.equal(verifyInclusion(root, hash(6), proof), false, "bid outside the set");
+  assert.equal(verifyInclusion(root, "0x" + "02".repeat(31) + "03", proof), false, "one byte of the bid changed");
+  assert.equal(verifyInclusion(root, hash(2), [...proof.slice(0, -1), ethers.ZeroHash]), false, "sibling replaced");
+  assert.equal(verifyInclusion(root, hash(2), proof.slice(1)), false, "sibling dropped");
+  assert.equal(verifyInclusion(merkleRoot(hashes(4)), hash(2), proof), false, "root of another set");
+  assert.throws(() => inclusionProof(set, hash(6)), /not in set/);
+});
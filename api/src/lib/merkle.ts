@@ -0,0 +1,81 @@
+import { ethers } from "ethers";
+
+/**
+ * Merkle tree over an auction's bidHashes.
+ *
+ * Compatible with OpenZeppelin's MerkleProof.verify: leaves are
+ * keccak256(abi.encode(bidHash)), pairs are hashed in sorted order, and an
+ * odd node at the end of a layer is carried up unchanged. Leaves are sorted
+ * before building so the root depends only on the set of hashes, not the
+ * order they were registered in.
+ */
+
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+export function bidLeaf(bidHash: string): string {
+  return ethers.keccak256(abiCoder.encode(["bytes32"], [bidHash]));
+}
+
+function hashPair(a: string, b: string): string {
+  const [lo, hi] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+  return ethers.keccak256(ethers.concat([lo, hi]));
+}
+
+function buildLayers(bidHashes: string[]): string[][] {
+  const leaves = bidHashes
+    .map(bidLeaf)
+    .sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1));
+  const layers = [leaves];
+
+  while (layers[layers.length - 1].length > 1) {
+    const prev = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < prev.length; i += 2) {
+      next.push(i + 1 < prev.length ? hashPair(prev[i], prev[i + 1]) : prev[i]);
+    }
+    layers.push(next);
+  }
+  return layers;
+}
+
+/**
+ * Root of the tree over `bidHashes` (zero hash for an empty set).
+ */
+export function merkleRoot(bidHashes: string[]): string {
+  if (bidHashes.length === 0) return ethers.ZeroHash;
+  const layers = buildLayers(bidHashes);
+  return layers[layers.length - 1][0];
+}
+
+/**
+ * Sibling path proving `bidHash` is in the set. Throws if it isn't.
+ */
+export function inclusionProof(bidHashes: string[], bidHash: string): string[] {
+  const layers = buildLayers(bidHashes);
+  let index = layers[0].indexOf(bidLeaf(bidHash));
+  if (index === -1) {
+    throw new Error("bidHash not in set");
+  }
+
+  const proof: string[] = [];
+  for (const layer of layers.slice(0, -1)) {
+    const sibling = index ^ 1;
+    if (sibling < layer.length) {
+      proof.push(layer[sibling]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+/**
+ * Check an inclusion proof against a root.
+ */
+export function verifyInclusion(
+  root: string,
+  bidHash: string,
+  proof: string[]
+): boolean {
+  const computed = proof.reduce((node, sibling) => hashPair(node, sibling), bidLeaf(bidHash));
+  return computed.toLowerCase() === root.toLowerCase();
+}
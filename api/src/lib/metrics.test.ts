@@ -0,0 +1,107 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { log, redact, requestContext, REDACTED } from "./logger";
+import { loanRequestsTotal, resetMetrics } from "./metrics";
+import { testKey, useTestApp } from "./testing";
+
+// Structured log redaction, request ids and the /metrics endpoint.
+
+const KEY = testKey("borrower", ["loan-write"]);
+
+const app = useTestApp({ keys: [KEY] });
+
+/** Lines written to stdout while `fn` runs. */
+function captureStdout(fn: () => void): string[] {
+  const lines: string[] = [];
+  const write = process.stdout.write;
+  process.stdout.write = ((chunk: string) => {
+    lines.push(chunk.trimEnd());
+    return true;
+  }) as typeof process.stdout.write;
+  try {
+    fn();
+  } finally {
+    process.stdout.write = write;
+  }
+  return lines;
+}
+
+test("amounts, signatures, Plaid tokens and secrets are redacted at any depth", () => {
+  const redacted = redact({
+    auctionId: "0x01",
+    amount: "1000000",
+    bid: { requestedAmount: "5", signature: "0xsig", nonce: 3 },
+    loans: [{ plaidToken: "access-sandbox", tokenId: 7 }],
+    secret: "s",
+  });
+
+  assert.deepEqual(redacted, {
+    auctionId: "0x01",
+    amount: REDACTED,
+    bid: { requestedAmount: REDACTED, signature: REDACTED, nonce: 3 },
+    loans: [{ plaidToken: REDACTED, tokenId: 7 }],
+    secret: REDACTED,
+  });
+});
+
+test("log lines are JSON and carry the current request id", () => {
+  process.env.LOG_LEVEL = "info";
+  try {
+    const [line] = captureStdout(() => {
+      requestContext.run({ requestId: "req-1" }, () => {
+        log.info("TEST", "Something happened", { amount: "1", count: 2n });
+      });
+    });
+
+    const parsed = JSON.parse(line);
+    assert.equal(parsed.level, "info");
+    assert.equal(parsed.tag, "TEST");
+    assert.equal(parsed.requestId, "req-1");
+    assert.equal(parsed.amount, REDACTED);
+    assert.equal(parsed.count, "2");
+
+    process.env.LOG_LEVEL = "warn";
+    assert.deepEqual(captureStdout(() => log.info("TEST", "Hidden")), []);
+  } finally {
+    process.env.LOG_LEVEL = "error";
+  }
+});
+
+test("a forwarded X-Request-Id is echoed; a malformed one is replaced", async () => {
+  const forwarded = await fetch(`${app.baseUrl}/health`, { headers: { "X-Request-Id": "cre-exec-42" } });
+  assert.equal(forwarded.headers.get("x-request-id"), "cre-exec-42");
+
+  const malformed = await fetch(`${app.baseUrl}/health`, { headers: { "X-Request-Id": "not a valid id!" } });
+  assert.match(malformed.headers.get("x-request-id")!, /^[0-9a-f-]{36}$/);
+});
+
+test("/metrics counts loan request outcomes and HTTP routes", async () => {
+  resetMetrics();
+
+  const res = await app.request(KEY, "POST", "/loan-request", {
+    borrowerAddress: "0x" + "11".repeat(20),
+    plaidToken: "access-sandbox-test",
+    tokenId: 999,
+    requestedAmount: "500000000000",
+    tenureMonths: 360,
+    nonce: 1,
+  });
+  assert.equal(res.status, 400);
+  assert.equal(loanRequestsTotal.get({ outcome: "rejected", reason: "NOT_FOUND" }), 1);
+
+  const metrics = await (await fetch(`${app.baseUrl}/metrics`)).text();
+  assert.match(metrics, /^lienfi_loan_requests_total\{outcome="rejected",reason="NOT_FOUND"\} 1$/m);
+  assert.match(metrics, /^lienfi_http_requests_total\{method="POST",route="\/loan-request",status="400"\} 1$/m);
+  assert.match(metrics, /^# TYPE lienfi_settlement_duration_seconds histogram$/m);
+});
+
+test("/metrics requires the bearer token when METRICS_TOKEN is set", async () => {
+  process.env.METRICS_TOKEN = "scrape-token";
+  try {
+    assert.equal((await fetch(`${app.baseUrl}/metrics`)).status, 401);
+    const ok = await fetch(`${app.baseUrl}/metrics`, { headers: { Authorization: "Bearer scrape-token" } });
+    assert.equal(ok.status, 200);
+  } finally {
+    delete process.env.METRICS_TOKEN;
+  }
+});
@@ -0,0 +1,221 @@
+import type { Response } from "express";
+
+/**
+ * In-process counters, gauges and histograms, served by GET /metrics in the
+ * Prometheus text format (0.0.4). Values reset when the process restarts.
+ *
+ * Labels are kept to small fixed sets — route patterns, error codes,
+ * outcomes — never ids or addresses, so series don't grow with traffic.
+ */
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((k) => [k, labels[k]]));
+}
+
+function formatLabels(labels: Labels): string {
+  const parts = Object.keys(labels)
+    .filter((k) => labels[k] !== "")
+    .map((k) => `${k}="${labels[k].replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`);
+  return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+  reset(): void;
+}
+
+const registry: Metric[] = [];
+
+export class Counter<L extends string> implements Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string
+  ) {
+    registry.push(this);
+  }
+
+  inc(labels: Record<L, string>, by = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Record<L, string>): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+
+  reset(): void {
+    this.values = new Map();
+  }
+}
+
+export class Gauge<L extends string> implements Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string
+  ) {
+    registry.push(this);
+  }
+
+  set(labels: Record<L, string>, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  get(labels: Record<L, string>): number | undefined {
+    return this.values.get(labelKey(labels))?.value;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+
+  reset(): void {
+    this.values = new Map();
+  }
+}
+
+// Seconds — spans a cached RPC read through a slow settlement
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Histogram<L extends string> implements Metric {
+  private values: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    registry.push(this);
+  }
+
+  observe(labels: Record<L, string>, seconds: number): void {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((le, i) => {
+      if (seconds <= le) entry!.counts[i]++;
+    });
+    entry.sum += seconds;
+    entry.count++;
+  }
+
+  /** Observations so far for `labels` (tests). */
+  count(labels: Record<L, string>): number {
+    return this.values.get(labelKey(labels))?.count ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((le, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.values = new Map();
+  }
+}
+
+/** Seconds since a process.hrtime.bigint() reading. */
+export function secondsSince(start: bigint): number {
+  return Number(process.hrtime.bigint() - start) / 1e9;
+}
+
+/** "ok", "rejected" (4xx) or "error" (5xx), from a response status. */
+export function outcomeOf(status: number): string {
+  if (status >= 500) return "error";
+  if (status >= 400) return "rejected";
+  return "ok";
+}
+
+/** The whole registry in Prometheus text format. */
+export function renderMetrics(): string {
+  return registry.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
+
+/** Clear every value (tests). */
+export function resetMetrics(): void {
+  for (const metric of registry) metric.reset();
+}
+
+// ─── Metrics ─────────────────────────────────────────────────────────────────
+
+export const httpRequests = new Counter<"method" | "route" | "status">(
+  "lienfi_http_requests_total",
+  "HTTP requests by method, route pattern and status."
+);
+
+export const httpDuration = new Histogram<"method" | "route">(
+  "lienfi_http_request_duration_seconds",
+  "HTTP request latency by method and route pattern."
+);
+
+export const bidsTotal = new Counter<"action" | "outcome" | "reason">(
+  "lienfi_bids_total",
+  "Bid submissions and withdrawals by outcome; reason is the error code of a rejection."
+);
+
+export const settlementDuration = new Histogram<"outcome">(
+  "lienfi_settlement_duration_seconds",
+  "POST /settle latency by outcome (ok, rejected, error)."
+);
+
+export const rpcDuration = new Histogram<"method" | "outcome">(
+  "lienfi_rpc_duration_seconds",
+  "Chain reads from chain.ts by function and outcome, including cached and retried calls."
+);
+
+export const loanRequestsTotal = new Counter<"outcome" | "reason">(
+  "lienfi_loan_requests_total",
+  "Loan request submissions by outcome; reason is the error code of a rejection."
+);
+
+export const indexerLagBlocks = new Gauge<never>(
+  "lienfi_indexer_lag_blocks",
+  "Confirmed blocks not yet indexed, as of the indexer's last poll."
+);
+
+export const indexerSynced = new Gauge<never>(
+  "lienfi_indexer_synced",
+  "1 while chain reads are served from the indexer's view, 0 while they fall back to RPC."
+);
+
+/**
+ * Observe `histogram` with the response's outcome once it has been sent —
+ * covers every return path of a route without touching each one.
+ */
+export function timeResponse(res: Response, histogram: Histogram<"outcome">): void {
+  const start = process.hrtime.bigint();
+  res.once("finish", () => {
+    histogram.observe({ outcome: outcomeOf(res.statusCode) }, secondsSince(start));
+  });
+}
@@ -0,0 +1,182 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { AnyZodObject } from "zod";
+import { buildOpenApiDocument, OPERATIONS } from "./openapi";
+import { renderAmortization, renderClient } from "./clientgen";
+import { SCOPES } from "./auth";
+import {
+  apiErrorResponse,
+  auditLogResponse,
+  auctionListResponse,
+  auctionStatusResponse,
+  healthResponse,
+  loanRequestDetails,
+  loanRequestReceipt,
+  verifyPropertyResponse,
+  type ApiErrorResponse,
+  type AuditLogResponse,
+  type LoanRequestReceipt,
+  type VerifyPropertyResponse,
+} from "./schemas";
+import { tempDir, testKey, useTestApp } from "./testing";
+
+// Drift checks between the routes, the OpenAPI document and the generated
+// client in cre-workflows/api-client.
+
+const CLIENT_DIR = path.resolve(__dirname, "../../../cre-workflows/api-client");
+const KEY = testKey("test", [...SCOPES]);
+
+const REGISTRY_FILE = path.join(tempDir(), "registry.json");
+fs.writeFileSync(
+  REGISTRY_FILE,
+  JSON.stringify({
+    properties: [
+      {
+        propertyId: "PROP-001",
+        address: "123 Main St, Austin TX",
+        titleDeedNumber: "TX-2024-00123",
+        appraisedValueUsd: 1_000_000,
+        ownerAddress: "0x" + "11".repeat(20),
+        titleClear: true,
+      },
+    ],
+  })
+);
+
+const app = useTestApp({
+  keys: [KEY],
+  env: { PROPERTY_REGISTRY_FILE: REGISTRY_FILE, COMMITMENT_PEPPER: crypto.randomBytes(32).toString("hex") },
+});
+
+const call = <T = unknown>(method: string, route: string, body?: unknown) => app.request<T>(KEY, method, route, body);
+
+/** Parse with unknown keys rejected, so an undocumented field fails too. */
+function assertMatches(schema: AnyZodObject, body: unknown): void {
+  const result = schema.strict().safeParse(body);
+  assert.ok(result.success, JSON.stringify(result.error?.issues));
+}
+
+test("every mounted route is documented with its scope, and every documented route is mounted", async () => {
+  const { protectedRoutes } = await import("../app");
+
+  // "METHOD /path" → scope from the route's requireScope ("" for public)
+  const mounted = new Map([["GET /health", ""]]);
+  for (const [prefix, router] of protectedRoutes) {
+    for (const layer of (router as any).stack) {
+      if (!layer.route) continue;
+      const suffix = layer.route.path === "/" ? "" : layer.route.path;
+      const openApiPath = (prefix + suffix).replace(/:(\w+)/g, "{$1}");
+      const scope = layer.route.stack.find((l: any) => l.handle.scope)?.handle.scope ?? "";
+      for (const method of Object.keys(layer.route.methods)) {
+        mounted.set(`${method.toUpperCase()} ${openApiPath}`, scope);
+      }
+    }
+  }
+
+  const documented = new Map(
+    OPERATIONS.map((op) => [`${op.method.toUpperCase()} ${op.path}`, op.scope ?? ""])
+  );
+  assert.deepEqual([...mounted].sort(), [...documented].sort());
+});
+
+test("GET /openapi.json serves the built document", async () => {
+  const res = await fetch(`${app.baseUrl}/openapi.json`);
+  assert.deepEqual(await res.json(), JSON.parse(JSON.stringify(buildOpenApiDocument())));
+});
+
+test("checked-in client matches the spec (run `npm run gen:client`)", () => {
+  const doc = buildOpenApiDocument();
+  const spec = fs.readFileSync(path.join(CLIENT_DIR, "openapi.json"), "utf8");
+  const client = fs.readFileSync(path.join(CLIENT_DIR, "index.ts"), "utf8");
+
+  assert.equal(spec, JSON.stringify(doc, null, 2) + "\n");
+  assert.equal(client, renderClient(doc));
+
+  const amortization = fs.readFileSync(path.join(CLIENT_DIR, "amortization.ts"), "utf8");
+  assert.equal(amortization, renderAmortization(fs.readFileSync(path.join(__dirname, "amortization.ts"), "utf8")));
+});
+
+test("responses match their documented schemas", async () => {
+  const seller = "0x" + "11".repeat(20);
+  const auctionId = "0x" + "ab".repeat(32);
+
+  const health = await fetch(`${app.baseUrl}/health`);
+  assertMatches(healthResponse, await health.json());
+
+  const verified = await call<VerifyPropertyResponse>("POST", "/verify-property", {
+    propertyId: "PROP-001",
+    sellerAddress: seller,
+  });
+  assert.equal(verified.status, 200);
+  assertMatches(verifyPropertyResponse, verified.body);
+
+  const notFound = await call("POST", "/verify-property", {
+    propertyId: "PROP-404",
+    sellerAddress: seller,
+  });
+  assertMatches(verifyPropertyResponse, notFound.body);
+
+  const submitted = await call<LoanRequestReceipt>("POST", "/loan-request", {
+    borrowerAddress: seller,
+    plaidToken: "access-sandbox-test",
+    tokenId: verified.body.tokenId,
+    requestedAmount: "500000000000",
+    tenureMonths: 360,
+    nonce: 1,
+  });
+  assert.equal(submitted.status, 200);
+  assertMatches(loanRequestReceipt, submitted.body);
+
+  const fetched = await call("GET", `/loan-request/${submitted.body.requestHash}`);
+  assert.equal(fetched.status, 200);
+  assertMatches(loanRequestDetails, fetched.body);
+
+  const status = await call("GET", `/status/${auctionId}`);
+  assertMatches(auctionStatusResponse, status.body);
+
+  const list = await call("GET", "/auctions?state=open&limit=10");
+  assert.equal(list.status, 200);
+  assertMatches(auctionListResponse, list.body);
+
+  const audit = await call<AuditLogResponse>("GET", "/audit?limit=10");
+  assert.equal(audit.status, 200);
+  assertMatches(auditLogResponse, audit.body);
+  assert.ok(audit.body.entries.length > 0);
+});
+
+test("errors use the ApiError body", async () => {
+  const cases = [
+    await call<ApiErrorResponse>("POST", "/bid", {}),
+    await call<ApiErrorResponse>("POST", "/bid", { auctionId: "0x12" }),
+    await call<ApiErrorResponse>("GET", "/auctions?limit=0"),
+    await call<ApiErrorResponse>("GET", `/loan-request/0x${"00".repeat(32)}`),
+    await call<ApiErrorResponse>("POST", "/loan-request", {
+      borrowerAddress: "0x" + "22".repeat(20),
+      plaidToken: "t",
+      tokenId: 9999,
+      requestedAmount: "1",
+      tenureMonths: 12,
+      nonce: 0,
+    }),
+    await call<ApiErrorResponse>("POST", "/loan-request", {
+      borrowerAddress: "0x" + "22".repeat(20),
+      plaidToken: "t",
+      tokenId: 1,
+      requestedAmount: "1",
+      tenureMonths: 5_000_000,
+      nonce: 0,
+    }),
+  ];
+
+  for (const { status, body } of cases) {
+    assert.ok(status >= 400, `expected an error status, got ${status}`);
+    assertMatches(apiErrorResponse, body);
+  }
+  assert.equal(cases[0].body.code, "MISSING_FIELD");
+  assert.equal(cases[1].body.field, "auctionId");
+  assert.equal(cases[5].status, 400);
+  assert.equal(cases[5].body.field, "tenureMonths");
+});
@@ -0,0 +1,329 @@
+import {
+  OpenAPIRegistry,
+  OpenApiGeneratorV3,
+  type RouteConfig,
+} from "@asteasolutions/zod-to-openapi";
+import type { AnyZodObject, ZodTypeAny } from "zod";
+import type { Scope } from "./auth";
+import {
+  apiErrorResponse,
+  auditLogResponse,
+  auditQuery,
+  auctionDetailResponse,
+  auctionFormat,
+  auctionFormatResponse,
+  auctionIdParams,
+  auctionListResponse,
+  auctionStatusResponse,
+  bidBody,
+  bidProofResponse,
+  bidResponse,
+  healthResponse,
+  listAuctionsQuery,
+  loanRequestBody,
+  loanRequestDetails,
+  loanRequestReceipt,
+  proofParams,
+  reconciliationReport,
+  registerAuctionBody,
+  repaymentSchedule,
+  requestHashParams,
+  revealBody,
+  revealResponse,
+  scheduleQuery,
+  settleBody,
+  settleResponse,
+  signedRankingReport,
+  tokenIdParams,
+  verifyPropertyBody,
+  verifyPropertyResponse,
+  withdrawBody,
+} from "./schemas";
+
+/**
+ * OpenAPI 3 description of the API, built from the zod schemas the routes
+ * validate with. Served at GET /openapi.json; `npm run gen:client` turns it
+ * into cre-workflows/api-client.
+ */
+
+export interface Operation {
+  operationId: string; // also the generated client's function name
+  method: "get" | "post" | "put";
+  path: string;        // OpenAPI style: /auctions/{auctionId}
+  summary: string;
+  public?: boolean;    // no request signature
+  scope?: Scope;       // required unless public — must match the route's requireScope
+  params?: AnyZodObject;
+  query?: AnyZodObject;
+  body?: ZodTypeAny;
+  status?: 200 | 201;
+  response: ZodTypeAny;
+  errors: number[];    // statuses answered with an ApiError body (401/403 added when signed)
+}
+
+export const OPERATIONS: Operation[] = [
+  {
+    operationId: "health",
+    method: "get",
+    path: "/health",
+    summary: "Health check",
+    public: true,
+    response: healthResponse,
+    errors: [],
+  },
+  {
+    operationId: "submitBid",
+    method: "post",
+    path: "/bid",
+    summary: "Submit or revise a signed bid",
+    scope: "bid",
+    body: bidBody,
+    response: bidResponse,
+    errors: [400, 403, 429, 500, 502],
+  },
+  {
+    operationId: "withdrawBid",
+    method: "post",
+    path: "/bid/withdraw",
+    summary: "Withdraw a live bid",
+    scope: "bid",
+    body: withdrawBody,
+    response: bidResponse,
+    errors: [400, 403, 429, 500],
+  },
+  {
+    operationId: "settleAuction",
+    method: "post",
+    path: "/settle",
+    summary: "Run settlement for an expired auction",
+    scope: "settle",
+    body: settleBody,
+    response: settleResponse,
+    errors: [400, 409, 500, 502],
+  },
+  {
+    operationId: "getBidProof",
+    method: "get",
+    path: "/settle/{auctionId}/proof/{bidHash}",
+    summary: "Inclusion proof for one bid in a settled auction",
+    scope: "audit",
+    params: proofParams,
+    response: bidProofResponse,
+    errors: [400, 404, 500],
+  },
+  {
+    operationId: "getRankingReport",
+    method: "get",
+    path: "/settle/{auctionId}/report",
+    summary: "Signed ranking report for auditors",
+    scope: "audit",
+    params: auctionIdParams,
+    response: signedRankingReport,
+    errors: [400, 404, 500],
+  },
+  {
+    operationId: "getAuctionStatus",
+    method: "get",
+    path: "/status/{auctionId}",
+    summary: "Live bid count, deadline and settled state",
+    scope: "auctions",
+    params: auctionIdParams,
+    response: auctionStatusResponse,
+    errors: [400, 500],
+  },
+  {
+    operationId: "verifyProperty",
+    method: "post",
+    path: "/verify-property",
+    summary: "Verify a property for tokenization",
+    scope: "verify",
+    body: verifyPropertyBody,
+    response: verifyPropertyResponse,
+    errors: [400, 500, 502],
+  },
+  {
+    operationId: "revealPropertyPreimage",
+    method: "post",
+    path: "/verify-property/{tokenId}/reveal",
+    summary: "Commitment preimage for the property's owner or auction winner",
+    scope: "reveal",
+    params: tokenIdParams,
+    body: revealBody,
+    response: revealResponse,
+    errors: [400, 403, 404, 409, 500, 502],
+  },
+  {
+    operationId: "submitLoanRequest",
+    method: "post",
+    path: "/loan-request",
+    summary: "Store loan request details and return their hash",
+    scope: "loan-write",
+    body: loanRequestBody,
+    response: loanRequestReceipt,
+    errors: [400, 409, 500],
+  },
+  {
+    operationId: "getLoanRequest",
+    method: "get",
+    path: "/loan-request/{requestHash}",
+    summary: "Loan request details, including the Plaid token",
+    scope: "loan-read",
+    params: requestHashParams,
+    response: loanRequestDetails,
+    errors: [400, 404, 500],
+  },
+  {
+    operationId: "getRepaymentSchedule",
+    method: "get",
+    path: "/loan-request/{requestHash}/schedule",
+    summary: "Month-by-month repayment schedule (exact integer amortization)",
+    scope: "loan-read",
+    params: requestHashParams,
+    query: scheduleQuery,
+    response: repaymentSchedule,
+    errors: [400, 404, 500],
+  },
+  {
+    operationId: "listAuctions",
+    method: "get",
+    path: "/auctions",
+    summary: "List auctions known to the store",
+    scope: "auctions",
+    query: listAuctionsQuery,
+    response: auctionListResponse,
+    errors: [400, 500],
+  },
+  {
+    operationId: "registerAuction",
+    method: "post",
+    path: "/auctions",
+    summary: "Register an auction created on-chain (201 if new, 200 if known)",
+    scope: "auctions",
+    body: registerAuctionBody,
+    status: 201,
+    response: auctionDetailResponse,
+    errors: [400, 404, 409, 500, 502],
+  },
+  {
+    operationId: "getAuction",
+    method: "get",
+    path: "/auctions/{auctionId}",
+    summary: "Auction detail with its on-chain record",
+    scope: "auctions",
+    params: auctionIdParams,
+    response: auctionDetailResponse,
+    errors: [400, 404, 500, 502],
+  },
+  {
+    operationId: "setAuctionFormat",
+    method: "put",
+    path: "/auctions/{auctionId}/format",
+    summary: "Set the settlement format before the first bid",
+    scope: "auctions",
+    params: auctionIdParams,
+    body: auctionFormat,
+    response: auctionFormatResponse,
+    errors: [400, 404, 409, 500],
+  },
+  {
+    operationId: "reconcileAuction",
+    method: "get",
+    path: "/auctions/{auctionId}/reconcile",
+    summary: "Compare stored bids with on-chain bid hashes",
+    scope: "auctions",
+    params: auctionIdParams,
+    response: reconciliationReport,
+    errors: [400, 404, 500, 502],
+  },
+  {
+    operationId: "listAuditEntries",
+    method: "get",
+    path: "/audit",
+    summary: "Hash-chained audit log of bid, settlement, verification and loan decisions",
+    scope: "audit",
+    query: auditQuery,
+    response: auditLogResponse,
+    errors: [400, 500],
+  },
+];
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Invalid request or business rule violation",
+  401: "Missing, unknown or inactive API key, bad request signature, or replay",
+  403: "API key lacks the route's scope (or, for bids and reveals, invalid EIP-712 signature or requester not entitled)",
+  404: "Not found",
+  409: "Conflict with current state",
+  429: "Rate limited — retry after `retryAfter` seconds",
+  500: "Internal error or server misconfigured",
+  502: "Chain RPC or property registry unavailable",
+};
+
+const AUTH_ERRORS = [401, 403];
+
+const SIGNATURE_SCHEMES = {
+  ApiKeyId: "X-Api-Key-Id",
+  ApiTimestamp: "X-Api-Timestamp",
+  ApiSignature: "X-Api-Signature",
+};
+
+function toRouteConfig(op: Operation): RouteConfig {
+  const errors = op.public ? op.errors : [...new Set([...AUTH_ERRORS, ...op.errors])].sort((a, b) => a - b);
+  const responses: RouteConfig["responses"] = {
+    [op.status ?? 200]: {
+      description: "Success",
+      content: { "application/json": { schema: op.response } },
+    },
+  };
+  for (const status of errors) {
+    responses[status] = {
+      description: ERROR_DESCRIPTIONS[status],
+      content: { "application/json": { schema: apiErrorResponse } },
+    };
+  }
+
+  return {
+    method: op.method,
+    path: op.path,
+    operationId: op.operationId,
+    summary: op.summary,
+    description: op.scope && `Requires an API key with the \`${op.scope}\` scope.`,
+    security: op.public ? [] : [{ ApiKeyId: [], ApiTimestamp: [], ApiSignature: [] }],
+    request: {
+      params: op.params,
+      query: op.query,
+      body: op.body && {
+        required: true,
+        content: { "application/json": { schema: op.body } },
+      },
+    },
+    responses,
+  };
+}
+
+export function buildOpenApiDocument() {
+  const registry = new OpenAPIRegistry();
+  for (const [scheme, header] of Object.entries(SIGNATURE_SCHEMES)) {
+    registry.registerComponent("securitySchemes", scheme, {
+      type: "apiKey",
+      in: "header",
+      name: header,
+    });
+  }
+  for (const op of OPERATIONS) {
+    registry.registerPath(toRouteConfig(op));
+  }
+
+  return new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: "3.0.3",
+    info: {
+      title: "LienFi Private API",
+      version: "1.0.0",
+      description:
+        "Called via Confidential HTTP from the CRE workflows. Every non-2xx response is an ApiError. " +
+        "Signed requests carry X-Api-Key-Id, X-Api-Timestamp (unix seconds) and X-Api-Signature: " +
+        "hex HMAC-SHA256 of METHOD\\nPATH?QUERY\\nTIMESTAMP\\nBODY under the key's secret. " +
+        "An X-Request-Id header (up to 128 of A-Z a-z 0-9 _ . : -) is echoed back and tags the API's logs; " +
+        "one is generated when absent.",
+    },
+  });
+}
@@ -0,0 +1,132 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { listAudit } from "./audit";
+import { bidsTotal } from "./metrics";
+import { RateLimiter, bidderLimiter, auctionLimiter } from "./rateLimit";
+import { rpcCall, RpcBusyError } from "./rpc";
+import type { ApiErrorResponse } from "./schemas";
+import { testKey, useTestApp } from "./testing";
+
+// Bid rate limits, their ordering against signature checks and RPC, and the
+// RPC concurrency cap.
+
+const KEY = testKey("bid", ["bid"]);
+const AUCTION_ID = "0x" + "cd".repeat(32);
+
+const app = useTestApp({
+  keys: [KEY],
+  env: {
+    // Nothing listens here: a bid that gets past the limits fails fast with 502
+    RPC_URLS: "http://127.0.0.1:9",
+    RPC_RETRIES: "1",
+  },
+});
+
+beforeEach(() => {
+  bidderLimiter.reset();
+  auctionLimiter.reset();
+  delete process.env.BID_RATE_PER_BIDDER;
+  delete process.env.BID_RATE_PER_AUCTION;
+});
+
+async function signedBid(wallet: ethers.BaseWallet, nonce: number, signer: ethers.BaseWallet = wallet) {
+  const message = { auctionId: AUCTION_ID, bidder: wallet.address, amount: "1000000", nonce };
+  const signature = await signer.signTypedData(
+    { name: "LienFi", version: "1", chainId: 11155111, verifyingContract: ethers.ZeroAddress },
+    {
+      Bid: [
+        { name: "auctionId", type: "bytes32" },
+        { name: "bidder", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+      ],
+    },
+    message
+  );
+  return { ...message, signature };
+}
+
+type RateLimitedResponse = ApiErrorResponse & { limit: string; retryAfter: number };
+
+const postBid = (bid: object) => app.request<RateLimitedResponse>(KEY, "POST", "/bid", bid);
+
+test("a bucket allows its burst, then refills at perMinute / 60 per second", () => {
+  process.env.TEST_RATE = "2";
+  const limiter = new RateLimiter("bidder", "TEST_RATE", 10);
+  const t0 = 1_000_000;
+
+  assert.deepEqual(limiter.take("a", t0), { ok: true });
+  assert.deepEqual(limiter.take("a", t0), { ok: true });
+  assert.deepEqual(limiter.take("a", t0), { ok: false, retryAfter: 30 });
+  assert.deepEqual(limiter.take("b", t0), { ok: true }); // keys are independent
+  assert.deepEqual(limiter.take("a", t0 + 30_000), { ok: true });
+
+  process.env.TEST_RATE = "0"; // disabled
+  assert.deepEqual(limiter.take("a", t0 + 30_000), { ok: true });
+  delete process.env.TEST_RATE;
+});
+
+test("a bidder over the limit gets 429 with Retry-After before any RPC", async () => {
+  process.env.BID_RATE_PER_BIDDER = "1";
+  const bidder = ethers.Wallet.createRandom();
+
+  const first = await postBid(await signedBid(bidder, 1));
+  assert.equal(first.status, 502); // reached the (dead) RPC
+
+  const second = await postBid(await signedBid(bidder, 2));
+  assert.equal(second.status, 429);
+  assert.equal(second.headers.get("retry-after"), "60");
+  assert.deepEqual(second.body, {
+    code: "RATE_LIMITED",
+    message: "Too many bids from this bidder",
+    limit: "bidder",
+    retryAfter: 60,
+  });
+});
+
+test("badly signed bids are refused, unaudited, before they count against anyone's limit", async () => {
+  process.env.BID_RATE_PER_BIDDER = "1";
+  const bidder = ethers.Wallet.createRandom();
+  const attacker = ethers.Wallet.createRandom();
+
+  const before = bidsTotal.get({ action: "submit", outcome: "rejected", reason: "INVALID_SIGNATURE" });
+  for (let nonce = 1; nonce <= 3; nonce++) {
+    const forged = await postBid(await signedBid(bidder, nonce, attacker));
+    assert.equal(forged.status, 403);
+  }
+  assert.equal((await postBid(await signedBid(bidder, 4))).status, 502);
+
+  // Counted, but kept out of the append-only audit log
+  assert.equal(bidsTotal.get({ action: "submit", outcome: "rejected", reason: "INVALID_SIGNATURE" }), before + 3);
+  assert.deepEqual(listAudit({ after: 0, limit: 100, kind: "bid.rejected" }).entries, []);
+});
+
+test("the per-auction limit applies across bidders", async () => {
+  process.env.BID_RATE_PER_AUCTION = "1";
+
+  assert.equal((await postBid(await signedBid(ethers.Wallet.createRandom(), 1))).status, 502);
+  const res = await postBid(await signedBid(ethers.Wallet.createRandom(), 1));
+  assert.equal(res.status, 429);
+  assert.equal(res.body.limit, "auction");
+});
+
+test("chain lookups past the concurrency cap and its queue fail with RpcBusyError", async () => {
+  process.env.RPC_MAX_CONCURRENCY = "1";
+  process.env.RPC_MAX_QUEUE = "1";
+  try {
+    let release!: () => void;
+    const held = rpcCall(() => new Promise<void>((resolve) => (release = resolve)));
+    const queued = rpcCall(async () => "queued");
+
+    await assert.rejects(rpcCall(async () => "over"), RpcBusyError);
+
+    release();
+    await held;
+    assert.equal(await queued, "queued");
+    assert.equal(await rpcCall(async () => "free"), "free"); // slots handed back
+  } finally {
+    delete process.env.RPC_MAX_CONCURRENCY;
+    delete process.env.RPC_MAX_QUEUE;
+  }
+});
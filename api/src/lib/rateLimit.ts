@@ -0,0 +1,90 @@
+import type { Response } from "express";
+import { sendError } from "./errors";
+
+/**
+ * Token-bucket rate limits for bid traffic. Each key (a bidder address, an
+ * auction id) gets a bucket of `perMinute` tokens that refills continuously;
+ * a request takes one token or is refused with the seconds until the next
+ * one. Buckets live in memory — limits are per API process.
+ *
+ * Env (requests per minute, 0 disables):
+ *   BID_RATE_PER_BIDDER  = per bidder address, bids and withdrawals (default 10)
+ *   BID_RATE_PER_AUCTION = per auction, all bidders together (default 300)
+ */
+
+export type RateLimitName = "bidder" | "auction" | "chain";
+
+export type RateLimitResult = { ok: true } | { ok: false; retryAfter: number }; // seconds
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number; // ms
+}
+
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private lastPrune = 0;
+
+  constructor(
+    readonly name: RateLimitName,
+    private readonly envVar: string,
+    private readonly defaultPerMinute: number
+  ) {}
+
+  private perMinute(): number {
+    const configured = process.env[this.envVar];
+    return configured === undefined || configured === "" ? this.defaultPerMinute : Number(configured);
+  }
+
+  /** Take a token for `key`, or say how long until one is available. */
+  take(key: string, now = Date.now()): RateLimitResult {
+    const capacity = this.perMinute();
+    if (!(capacity > 0)) return { ok: true };
+    const refillPerMs = capacity / 60_000;
+
+    this.prune(now, capacity / refillPerMs);
+
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return { ok: false, retryAfter: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    }
+    bucket.tokens -= 1;
+    return { ok: true };
+  }
+
+  /** Drop buckets idle long enough to have refilled — they'd start full anyway. */
+  private prune(now: number, fullAfterMs: number): void {
+    if (now - this.lastPrune < 60_000) return;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= fullAfterMs) this.buckets.delete(key);
+    }
+    this.lastPrune = now;
+  }
+
+  /** Forget every bucket (tests). */
+  reset(): void {
+    this.buckets = new Map();
+    this.lastPrune = 0;
+  }
+}
+
+export const bidderLimiter = new RateLimiter("bidder", "BID_RATE_PER_BIDDER", 10);
+export const auctionLimiter = new RateLimiter("auction", "BID_RATE_PER_AUCTION", 300);
+
+/**
+ * 429 with a Retry-After header and the same value in the body, so the
+ * workflow can report which limit it hit and when to try again.
+ */
+export function sendRateLimited(res: Response, limit: RateLimitName, retryAfter: number): void {
+  const messages: Record<RateLimitName, string> = {
+    bidder: "Too many bids from this bidder",
+    auction: "Too many bids for this auction",
+    chain: "Chain lookups at capacity",
+  };
+  res.setHeader("Retry-After", String(retryAfter));
+  sendError(res, 429, "RATE_LIMITED", messages[limit], { limit, retryAfter });
+}
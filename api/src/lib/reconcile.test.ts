@@ -0,0 +1,106 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "crypto";
+import { ethers } from "ethers";
+import { reconcileBids } from "./reconcile";
+import { getBids, storeBid, withdrawBid } from "./store";
+import { setStorage, MemoryBackend } from "./storage";
+import { settleAuction } from "./formats";
+
+// Stored bids against LienFiAuction.bidHashes / bidRevoked, and what the
+// settlement then commits to.
+
+process.env.STORE_KEKS = `test:${crypto.randomBytes(32).toString("hex")}`;
+process.env.STORE_KEK_ACTIVE = "test";
+
+const AUCTION_ID = "0x" + "ab".repeat(32);
+
+const address = (n: number) => "0x" + n.toString(16).padStart(2, "0").repeat(20);
+const hash = (n: number) => "0x" + n.toString(16).padStart(2, "0").repeat(32);
+
+function bid(bidder: number, nonce: number, bidHash: string, amount = 100n): void {
+  const written = storeBid({
+    auctionId: AUCTION_ID,
+    bidder: address(bidder),
+    nonce,
+    bidHash,
+    timestamp: 1_000 + nonce,
+    amount: amount.toString(),
+    signature: "0x" + "22".repeat(65),
+  });
+  assert.equal(written.ok, true);
+}
+
+beforeEach(() => {
+  setStorage(new MemoryBackend());
+});
+
+test("only bids live in the store and live on-chain are counted", () => {
+  bid(1, 1, hash(0x1a));                      // registered and live, hash in another case
+  bid(2, 1, hash(0x21));                      // revised: the first hash is revoked on-chain
+  bid(2, 2, hash(0x22));
+  bid(3, 1, hash(0x31));                      // its report never landed
+  bid(4, 1, hash(0x41));                      // revoked on-chain, still live here
+  bid(5, 1, hash(0x51));                      // withdrawn here, revoke report not landed
+  withdrawBid(AUCTION_ID, address(5), 2);
+
+  const onChain = [
+    { bidHash: "0x" + "1A".repeat(32), revoked: false },
+    { bidHash: hash(0x21), revoked: true },
+    { bidHash: hash(0x22), revoked: false },
+    { bidHash: hash(0x41), revoked: true },
+    { bidHash: hash(0x51), revoked: false },
+    { bidHash: hash(0x61), revoked: false }, // no stored bid
+    { bidHash: hash(0x71), revoked: true },  // no stored bid, but revoked
+  ];
+
+  const { bids, report } = reconcileBids(AUCTION_ID, getBids(AUCTION_ID), onChain);
+  assert.deepEqual(bids.map((b) => b.bidHash), [hash(0x1a), hash(0x22)]);
+  assert.deepEqual(report, {
+    auctionId: AUCTION_ID,
+    onChainCount: 7,
+    storedCount: 6,
+    counted: [hash(0x1a), hash(0x22)],
+    unregistered: [hash(0x31)],
+    revokedOnChain: [hash(0x41)],
+    revokePending: [hash(0x51)],
+    orphaned: [hash(0x61)],
+    consistent: false,
+  });
+});
+
+test("matching views are consistent and count every live bid", () => {
+  bid(1, 1, hash(0x11));
+  bid(1, 2, hash(0x12));
+  bid(2, 1, hash(0x21));
+
+  const { report } = reconcileBids(AUCTION_ID, getBids(AUCTION_ID), [
+    { bidHash: hash(0x11), revoked: true },
+    { bidHash: hash(0x12), revoked: false },
+    { bidHash: hash(0x21), revoked: false },
+  ]);
+  assert.deepEqual(report.counted, [hash(0x12), hash(0x21)]);
+  assert.equal(report.consistent, true);
+});
+
+test("a bid revoked or missing on-chain can't win and isn't committed", () => {
+  bid(1, 1, hash(0x11), 500n); // highest, but never registered
+  bid(2, 1, hash(0x21), 400n); // highest registered, but revoked on-chain
+  bid(3, 1, hash(0x31), 300n);
+  bid(4, 1, hash(0x41), 200n);
+
+  const { bids } = reconcileBids(AUCTION_ID, getBids(AUCTION_ID), [
+    { bidHash: hash(0x21), revoked: true },
+    { bidHash: hash(0x31), revoked: false },
+    { bidHash: hash(0x41), revoked: false },
+  ]);
+  const funding = {
+    blockNumber: 1,
+    bidders: new Map([1, 2, 3, 4].map((n) => [address(n), { balance: 10n ** 9n, lockExpiry: 2n ** 64n }])),
+  };
+  const { result } = settleAuction({ kind: "vickrey" }, bids, 0n, 0n, funding, ethers.Wallet.createRandom().privateKey);
+
+  assert.equal(result.winner, address(3));
+  assert.equal(result.price, "200");
+  assert.deepEqual(result.proof.bidHashes, [hash(0x31), hash(0x41)]);
+});
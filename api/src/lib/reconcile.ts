@@ -0,0 +1,93 @@
+import { StoredBid, getBids } from "./store";
+import { getBidHashesOnChain, type BidHashOnChain } from "./chain";
+
+/**
+ * Off-chain vs on-chain bid reconciliation.
+ *
+ * A bid is stored by POST /bid before the bid-workflow's writeReport lands,
+ * so the two views can drift if that report fails (or a revision's report
+ * does). Settlement must only count bids the contract also considers live.
+ */
+
+export interface ReconciliationReport {
+  auctionId: string;
+  onChainCount: number;   // all registered hashes, including revoked
+  storedCount: number;    // all stored bids, including superseded/withdrawn
+  counted: string[];      // live in store and live on-chain — settled on
+  unregistered: string[]; // live in store, never registered on-chain — excluded
+  revokedOnChain: string[]; // live in store, revoked on-chain — excluded
+  revokePending: string[];  // superseded/withdrawn in store, still live on-chain
+  orphaned: string[];       // live on-chain with no stored bid
+  consistent: boolean;      // true if every list other than `counted` is empty
+}
+
+export interface Reconciliation {
+  bids: StoredBid[]; // the `counted` bids
+  report: ReconciliationReport;
+}
+
+/**
+ * Compare an auction's stored bids with LienFiAuction.bidHashes.
+ */
+export async function reconcileAuction(auctionId: string): Promise<Reconciliation> {
+  return reconcileBids(auctionId, getBids(auctionId), await getBidHashesOnChain(auctionId));
+}
+
+/**
+ * The comparison behind reconcileAuction(), over bids and hashes already read.
+ */
+export function reconcileBids(
+  auctionId: string,
+  stored: StoredBid[],
+  onChain: BidHashOnChain[]
+): Reconciliation {
+  const chainStatus: Map<string, boolean> = new Map(
+    onChain.map((h) => [h.bidHash.toLowerCase(), h.revoked])
+  );
+  const storedHashes = new Set(stored.map((b) => b.bidHash.toLowerCase()));
+
+  const bids: StoredBid[] = [];
+  const unregistered: string[] = [];
+  const revokedOnChain: string[] = [];
+  const revokePending: string[] = [];
+
+  for (const bid of stored) {
+    const revoked = chainStatus.get(bid.bidHash.toLowerCase());
+
+    if (bid.status !== "live") {
+      if (revoked === false) revokePending.push(bid.bidHash);
+      continue;
+    }
+
+    if (revoked === undefined) {
+      unregistered.push(bid.bidHash);
+    } else if (revoked) {
+      revokedOnChain.push(bid.bidHash);
+    } else {
+      bids.push(bid);
+    }
+  }
+
+  const orphaned = onChain
+    .filter((h) => !h.revoked && !storedHashes.has(h.bidHash.toLowerCase()))
+    .map((h) => h.bidHash);
+
+  return {
+    bids,
+    report: {
+      auctionId,
+      onChainCount: onChain.length,
+      storedCount: stored.length,
+      counted: bids.map((b) => b.bidHash),
+      unregistered,
+      revokedOnChain,
+      revokePending,
+      orphaned,
+      consistent:
+        unregistered.length === 0 &&
+        revokedOnChain.length === 0 &&
+        revokePending.length === 0 &&
+        orphaned.length === 0,
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import { setStorage, SqliteBackend } from "./storage";
+import {
+  FileRegistry,
+  HttpRegistry,
+  RegistryUnavailableError,
+  createMockTitleRegistry,
+  parseCsv,
+  setPropertyRegistry,
+} from "./registry";
+import type { ApiErrorResponse, VerifyPropertyResponse } from "./schemas";
+import { tempDir, testKey, useTestApp } from "./testing";
+
+// File and HTTP registry adapters, owner matching and tokenization that
+// survives a restart.
+
+const OWNER = "0x" + "11".repeat(20);
+const STRANGER = "0x" + "22".repeat(20);
+const KEY = testKey("verify", ["verify"]);
+
+const CSV = [
+  "propertyId,address,titleDeedNumber,appraisedValueUsd,ownerAddress,titleClear",
+  `PROP-001,"123 Main St, Austin TX",TX-2024-00123,1000000,${OWNER},true`,
+  `PROP-003,"789 Sunset Blvd, Los Angeles CA",CA-2024-00789,800000,${OWNER},false`,
+  "",
+].join("\n");
+
+const dir = tempDir();
+fs.writeFileSync(path.join(dir, "registry.csv"), CSV);
+
+const app = useTestApp({ keys: [KEY], env: { COMMITMENT_PEPPER: crypto.randomBytes(32).toString("hex") } });
+
+const verify = (propertyId: string, sellerAddress: string) =>
+  app.request<VerifyPropertyResponse & ApiErrorResponse>(KEY, "POST", "/verify-property", { propertyId, sellerAddress });
+
+test("CSV cells may be quoted, with commas and escaped quotes", () => {
+  assert.deepEqual(parseCsv('a,b\r\n"x, y","say ""hi"""\n\n'), [{ a: "x, y", b: 'say "hi"' }]);
+});
+
+test("the file registry validates records and refuses a malformed file", async () => {
+  const registry = new FileRegistry(path.join(dir, "registry.csv"));
+  const record = await registry.lookup("PROP-001");
+  assert.equal(record?.address, "123 Main St, Austin TX");
+  assert.equal(record?.appraisedValueUsd, 1_000_000);
+  assert.equal(record?.titleClear, true);
+  assert.equal((await registry.lookup("PROP-003"))?.titleClear, false);
+  assert.equal(await registry.lookup("PROP-404"), null);
+
+  const bad = path.join(dir, "bad.json");
+  fs.writeFileSync(bad, JSON.stringify({ properties: [{ propertyId: "PROP-9", ownerAddress: "nope" }] }));
+  await assert.rejects(new FileRegistry(bad).lookup("PROP-9"), RegistryUnavailableError);
+  await assert.rejects(new FileRegistry(path.join(dir, "missing.json")).lookup("PROP-1"), RegistryUnavailableError);
+});
+
+test("the HTTP registry reads the mock title registry, with its token", async () => {
+  const mock = createMockTitleRegistry(new FileRegistry(path.join(dir, "registry.csv")), "registry-token").listen(0);
+  await new Promise((resolve) => mock.once("listening", resolve));
+  const url = `http://127.0.0.1:${(mock.address() as AddressInfo).port}`;
+  try {
+    const registry = new HttpRegistry({ baseUrl: url, token: "registry-token", timeoutMs: 2000 });
+    assert.equal((await registry.lookup("PROP-001"))?.ownerAddress, OWNER);
+    assert.equal(await registry.lookup("PROP-404"), null);
+
+    const noToken = new HttpRegistry({ baseUrl: url, timeoutMs: 2000 });
+    await assert.rejects(noToken.lookup("PROP-001"), RegistryUnavailableError);
+  } finally {
+    mock.close();
+  }
+});
+
+test("only the registered owner can tokenize, and only once — across restarts", async () => {
+  const dbFile = path.join(dir, "lienfi.db");
+  setStorage(new SqliteBackend(dbFile));
+  setPropertyRegistry(new FileRegistry(path.join(dir, "registry.csv")));
+
+  const stranger = await verify("PROP-001", STRANGER);
+  assert.equal(stranger.body.valid, false);
+  assert.equal(stranger.body.message, "Seller is not the registered owner of this property");
+  assert.equal(stranger.body.appraisedValue, "0");
+
+  const pending = await verify("PROP-003", OWNER);
+  assert.equal(pending.body.valid, false);
+
+  const first = await verify("PROP-001", OWNER);
+  assert.equal(first.body.valid, true);
+  assert.equal(first.body.tokenId, 1);
+
+  setStorage(new SqliteBackend(dbFile)); // restart
+  const again = await verify("PROP-001", OWNER);
+  assert.equal(again.body.valid, false);
+  assert.equal(again.body.message, "Property already tokenized — cannot tokenize twice");
+});
+
+test("an unreachable registry is a 502, not an invalid verdict", async () => {
+  setPropertyRegistry(new HttpRegistry({ baseUrl: "http://127.0.0.1:9", timeoutMs: 500 }));
+  const res = await verify("PROP-001", OWNER);
+  assert.equal(res.status, 502);
+  assert.equal(res.body.code, "UPSTREAM_UNAVAILABLE");
+});
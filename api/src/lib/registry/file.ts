@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  registryRecordSchema,
+  RegistryUnavailableError,
+  type PropertyRegistry,
+  type RegistryRecord,
+} from "./types";
+
+/**
+ * Registry read from a local file — for development and demos.
+ *
+ *   .json  { "properties": [RegistryRecord, ...] }
+ *   .csv   header row of RegistryRecord field names, one property per line;
+ *          quote cells containing commas ("123 Main St, Austin TX")
+ *
+ * The file is re-read when its mtime changes, so records can be edited
+ * while the API runs.
+ */
+export class FileRegistry implements PropertyRegistry {
+  readonly name: string;
+  private cached: { mtimeMs: number; records: Map<string, RegistryRecord> } | null = null;
+
+  constructor(private readonly file: string) {
+    this.name = `file (${file})`;
+  }
+
+  async lookup(propertyId: string): Promise<RegistryRecord | null> {
+    return this.load().get(propertyId) ?? null;
+  }
+
+  private load(): Map<string, RegistryRecord> {
+    let mtimeMs: number;
+    let text: string;
+    try {
+      mtimeMs = fs.statSync(this.file).mtimeMs;
+      if (this.cached && this.cached.mtimeMs === mtimeMs) return this.cached.records;
+      text = fs.readFileSync(this.file, "utf8");
+    } catch (err) {
+      throw new RegistryUnavailableError(`Cannot read ${this.file}: ${(err as Error).message}`);
+    }
+
+    const rows = path.extname(this.file).toLowerCase() === ".csv" ? parseCsv(text) : parseJson(this.file, text);
+
+    const records: Map<string, RegistryRecord> = new Map();
+    rows.forEach((row, i) => {
+      const parsed = registryRecordSchema.safeParse(row);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new RegistryUnavailableError(
+          `Malformed ${this.file}: record ${i + 1} ${issue.path.join(".")} ${issue.message}`
+        );
+      }
+      if (records.has(parsed.data.propertyId)) {
+        throw new RegistryUnavailableError(`Malformed ${this.file}: duplicate propertyId ${parsed.data.propertyId}`);
+      }
+      records.set(parsed.data.propertyId, parsed.data);
+    });
+
+    this.cached = { mtimeMs, records };
+    return records;
+  }
+}
+
+function parseJson(file: string, text: string): unknown[] {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (err) {
+    throw new RegistryUnavailableError(`Malformed ${file}: ${(err as Error).message}`);
+  }
+  const properties = (doc as { properties?: unknown })?.properties;
+  if (!Array.isArray(properties)) {
+    throw new RegistryUnavailableError(`Malformed ${file}: expected { "properties": [...] }`);
+  }
+  return properties;
+}
+
+/** Rows as header → cell objects. Handles quoted cells and "" escapes. */
+export function parseCsv(text: string): Record<string, string>[] {
+  const lines: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      lines.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    lines.push(row);
+  }
+
+  const [header, ...body] = lines.filter((l) => l.some((c) => c.trim() !== ""));
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return body.map((cells) => Object.fromEntries(keys.map((k, i) => [k, (cells[i] ?? "").trim()])));
+}
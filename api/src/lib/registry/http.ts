@@ -0,0 +1,64 @@
+import {
+  registryRecordSchema,
+  RegistryUnavailableError,
+  type PropertyRegistry,
+  type RegistryRecord,
+} from "./types";
+
+export interface HttpRegistryConfig {
+  baseUrl: string;
+  token?: string;     // sent as a bearer token when set
+  timeoutMs: number;
+}
+
+/**
+ * Registry backed by a title-registry HTTP service:
+ *
+ *   GET {baseUrl}/properties/{propertyId}
+ *     200 → RegistryRecord JSON
+ *     404 → no such property
+ *
+ * Anything else — other statuses, timeouts, bodies that don't parse as a
+ * record — is a RegistryUnavailableError. `npm run mock-registry` serves a
+ * local file with this contract for development.
+ */
+export class HttpRegistry implements PropertyRegistry {
+  readonly name: string;
+
+  constructor(private readonly config: HttpRegistryConfig) {
+    this.name = `http (${config.baseUrl})`;
+  }
+
+  async lookup(propertyId: string): Promise<RegistryRecord | null> {
+    const url = `${this.config.baseUrl.replace(/\/+$/, "")}/properties/${encodeURIComponent(propertyId)}`;
+
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        headers: {
+          Accept: "application/json",
+          ...(this.config.token ? { Authorization: `Bearer ${this.config.token}` } : {}),
+        },
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+    } catch (err) {
+      throw new RegistryUnavailableError(`Title registry request failed: ${(err as Error).message}`);
+    }
+
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new RegistryUnavailableError(`Title registry answered ${res.status}`);
+    }
+
+    const parsed = registryRecordSchema.safeParse(await res.json().catch(() => null));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new RegistryUnavailableError(`Title registry sent a malformed record: ${issue.path.join(".")} ${issue.message}`);
+    }
+    // A registry answering for a different id is as bad as no answer
+    if (parsed.data.propertyId !== propertyId) {
+      throw new RegistryUnavailableError(`Title registry answered for ${parsed.data.propertyId}, not ${propertyId}`);
+    }
+    return parsed.data;
+  }
+}
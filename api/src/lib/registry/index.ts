@@ -0,0 +1,58 @@
+import { FileRegistry } from "./file";
+import { HttpRegistry } from "./http";
+import { log } from "../logger";
+import type { PropertyRegistry } from "./types";
+
+export {
+  registryRecordSchema,
+  RegistryUnavailableError,
+  type PropertyRegistry,
+  type RegistryRecord,
+} from "./types";
+export { FileRegistry, parseCsv } from "./file";
+export { HttpRegistry } from "./http";
+export { createMockTitleRegistry } from "./mock";
+
+let registry: PropertyRegistry | null = null;
+
+/**
+ * Build a registry from env config:
+ *   PROPERTY_REGISTRY            = "file" (default) | "http"
+ *   PROPERTY_REGISTRY_FILE       = .json or .csv path (default ./property-registry.json)
+ *   PROPERTY_REGISTRY_URL        = title-registry base URL (http)
+ *   PROPERTY_REGISTRY_TOKEN      = optional bearer token (http)
+ *   PROPERTY_REGISTRY_TIMEOUT_MS = per-lookup timeout (http, default 5000)
+ */
+function createRegistry(): PropertyRegistry {
+  const kind = process.env.PROPERTY_REGISTRY || "file";
+
+  switch (kind) {
+    case "file":
+      return new FileRegistry(process.env.PROPERTY_REGISTRY_FILE || "./property-registry.json");
+    case "http": {
+      const baseUrl = process.env.PROPERTY_REGISTRY_URL;
+      if (!baseUrl) throw new Error("PROPERTY_REGISTRY=http needs PROPERTY_REGISTRY_URL");
+      return new HttpRegistry({
+        baseUrl,
+        token: process.env.PROPERTY_REGISTRY_TOKEN || undefined,
+        timeoutMs: Number(process.env.PROPERTY_REGISTRY_TIMEOUT_MS || 5000),
+      });
+    }
+    default:
+      throw new Error(`Unknown PROPERTY_REGISTRY: ${kind}`);
+  }
+}
+
+/** Lazily build the configured registry on first use, after dotenv has run. */
+export function getPropertyRegistry(): PropertyRegistry {
+  if (!registry) {
+    registry = createRegistry();
+    log.info("REGISTRY", "Property registry opened", { registry: registry.name });
+  }
+  return registry;
+}
+
+/** Swap the active registry (tests inject a FileRegistry over a temp file). */
+export function setPropertyRegistry(next: PropertyRegistry): void {
+  registry = next;
+}
@@ -0,0 +1,31 @@
+import express from "express";
+import { RegistryUnavailableError, type PropertyRegistry } from "./types";
+
+/**
+ * A stand-in title-registry service answering HttpRegistry's contract from
+ * another registry (normally a FileRegistry). Used by
+ * `npm run mock-registry` and the registry tests.
+ */
+export function createMockTitleRegistry(source: PropertyRegistry, token?: string): express.Express {
+  const app = express();
+
+  app.get("/properties/:propertyId", async (req, res) => {
+    if (token && req.header("authorization") !== `Bearer ${token}`) {
+      res.status(401).json({ error: "unauthorized" });
+      return;
+    }
+    try {
+      const record = await source.lookup(req.params.propertyId);
+      if (!record) {
+        res.status(404).json({ error: "not found" });
+        return;
+      }
+      res.json(record);
+    } catch (err) {
+      const status = err instanceof RegistryUnavailableError ? 503 : 500;
+      res.status(status).json({ error: (err as Error).message });
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { address } from "../schemas";
+
+/** CSV cells arrive as strings; JSON and HTTP records carry real booleans. */
+const flag = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform((v) => v === "true"),
+]);
+
+/**
+ * One title record. File and HTTP registries both validate against this,
+ * so a malformed record fails loudly instead of verifying a property.
+ */
+export const registryRecordSchema = z.object({
+  propertyId: z.string().min(1),
+  address: z.string().min(1),           // street address
+  titleDeedNumber: z.string().min(1),
+  appraisedValueUsd: z.coerce.number().int().positive(),
+  ownerAddress: address,                // the only seller allowed to tokenize it
+  titleClear: flag,                     // false while the deed is pending clearance
+});
+
+export type RegistryRecord = z.infer<typeof registryRecordSchema>;
+
+/**
+ * The registry couldn't be read (file missing or malformed, HTTP registry
+ * down or answering garbage). Routes map it to a 502 — distinct from a
+ * registry that answered "no such property".
+ */
+export class RegistryUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RegistryUnavailableError";
+  }
+}
+
+/**
+ * Source of truth for property titles, behind POST /verify-property.
+ *
+ * Registries only answer lookups. Whether a property has already been
+ * tokenized is the API's own state and lives in storage (see
+ * store.tokenizeProperty), so it survives restarts whatever the adapter.
+ */
+export interface PropertyRegistry {
+  /** Adapter name, logged at startup. */
+  readonly name: string;
+
+  /** The title record, or null if the registry has no such property. */
+  lookup(propertyId: string): Promise<RegistryRecord | null>;
+}
@@ -0,0 +1,203 @@
+import { ethers } from "ethers";
+
+/**
+ * Shared JSON-RPC access for chain.ts.
+ *
+ * One long-lived provider per endpoint, tried in order: each call gets a
+ * timeout and a few retries per endpoint before falling through to the
+ * next. Contract-level failures (reverts, undecodable results) are not
+ * retried — they would fail the same way everywhere.
+ *
+ * Env:
+ *   RPC_URLS          — comma-separated endpoints, preferred first (falls back to RPC_URL)
+ *   RPC_TIMEOUT_MS    — per-attempt timeout (default 5000)
+ *   RPC_RETRIES       — attempts per endpoint (default 2)
+ *   RPC_CACHE_TTL_MS  — how long the latest block number is reused (default 2000)
+ *   RPC_MAX_CONCURRENCY — chain lookups in flight at once (default 8)
+ *   RPC_MAX_QUEUE     — lookups allowed to wait for a slot before RpcBusyError (default 32)
+ */
+
+/**
+ * Every endpoint failed or timed out. Routes map it to a 502 — distinct
+ * from a successful read that found nothing (e.g. AuctionNotFoundError).
+ */
+export class RpcUnavailableError extends Error {
+  constructor(
+    message: string,
+    public readonly causes: unknown[] = []
+  ) {
+    super(message);
+    this.name = "RpcUnavailableError";
+  }
+}
+
+/**
+ * The concurrency cap's queue is full. Nothing was sent — callers should
+ * back off (POST /bid answers 429) rather than wait behind the backlog.
+ */
+export class RpcBusyError extends Error {
+  constructor() {
+    super("Too many chain lookups in flight");
+    this.name = "RpcBusyError";
+  }
+}
+
+class RpcTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`RPC call timed out after ${ms}ms`);
+    this.name = "RpcTimeoutError";
+  }
+}
+
+let providers: ethers.JsonRpcProvider[] | null = null;
+
+export function rpcUrls(): string[] {
+  const urls = (process.env.RPC_URLS || process.env.RPC_URL || "https://rpc.sepolia.org")
+    .split(",")
+    .map((u) => u.trim())
+    .filter(Boolean);
+  return urls;
+}
+
+/**
+ * Providers are built on first use, after dotenv has run. The network is
+ * pinned from CHAIN_ID so a dead endpoint fails fast instead of retrying
+ * network detection in the background.
+ */
+function getProviders(): ethers.JsonRpcProvider[] {
+  if (!providers) {
+    const network = ethers.Network.from(Number(process.env.CHAIN_ID || 11155111));
+    providers = rpcUrls().map(
+      (url) => new ethers.JsonRpcProvider(url, network, { staticNetwork: network })
+    );
+  }
+  return providers;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new RpcTimeoutError(ms)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** Reverts and bad return data mean the call reached a node and failed there. */
+function isContractError(err: unknown): boolean {
+  return ethers.isError(err, "CALL_EXCEPTION") || ethers.isError(err, "BAD_DATA");
+}
+
+// ─── Concurrency Cap ─────────────────────────────────────────────────────────
+
+let inFlight = 0;
+const waiting: (() => void)[] = [];
+
+/** Wait for one of RPC_MAX_CONCURRENCY slots; RpcBusyError if the queue is full. */
+async function acquireSlot(): Promise<void> {
+  if (inFlight < Number(process.env.RPC_MAX_CONCURRENCY || 8)) {
+    inFlight++;
+    return;
+  }
+  if (waiting.length >= Number(process.env.RPC_MAX_QUEUE || 32)) {
+    throw new RpcBusyError();
+  }
+  await new Promise<void>((resolve) => waiting.push(resolve)); // slot handed over by releaseSlot
+}
+
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) next();
+  else inFlight--;
+}
+
+/**
+ * Run `fn` against each endpoint in order until one succeeds, holding one
+ * concurrency slot throughout (retries included).
+ */
+export async function rpcCall<T>(
+  fn: (provider: ethers.JsonRpcProvider) => Promise<T>
+): Promise<T> {
+  await acquireSlot();
+  try {
+    return await tryEndpoints(fn);
+  } finally {
+    releaseSlot();
+  }
+}
+
+async function tryEndpoints<T>(
+  fn: (provider: ethers.JsonRpcProvider) => Promise<T>
+): Promise<T> {
+  const timeoutMs = Number(process.env.RPC_TIMEOUT_MS || 5000);
+  const retries = Number(process.env.RPC_RETRIES || 2);
+  const causes: unknown[] = [];
+
+  for (const provider of getProviders()) {
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      try {
+        return await withTimeout(fn(provider), timeoutMs);
+      } catch (err) {
+        if (isContractError(err)) throw err;
+        causes.push(err);
+        if (attempt < retries) {
+          await new Promise((r) => setTimeout(r, 200 * attempt));
+        }
+      }
+    }
+  }
+
+  throw new RpcUnavailableError(
+    `All ${getProviders().length} RPC endpoint(s) failed`,
+    causes
+  );
+}
+
+// ─── Block-Keyed Read Cache ──────────────────────────────────────────────────
+
+let latestBlock: { number: number; fetchedAt: number } | null = null;
+let blockFetch: Promise<number> | null = null;
+let cachedReads: Map<string, Promise<unknown>> = new Map();
+
+/**
+ * Latest block number, reused for RPC_CACHE_TTL_MS. Cached reads are
+ * dropped whenever it moves.
+ */
+export async function getLatestBlock(): Promise<number> {
+  const ttlMs = Number(process.env.RPC_CACHE_TTL_MS || 2000);
+  if (latestBlock && Date.now() - latestBlock.fetchedAt < ttlMs) {
+    return latestBlock.number;
+  }
+
+  if (!blockFetch) {
+    blockFetch = rpcCall((p) => p.getBlockNumber()).finally(() => {
+      blockFetch = null;
+    });
+  }
+  const number = await blockFetch;
+
+  if (!latestBlock || latestBlock.number !== number) {
+    cachedReads = new Map();
+  }
+  latestBlock = { number, fetchedAt: Date.now() };
+  return number;
+}
+
+/**
+ * Read at the latest block, sharing the result with every caller asking
+ * for the same `key` at that block. Failed reads are not cached.
+ */
+export async function cachedRead<T>(
+  key: string,
+  fn: (provider: ethers.JsonRpcProvider, blockTag: number) => Promise<T>
+): Promise<T> {
+  const blockTag = await getLatestBlock();
+  const cacheKey = `${blockTag}:${key}`;
+
+  let read = cachedReads.get(cacheKey) as Promise<T> | undefined;
+  if (!read) {
+    read = rpcCall((p) => fn(p, blockTag));
+    cachedReads.set(cacheKey, read);
+    read.catch(() => cachedReads.delete(cacheKey));
+  }
+  return read;
+}
@@ -0,0 +1,492 @@
+import { z } from "zod";
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { ethers } from "ethers";
+import type { Response } from "express";
+import { ERROR_CODES, sendError } from "./errors";
+import { AUDIT_KINDS } from "./audit";
+import { MAX_TENURE_MONTHS } from "./amortization";
+
+extendZodWithOpenApi(z);
+
+/**
+ * Request and response schemas shared by the routes and the OpenAPI
+ * document (./openapi). Schemas named with .openapi("…") become components
+ * of the spec and types in the generated client (cre-workflows/api-client).
+ *
+ * Routes call parseRequest() on req.body / req.params / req.query; on failure
+ * it sends a 400 naming the first offending field and returns null. Unknown
+ * body keys are stripped, not rejected — the bid-workflow forwards its raw
+ * trigger payload, which carries an extra `action` field.
+ *
+ * Response bodies are typed with the inferred types below (`satisfies`), so
+ * a route that drifts from its documented shape fails to compile.
+ */
+
+// ─── Primitives ──────────────────────────────────────────────────────────────
+
+/** Lowercased so store keys don't depend on the caller's hex casing. */
+export const bytes32 = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{64}$/, "must be a 0x-prefixed 32-byte hex string")
+  .transform((v) => v.toLowerCase());
+
+/** Any valid address; mixed-case input must carry a correct checksum. Output is checksummed. */
+export const address = z
+  .string()
+  .refine((v) => ethers.isAddress(v), "must be a valid address (EIP-55 checksum if mixed-case)")
+  .transform((v) => ethers.getAddress(v))
+  .openapi({ type: "string", pattern: "^0x[0-9a-fA-F]{40}$" });
+
+export const uint256 = z
+  .string()
+  .regex(/^\d+$/, "must be a uint256 decimal string")
+  .refine((v) => BigInt(v) <= ethers.MaxUint256, "exceeds uint256");
+
+export const positiveInt = z
+  .number()
+  .int("must be an integer")
+  .positive("must be positive")
+  .max(Number.MAX_SAFE_INTEGER);
+
+export const nonNegativeInt = z
+  .number()
+  .int("must be an integer")
+  .nonnegative("must be non-negative")
+  .max(Number.MAX_SAFE_INTEGER);
+
+export const signature = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{130}$/, "must be a 65-byte hex signature");
+
+// ─── Auctions ────────────────────────────────────────────────────────────────
+
+export const auctionFormat = z
+  .discriminatedUnion("kind", [
+    z.object({ kind: z.literal("vickrey") }),
+    z.object({ kind: z.literal("first-price") }),
+    z.object({ kind: z.literal("english"), incrementBps: nonNegativeInt }),
+    z.object({ kind: z.literal("uniform-price"), units: positiveInt }),
+  ])
+  .openapi("AuctionFormat");
+
+export const auctionIdParams = z.object({ auctionId: bytes32 });
+
+export const proofParams = z.object({ auctionId: bytes32, bidHash: bytes32 });
+
+export const listAuctionsQuery = z.object({
+  state: z.enum(["open", "expired", "settled", "closed"]).optional(),
+  limit: z.coerce
+    .number()
+    .pipe(positiveInt.max(200))
+    .default(50)
+    .openapi({ type: "integer", minimum: 1, maximum: 200 }),
+  offset: z.coerce
+    .number()
+    .pipe(nonNegativeInt)
+    .default(0)
+    .openapi({ type: "integer", minimum: 0 }),
+});
+
+export const registerAuctionBody = z
+  .object({
+    auctionId: bytes32,
+    format: auctionFormat.optional(),
+  })
+  .openapi("RegisterAuctionRequest");
+
+// ─── Bids & Settlement ───────────────────────────────────────────────────────
+
+export const bidBody = z
+  .object({
+    auctionId: bytes32,
+    bidder: address,
+    amount: uint256,
+    nonce: nonNegativeInt,
+    signature,
+  })
+  .openapi("BidRequest");
+
+export const withdrawBody = z
+  .object({
+    auctionId: bytes32,
+    bidder: address,
+    nonce: nonNegativeInt,
+    signature,
+  })
+  .openapi("WithdrawBidRequest");
+
+export const settleBody = z
+  .object({
+    auctionId: bytes32,
+    fundingBlock: positiveInt.optional(), // block to read funding at; default latest finalized
+  })
+  .openapi("SettleRequest");
+
+// ─── Properties & Loans ──────────────────────────────────────────────────────
+
+export const verifyPropertyBody = z
+  .object({
+    propertyId: z.string().min(1, "must not be empty"),
+    sellerAddress: address,
+  })
+  .openapi("VerifyPropertyRequest");
+
+export const tokenIdParams = z.object({
+  tokenId: z.coerce.number().pipe(positiveInt).openapi({ type: "integer", minimum: 1 }),
+});
+
+export const revealBody = z
+  .object({
+    requester: address,          // property owner or auction winner
+    expiry: positiveInt,         // unix seconds, at most 24h ahead
+    signature,                   // EIP-712 RevealRequest { tokenId, requester, expiry }
+    auctionId: bytes32.optional(), // settled auction of this token that requester won
+  })
+  .openapi("RevealRequest");
+
+export const loanRequestBody = z
+  .object({
+    borrowerAddress: address,
+    plaidToken: z.string().min(1, "must not be empty"),
+    tokenId: positiveInt,
+    requestedAmount: uint256,
+    tenureMonths: positiveInt.max(MAX_TENURE_MONTHS),
+    nonce: nonNegativeInt,
+  })
+  .openapi("LoanRequestSubmission");
+
+export const requestHashParams = z.object({ requestHash: bytes32 });
+
+export const scheduleQuery = z.object({
+  // APR the loan was priced at; defaults to INTEREST_RATE_BPS
+  rateBps: z.coerce
+    .number()
+    .pipe(nonNegativeInt.max(10_000))
+    .optional()
+    .openapi({ type: "integer", minimum: 0, maximum: 10000 }),
+  // Amount actually approved, at most the requested amount; defaults to it
+  principal: uint256.optional(),
+});
+
+// ─── Audit ───────────────────────────────────────────────────────────────────
+
+export const auditQuery = z.object({
+  after: z.coerce
+    .number()
+    .pipe(nonNegativeInt)
+    .default(0)
+    .openapi({ type: "integer", minimum: 0 }), // seq to continue from
+  limit: z.coerce
+    .number()
+    .pipe(positiveInt.max(500))
+    .default(100)
+    .openapi({ type: "integer", minimum: 1, maximum: 500 }),
+  kind: z.enum(AUDIT_KINDS).optional(),
+  subject: z.string().min(1).optional(),
+});
+
+// ─── Responses ───────────────────────────────────────────────────────────────
+
+// Output schemas describe what routes send, so they skip the input
+// transforms above (checksumming, lowercasing).
+const hex = z.string().regex(/^0x[0-9a-fA-F]*$/);
+const decimal = z.string().regex(/^\d+$/);
+
+export const apiErrorResponse = z
+  .object({
+    code: z.enum(ERROR_CODES),
+    message: z.string(),
+    field: z.string().optional(), // dotted path of the offending request field
+    retryAfter: z.number().int().optional(), // RATE_LIMITED: seconds until a retry can succeed
+  })
+  .passthrough() // route-specific context, e.g. `reconciliation`
+  .openapi("ApiError");
+
+export const healthResponse = z
+  .object({ status: z.literal("ok"), timestamp: z.number().int() })
+  .openapi("Health");
+
+export const bidResponse = z
+  .object({
+    auctionId: hex,
+    bidHash: hex,        // zero hash for a withdrawal
+    supersededHash: hex, // zero hash for a first bid
+  })
+  .openapi("BidResponse");
+
+export const settlementProof = z
+  .object({
+    bidRoot: hex,
+    bidCount: z.number().int(),
+    bidHashes: z.array(hex),
+    priceBidHash: hex,
+    commitment: hex,
+    signer: hex,
+    signature: hex,
+  })
+  .openapi("SettlementProof");
+
+export const allocation = z
+  .object({ bidder: hex, units: z.number().int(), price: decimal })
+  .openapi("Allocation");
+
+export const disqualification = z
+  .object({
+    bidder: hex,
+    bidHash: hex,
+    reason: z.enum(["insufficient-balance", "lock-expired"]),
+  })
+  .openapi("Disqualification");
+
+export const reconciliationReport = z
+  .object({
+    auctionId: hex,
+    onChainCount: z.number().int(),
+    storedCount: z.number().int(),
+    counted: z.array(hex),
+    unregistered: z.array(hex),
+    revokedOnChain: z.array(hex),
+    revokePending: z.array(hex),
+    orphaned: z.array(hex),
+    consistent: z.boolean(),
+  })
+  .openapi("ReconciliationReport");
+
+export const settleResponse = z
+  .object({
+    auctionId: hex,
+    winner: hex,
+    price: decimal,
+    proof: settlementProof,
+    allocations: z.array(allocation),
+    fundingBlock: z.number().int(),
+    disqualified: z.array(disqualification),
+    reconciliation: reconciliationReport,
+  })
+  .openapi("SettleResponse");
+
+export const bidProofResponse = z
+  .object({
+    auctionId: hex,
+    winner: hex.optional(),
+    price: decimal.optional(),
+    proof: settlementProof,
+    bidHash: hex,
+    merkleProof: z.array(hex),
+  })
+  .openapi("BidProofResponse");
+
+export const signedRankingReport = z
+  .object({
+    report: z.object({
+      auctionId: hex,
+      format: auctionFormat,
+      reservePrice: decimal,
+      winner: hex,
+      clearingPrice: decimal,
+      fundingBlock: z.number().int(),
+      bids: z.array(
+        z.object({
+          rank: z.number().int(),
+          bidder: hex,
+          amount: decimal,
+          timestamp: z.number().int(),
+          bidHash: hex,
+          outcome: z.enum(["won", "lost", "disqualified", "below-reserve"]),
+          reason: z.enum(["insufficient-balance", "lock-expired"]).optional(),
+        })
+      ),
+      generatedAt: z.number().int(),
+    }),
+    digest: hex,
+    signer: hex,
+    signature: hex,
+  })
+  .openapi("SignedRankingReport");
+
+export const auctionStatusResponse = z
+  .object({
+    bidCount: z.number().int(),
+    deadline: z.number().int(),
+    settled: z.boolean(),
+  })
+  .openapi("AuctionStatus");
+
+export const verifyPropertyResponse = z
+  .object({
+    valid: z.boolean(),
+    tokenId: z.number().int(),
+    metadataHash: hex,
+    appraisedValue: decimal,
+    message: z.string(),
+  })
+  .openapi("VerifyPropertyResponse");
+
+export const revealResponse = z
+  .object({
+    tokenId: z.number().int(),
+    metadataHash: hex,
+    encoding: z.array(z.string()), // abi.encode types, in preimage field order
+    preimage: z.object({
+      address: z.string(),
+      appraisedValueUsd: decimal,
+      titleDeedNumber: z.string(),
+      salt: hex,
+    }),
+  })
+  .openapi("PropertyReveal");
+
+export const loanRequestReceipt = z
+  .object({
+    requestHash: hex,
+    tokenId: z.number().int(),
+    nonce: z.number().int(),
+  })
+  .openapi("LoanRequestReceipt");
+
+export const loanRequestDetails = z
+  .object({
+    requestHash: hex,
+    borrowerAddress: hex,
+    plaidToken: z.string(),
+    tokenId: z.number().int(),
+    requestedAmount: decimal,
+    tenureMonths: z.number().int(),
+    nonce: z.number().int(),
+    timestamp: z.number().int(),
+    appraisedValueUsd: z.number(),
+  })
+  .openapi("LoanRequestDetails");
+
+export const repaymentSchedule = z
+  .object({
+    requestHash: hex,
+    principal: decimal,
+    rateBps: z.number().int(),
+    tenureMonths: z.number().int(),
+    emi: decimal,
+    totalInterest: decimal,
+    totalPaid: decimal,
+    installments: z.array(
+      z.object({
+        month: z.number().int(),
+        payment: decimal,
+        principal: decimal,
+        interest: decimal,
+        balance: decimal, // remaining after this payment
+      })
+    ),
+  })
+  .openapi("RepaymentSchedule");
+
+const auctionLifecycle = z.enum(["open", "expired", "settled", "closed"]);
+
+export const auctionListResponse = z
+  .object({
+    auctions: z.array(
+      z
+        .object({
+          auctionId: hex,
+          state: auctionLifecycle,
+          deadline: z.number().int(),
+          format: auctionFormat,
+          settled: z.boolean(),
+          closed: z.boolean(),
+          winner: hex.optional(),
+          price: decimal.optional(),
+          bidCount: z.number().int(),
+        })
+        .openapi("AuctionSummary")
+    ),
+    total: z.number().int(),
+    limit: z.number().int(),
+    offset: z.number().int(),
+  })
+  .openapi("AuctionList");
+
+export const auctionDetailResponse = z
+  .object({
+    auctionId: hex,
+    state: auctionLifecycle,
+    deadline: z.number().int(),
+    format: auctionFormat,
+    bidCount: z.number().int(),
+    seller: hex,
+    tokenId: decimal,
+    reservePrice: decimal,
+    settled: z.boolean(),             // on-chain
+    winner: hex.nullable(),
+    settledPrice: decimal.nullable(),
+    settledInStore: z.boolean(),
+  })
+  .openapi("AuctionDetail");
+
+export const auctionFormatResponse = z
+  .object({ auctionId: hex, format: auctionFormat })
+  .openapi("AuctionFormatUpdate");
+
+export const auditEntry = z
+  .object({
+    seq: z.number().int(),
+    timestamp: z.number().int(),
+    kind: z.enum(AUDIT_KINDS),
+    subject: z.string(),
+    actor: z.string().nullable(),
+    data: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])),
+    prevHash: hex,
+    hash: hex,
+  })
+  .openapi("AuditEntry");
+
+export const auditLogResponse = z
+  .object({
+    entries: z.array(auditEntry),
+    head: z.object({ seq: z.number().int(), hash: hex }).nullable(), // latest entry overall
+  })
+  .openapi("AuditLog");
+
+export type ApiErrorResponse = z.infer<typeof apiErrorResponse>;
+export type HealthResponse = z.infer<typeof healthResponse>;
+export type BidResponse = z.infer<typeof bidResponse>;
+export type SettleResponse = z.infer<typeof settleResponse>;
+export type BidProofResponse = z.infer<typeof bidProofResponse>;
+export type AuctionStatusResponse = z.infer<typeof auctionStatusResponse>;
+export type VerifyPropertyResponse = z.infer<typeof verifyPropertyResponse>;
+export type RevealResponse = z.infer<typeof revealResponse>;
+export type LoanRequestReceipt = z.infer<typeof loanRequestReceipt>;
+export type LoanRequestDetails = z.infer<typeof loanRequestDetails>;
+export type RepaymentScheduleResponse = z.infer<typeof repaymentSchedule>;
+export type AuctionListResponse = z.infer<typeof auctionListResponse>;
+export type AuctionDetailResponse = z.infer<typeof auctionDetailResponse>;
+export type AuctionFormatResponse = z.infer<typeof auctionFormatResponse>;
+export type ReconciliationResponse = z.infer<typeof reconciliationReport>;
+export type RankingReportResponse = z.infer<typeof signedRankingReport>;
+export type AuditLogResponse = z.infer<typeof auditLogResponse>;
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Validate `input`, or send a 400 (MISSING_FIELD / INVALID_FIELD) and
+ * return null.
+ */
+export function parseRequest<S extends z.ZodTypeAny>(
+  schema: S,
+  input: unknown,
+  res: Response
+): z.output<S> | null {
+  const result = schema.safeParse(input ?? {});
+  if (result.success) return result.data;
+
+  const issue = result.error.issues[0];
+  const field = issue.path.join(".") || undefined;
+  const missing = issue.code === "invalid_type" && issue.received === "undefined";
+
+  sendError(
+    res,
+    400,
+    missing ? "MISSING_FIELD" : "INVALID_FIELD",
+    field ? `${field}: ${missing ? "required" : issue.message}` : issue.message,
+    { field }
+  );
+  return null;
+}
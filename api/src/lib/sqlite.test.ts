@@ -0,0 +1,144 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as path from "path";
+import Database from "better-sqlite3";
+import { SqliteBackend } from "./storage/sqlite";
+import { setStorage, getStorage } from "./storage";
+import { getBids, getLoanRequest, openBid, openLoanRequest, rewrapSealedRecords, storeBid } from "./store";
+import { resetKeyring } from "./envelope";
+import { tempDir } from "./testing";
+
+// Opening a database written by an earlier release, and rotating the KEK
+// over a file that is then reopened.
+
+const OLD = `old:${crypto.randomBytes(32).toString("hex")}`;
+const NEW = `new:${crypto.randomBytes(32).toString("hex")}`;
+const AUCTION_ID = "0x" + "ab".repeat(32);
+const BID_HASH = "0x" + "cd".repeat(32);
+const REQUEST_HASH = "0x" + "ef".repeat(32);
+
+// Schema v1 as it shipped, with plaintext bids and Plaid tokens
+const SCHEMA_V1 = `
+  CREATE TABLE auctions (
+    auction_id TEXT PRIMARY KEY, deadline INTEGER NOT NULL, settled INTEGER NOT NULL DEFAULT 0,
+    winner TEXT, price TEXT
+  );
+  CREATE TABLE bids (
+    auction_id TEXT NOT NULL REFERENCES auctions(auction_id), bidder TEXT NOT NULL,
+    amount TEXT NOT NULL, nonce INTEGER NOT NULL, signature TEXT NOT NULL,
+    bid_hash TEXT NOT NULL, timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX bids_auction ON bids(auction_id);
+  CREATE TABLE properties (
+    token_id INTEGER PRIMARY KEY, property_id TEXT NOT NULL, address TEXT NOT NULL,
+    appraised_value_usd INTEGER NOT NULL, owner_address TEXT NOT NULL, metadata_hash TEXT NOT NULL
+  );
+  CREATE TABLE loan_requests (
+    request_hash TEXT PRIMARY KEY, borrower_address TEXT NOT NULL, plaid_token TEXT NOT NULL,
+    token_id INTEGER NOT NULL, requested_amount TEXT NOT NULL, tenure_months INTEGER NOT NULL,
+    nonce INTEGER NOT NULL, timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE counters (name TEXT PRIMARY KEY, value INTEGER NOT NULL);
+  INSERT INTO counters (name, value) VALUES ('next_token_id', 1);
+  PRAGMA user_version = 1;
+`;
+
+function useKeys(keks: string, active: string): void {
+  process.env.STORE_KEKS = keks;
+  process.env.STORE_KEK_ACTIVE = active;
+  resetKeyring();
+}
+
+function userVersion(file: string): number {
+  const db = new Database(file, { readonly: true });
+  try {
+    return db.pragma("user_version", { simple: true }) as number;
+  } finally {
+    db.close();
+  }
+}
+
+before(() => {
+  process.env.LOG_LEVEL = "error";
+  useKeys(OLD, "old");
+});
+
+test("a schema-v1 database is migrated in place and its plaintext fields sealed", () => {
+  const file = path.join(tempDir(), "v1.db");
+  const v1 = new Database(file);
+  v1.exec(SCHEMA_V1);
+  v1.prepare("INSERT INTO auctions (auction_id, deadline) VALUES (?, ?)").run(AUCTION_ID, 1_900_000_000);
+  v1.prepare("INSERT INTO bids VALUES (?, ?, ?, ?, ?, ?, ?)").run(
+    AUCTION_ID, "0x" + "11".repeat(20), "1500000000", 1, "0x" + "22".repeat(65), BID_HASH, 1_000
+  );
+  v1.prepare("INSERT INTO loan_requests VALUES (?, ?, ?, ?, ?, ?, ?, ?)").run(
+    REQUEST_HASH, "0x" + "33".repeat(20), "access-sandbox-v1", 1, "500000000000", 360, 0, 2_000
+  );
+  v1.close();
+
+  setStorage(new SqliteBackend(file));
+  const [bid] = getBids(AUCTION_ID);
+  assert.deepEqual(
+    openBid(bid),
+    {
+      auctionId: AUCTION_ID,
+      bidder: "0x" + "11".repeat(20),
+      nonce: 1,
+      bidHash: BID_HASH,
+      timestamp: 1_000,
+      amount: "1500000000",
+      signature: "0x" + "22".repeat(65),
+      status: "live",
+      revokedByNonce: undefined,
+    }
+  );
+  assert.equal(bid.sealed.keyId, "old");
+  assert.equal(getStorage().getAuction(AUCTION_ID)?.format.kind, "vickrey");
+  assert.equal(openLoanRequest(getLoanRequest(REQUEST_HASH)!).plaidToken, "access-sandbox-v1");
+  getStorage().close();
+
+  const migrated = userVersion(file);
+  assert.ok(migrated > 1);
+
+  const raw = new Database(file, { readonly: true });
+  const columns = (raw.prepare("PRAGMA table_info(bids)").all() as { name: string }[]).map((c) => c.name);
+  const dump = JSON.stringify(raw.prepare("SELECT * FROM bids").all()) + JSON.stringify(raw.prepare("SELECT * FROM loan_requests").all());
+  raw.close();
+  assert.ok(!columns.includes("amount") && !columns.includes("signature"));
+  assert.ok(!dump.includes("1500000000") && !dump.includes("access-sandbox-v1"));
+
+  // Reopening at the current version runs nothing again
+  setStorage(new SqliteBackend(file));
+  assert.equal(getBids(AUCTION_ID).length, 1);
+  getStorage().close();
+  assert.equal(userVersion(file), migrated);
+});
+
+test("rotate-keys re-wraps every sealed record, which then opens without the old key", () => {
+  const file = path.join(tempDir(), "rotate.db");
+  setStorage(new SqliteBackend(file));
+  storeBid({
+    auctionId: AUCTION_ID,
+    bidder: "0x" + "11".repeat(20),
+    amount: "1500000000",
+    nonce: 1,
+    signature: "0x" + "22".repeat(65),
+    bidHash: BID_HASH,
+    timestamp: 1_000,
+  });
+  const original = getBids(AUCTION_ID)[0].sealed;
+
+  useKeys(`${OLD},${NEW}`, "new");
+  assert.equal(rewrapSealedRecords(), 1);
+  assert.equal(rewrapSealedRecords(), 0);
+  getStorage().close();
+
+  useKeys(NEW, "new");
+  setStorage(new SqliteBackend(file));
+  const [bid] = getBids(AUCTION_ID);
+  assert.equal(bid.sealed.keyId, "new");
+  assert.equal(bid.sealed.data, original.data);
+  assert.equal(openBid(bid).amount, "1500000000");
+  getStorage().close();
+});
@@ -0,0 +1,51 @@
+import { MemoryBackend } from "./memory";
+import { SqliteBackend } from "./sqlite";
+import { log } from "../logger";
+import type { StorageBackend } from "./types";
+
+export type { StorageBackend } from "./types";
+export { MemoryBackend } from "./memory";
+export { SqliteBackend } from "./sqlite";
+
+let backend: StorageBackend | null = null;
+
+/**
+ * Build a backend from env config:
+ *   STORE_BACKEND = "sqlite" (default) | "memory"
+ *   STORE_PATH    = SQLite file path (default ./data/lienfi.db)
+ */
+function createBackend(): StorageBackend {
+  const kind = process.env.STORE_BACKEND || "sqlite";
+
+  switch (kind) {
+    case "memory":
+      return new MemoryBackend();
+    case "sqlite":
+      return new SqliteBackend(process.env.STORE_PATH || "./data/lienfi.db");
+    default:
+      throw new Error(`Unknown STORE_BACKEND: ${kind}`);
+  }
+}
+
+/**
+ * Lazily open the configured backend on first use, so dotenv has
+ * populated process.env by the time the choice is made.
+ */
+export function getStorage(): StorageBackend {
+  if (!backend) {
+    backend = createBackend();
+    log.info("STORE", "Storage backend opened", { backend: backend.name });
+  }
+  return backend;
+}
+
+/**
+ * Swap the active backend (tests inject a fresh MemoryBackend).
+ * Closes the previous backend if one was open.
+ */
+export function setStorage(next: StorageBackend): void {
+  if (backend && backend !== next) {
+    backend.close();
+  }
+  backend = next;
+}
@@ -0,0 +1,281 @@
+import type {
+  AuctionFormat,
+  AuctionPage,
+  AuctionQuery,
+  AuctionState,
+  BidStatus,
+  StoredBid,
+  StoredProperty,
+  StoredLoanRequest,
+} from "../store";
+import type { Envelope } from "../envelope";
+import type { SettlementProof } from "../formats";
+import type { ChainEvent, IndexCheckpoint } from "../indexer/types";
+import type { AuditEntry, AuditQuery } from "../audit";
+import type { StorageBackend, SealedRecord } from "./types";
+
+/**
+ * Volatile backend — module-level Maps, lost on restart.
+ * Used for tests and local experiments (STORE_BACKEND=memory).
+ */
+export class MemoryBackend implements StorageBackend {
+  readonly name = "memory";
+
+  private auctions: Map<string, AuctionState> = new Map();
+  private properties: Map<number, StoredProperty> = new Map();
+  private loanRequests: Map<string, StoredLoanRequest> = new Map();
+  private tokenIdCounter = 1;
+  private chainEvents: ChainEvent[] = [];
+  private checkpoints: IndexCheckpoint[] = [];
+  private auditLog: AuditEntry[] = [];
+
+  getAuction(auctionId: string): AuctionState | null {
+    return this.auctions.get(auctionId) || null;
+  }
+
+  insertAuction(auction: AuctionState): void {
+    this.auctions.set(auction.auctionId, auction);
+  }
+
+  listAuctions(query: AuctionQuery): AuctionPage {
+    const matching = [...this.auctions.values()]
+      .filter((a) => {
+        switch (query.state) {
+          case "open":
+            return !a.settled && !a.closed && a.deadline > query.now;
+          case "expired":
+            return !a.settled && !a.closed && a.deadline <= query.now;
+          case "settled":
+            return a.settled;
+          case "closed":
+            return a.closed;
+          default:
+            return true;
+        }
+      })
+      .sort((a, b) =>
+        a.deadline !== b.deadline
+          ? a.deadline - b.deadline
+          : a.auctionId < b.auctionId ? -1 : 1
+      );
+
+    return {
+      auctions: matching
+        .slice(query.offset, query.offset + query.limit)
+        .map((a) => ({
+          auctionId: a.auctionId,
+          deadline: a.deadline,
+          format: a.format,
+          settled: a.settled,
+          closed: a.closed,
+          winner: a.winner,
+          price: a.price,
+          bidCount: a.bids.filter((b) => b.status === "live").length,
+        })),
+      total: matching.length,
+    };
+  }
+
+  updateAuctionDeadline(auctionId: string, deadline: number): void {
+    const auction = this.auctions.get(auctionId);
+    if (auction) {
+      auction.deadline = deadline;
+    }
+  }
+
+  updateAuctionFormat(auctionId: string, format: AuctionFormat): void {
+    const auction = this.auctions.get(auctionId);
+    if (auction) {
+      auction.format = format;
+    }
+  }
+
+  markAuctionSettled(
+    auctionId: string,
+    winner: string,
+    price: string,
+    proof: SettlementProof
+  ): void {
+    const auction = this.auctions.get(auctionId);
+    if (auction) {
+      auction.settled = true;
+      auction.closed = false;
+      auction.winner = winner;
+      auction.price = price;
+      auction.proof = proof;
+    }
+  }
+
+  markAuctionClosed(auctionId: string): void {
+    const auction = this.auctions.get(auctionId);
+    if (auction) {
+      auction.settled = false;
+      auction.closed = true;
+      auction.winner = undefined;
+      auction.price = undefined;
+      auction.proof = undefined;
+    }
+  }
+
+  updateAuctionReport(auctionId: string, report: Envelope): void {
+    const auction = this.auctions.get(auctionId);
+    if (auction) {
+      auction.rankingReport = report;
+    }
+  }
+
+  getBids(auctionId: string): StoredBid[] {
+    const auction = this.auctions.get(auctionId);
+    return auction ? auction.bids : [];
+  }
+
+  insertBid(bid: StoredBid): void {
+    const auction = this.auctions.get(bid.auctionId);
+    if (!auction) {
+      throw new Error(`Auction ${bid.auctionId} not found`);
+    }
+    auction.bids.push(bid);
+  }
+
+  updateBidStatus(bidHash: string, status: BidStatus, revokedByNonce: number): void {
+    for (const auction of this.auctions.values()) {
+      const bid = auction.bids.find((b) => b.bidHash === bidHash);
+      if (bid) {
+        bid.status = status;
+        bid.revokedByNonce = revokedByNonce;
+        return;
+      }
+    }
+  }
+
+  nextTokenId(): number {
+    return this.tokenIdCounter++;
+  }
+
+  getProperty(tokenId: number): StoredProperty | null {
+    return this.properties.get(tokenId) || null;
+  }
+
+  getPropertyByPropertyId(propertyId: string): StoredProperty | null {
+    for (const property of this.properties.values()) {
+      if (property.propertyId === propertyId) return property;
+    }
+    return null;
+  }
+
+  upsertProperty(property: StoredProperty): void {
+    this.properties.set(property.tokenId, property);
+  }
+
+  getLoanRequest(requestHash: string): StoredLoanRequest | null {
+    return this.loanRequests.get(requestHash) || null;
+  }
+
+  insertLoanRequest(request: StoredLoanRequest): void {
+    this.loanRequests.set(request.requestHash, request);
+  }
+
+  getChainEvents(): ChainEvent[] {
+    return [...this.chainEvents];
+  }
+
+  insertChainEvents(events: ChainEvent[]): void {
+    this.chainEvents.push(...events);
+  }
+
+  deleteChainEventsAfter(blockNumber: number): void {
+    this.chainEvents = this.chainEvents.filter((e) => e.blockNumber <= blockNumber);
+  }
+
+  getIndexCheckpoints(): IndexCheckpoint[] {
+    return [...this.checkpoints];
+  }
+
+  getLatestIndexCheckpoint(): IndexCheckpoint | null {
+    return this.checkpoints[this.checkpoints.length - 1] || null;
+  }
+
+  insertIndexCheckpoint(checkpoint: IndexCheckpoint): void {
+    this.checkpoints.push(checkpoint);
+  }
+
+  deleteIndexCheckpointsAfter(blockNumber: number): void {
+    this.checkpoints = this.checkpoints.filter((c) => c.blockNumber <= blockNumber);
+  }
+
+  pruneIndexCheckpoints(keep: number): void {
+    this.checkpoints = this.checkpoints.slice(-keep);
+  }
+
+  appendAuditEntry(entry: AuditEntry): void {
+    this.auditLog.push(entry);
+  }
+
+  getLastAuditEntry(): AuditEntry | null {
+    return this.auditLog[this.auditLog.length - 1] || null;
+  }
+
+  listAuditEntries(query: AuditQuery): AuditEntry[] {
+    return this.auditLog
+      .filter(
+        (e) =>
+          e.seq > query.after &&
+          (!query.kind || e.kind === query.kind) &&
+          (!query.subject || e.subject === query.subject)
+      )
+      .slice(0, query.limit);
+  }
+
+  listSealedRecords(): SealedRecord[] {
+    const records: SealedRecord[] = [];
+    for (const auction of this.auctions.values()) {
+      if (auction.rankingReport) {
+        records.push({
+          kind: "rankingReport",
+          id: auction.auctionId,
+          envelope: auction.rankingReport,
+        });
+      }
+      for (const bid of auction.bids) {
+        records.push({ kind: "bid", id: bid.bidHash, envelope: bid.sealed });
+      }
+    }
+    for (const request of this.loanRequests.values()) {
+      records.push({
+        kind: "loanRequest",
+        id: request.requestHash,
+        envelope: request.sealed,
+      });
+    }
+    return records;
+  }
+
+  updateSealedRecord(record: SealedRecord): void {
+    if (record.kind === "rankingReport") {
+      const auction = this.auctions.get(record.id);
+      if (auction) auction.rankingReport = record.envelope;
+      return;
+    }
+    if (record.kind === "loanRequest") {
+      const request = this.loanRequests.get(record.id);
+      if (request) request.sealed = record.envelope;
+      return;
+    }
+    for (const auction of this.auctions.values()) {
+      const bid = auction.bids.find((b) => b.bidHash === record.id);
+      if (bid) {
+        bid.sealed = record.envelope;
+        return;
+      }
+    }
+  }
+
+  transaction<T>(fn: () => T): T {
+    // Single-threaded and synchronous — nothing can interleave
+    return fn();
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
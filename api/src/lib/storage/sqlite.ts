@@ -0,0 +1,846 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type {
+  AuctionFormat,
+  AuctionPage,
+  AuctionQuery,
+  AuctionState,
+  BidStatus,
+  StoredBid,
+  StoredProperty,
+  StoredLoanRequest,
+} from "../store";
+import { seal, type Envelope } from "../envelope";
+import type { SettlementProof } from "../formats";
+import type { ChainEvent, IndexCheckpoint, IndexedContract } from "../indexer/types";
+import type { AuditEntry, AuditKind, AuditQuery } from "../audit";
+import type { StorageBackend, SealedRecord } from "./types";
+
+type Migration = string | ((db: Database.Database) => void);
+
+/** Plaintext schema-v1 rows, read once by migration 2 to seal them. */
+interface BidRowV1 {
+  auction_id: string;
+  bidder: string;
+  amount: string;
+  nonce: number;
+  signature: string;
+  bid_hash: string;
+  timestamp: number;
+}
+
+interface LoanRequestRowV1 {
+  request_hash: string;
+  borrower_address: string;
+  plaid_token: string;
+  token_id: number;
+  requested_amount: string;
+  tenure_months: number;
+  nonce: number;
+  timestamp: number;
+}
+
+/**
+ * Schema migrations, applied in order on open.
+ * The applied version is tracked in SQLite's `user_version` pragma —
+ * append new entries, never edit existing ones. SQL strings cover schema-only
+ * changes; functions are used when existing rows need rewriting.
+ */
+const MIGRATIONS: Migration[] = [
+  // 1 — initial schema
+  `
+  CREATE TABLE auctions (
+    auction_id TEXT PRIMARY KEY,
+    deadline   INTEGER NOT NULL,
+    settled    INTEGER NOT NULL DEFAULT 0,
+    winner     TEXT,
+    price      TEXT
+  );
+
+  CREATE TABLE bids (
+    auction_id TEXT NOT NULL REFERENCES auctions(auction_id),
+    bidder     TEXT NOT NULL,
+    amount     TEXT NOT NULL,
+    nonce      INTEGER NOT NULL,
+    signature  TEXT NOT NULL,
+    bid_hash   TEXT NOT NULL,
+    timestamp  INTEGER NOT NULL
+  );
+  CREATE INDEX bids_auction ON bids(auction_id);
+
+  CREATE TABLE properties (
+    token_id            INTEGER PRIMARY KEY,
+    property_id         TEXT NOT NULL,
+    address             TEXT NOT NULL,
+    appraised_value_usd INTEGER NOT NULL,
+    owner_address       TEXT NOT NULL,
+    metadata_hash       TEXT NOT NULL
+  );
+
+  CREATE TABLE loan_requests (
+    request_hash     TEXT PRIMARY KEY,
+    borrower_address TEXT NOT NULL,
+    plaid_token      TEXT NOT NULL,
+    token_id         INTEGER NOT NULL,
+    requested_amount TEXT NOT NULL,
+    tenure_months    INTEGER NOT NULL,
+    nonce            INTEGER NOT NULL,
+    timestamp        INTEGER NOT NULL
+  );
+
+  CREATE TABLE counters (
+    name  TEXT PRIMARY KEY,
+    value INTEGER NOT NULL
+  );
+  INSERT INTO counters (name, value) VALUES ('next_token_id', 1);
+  `,
+
+  // 2 — envelope-encrypt bid amount/signature and Plaid tokens
+  (db) => {
+    db.exec(`
+      CREATE TABLE bids_v2 (
+        auction_id  TEXT NOT NULL REFERENCES auctions(auction_id),
+        bidder      TEXT NOT NULL,
+        nonce       INTEGER NOT NULL,
+        bid_hash    TEXT NOT NULL,
+        timestamp   INTEGER NOT NULL,
+        key_id      TEXT NOT NULL,
+        wrapped_key TEXT NOT NULL,
+        sealed_data TEXT NOT NULL
+      );
+
+      CREATE TABLE loan_requests_v2 (
+        request_hash     TEXT PRIMARY KEY,
+        borrower_address TEXT NOT NULL,
+        token_id         INTEGER NOT NULL,
+        requested_amount TEXT NOT NULL,
+        tenure_months    INTEGER NOT NULL,
+        nonce            INTEGER NOT NULL,
+        timestamp        INTEGER NOT NULL,
+        key_id           TEXT NOT NULL,
+        wrapped_key      TEXT NOT NULL,
+        sealed_data      TEXT NOT NULL
+      );
+    `);
+
+    // Seal any plaintext rows written by schema v1
+    const insertBid = db.prepare(
+      `INSERT INTO bids_v2
+         (auction_id, bidder, nonce, bid_hash, timestamp, key_id, wrapped_key, sealed_data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const row of db.prepare("SELECT * FROM bids ORDER BY rowid").all() as BidRowV1[]) {
+      const envelope = seal(
+        { amount: row.amount, signature: row.signature },
+        row.bid_hash
+      );
+      insertBid.run(
+        row.auction_id,
+        row.bidder,
+        row.nonce,
+        row.bid_hash,
+        row.timestamp,
+        envelope.keyId,
+        envelope.wrappedKey,
+        envelope.data
+      );
+    }
+
+    const insertLoanRequest = db.prepare(
+      `INSERT INTO loan_requests_v2
+         (request_hash, borrower_address, token_id, requested_amount, tenure_months, nonce, timestamp, key_id, wrapped_key, sealed_data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const row of db.prepare("SELECT * FROM loan_requests").all() as LoanRequestRowV1[]) {
+      const envelope = seal({ plaidToken: row.plaid_token }, row.request_hash);
+      insertLoanRequest.run(
+        row.request_hash,
+        row.borrower_address,
+        row.token_id,
+        row.requested_amount,
+        row.tenure_months,
+        row.nonce,
+        row.timestamp,
+        envelope.keyId,
+        envelope.wrappedKey,
+        envelope.data
+      );
+    }
+
+    db.exec(`
+      DROP TABLE bids;
+      ALTER TABLE bids_v2 RENAME TO bids;
+      CREATE INDEX bids_auction ON bids(auction_id);
+      CREATE UNIQUE INDEX bids_hash ON bids(bid_hash);
+
+      DROP TABLE loan_requests;
+      ALTER TABLE loan_requests_v2 RENAME TO loan_requests;
+    `);
+  },
+
+  // 3 — bid revision and withdrawal
+  `
+  ALTER TABLE bids ADD COLUMN status TEXT NOT NULL DEFAULT 'live';
+  ALTER TABLE bids ADD COLUMN revoked_by_nonce INTEGER;
+  `,
+
+  // 4 — per-auction settlement format (JSON-encoded AuctionFormat)
+  `
+  ALTER TABLE auctions ADD COLUMN format TEXT NOT NULL DEFAULT '{"kind":"vickrey"}';
+  `,
+
+  // 5 — sealed auditor ranking report
+  `
+  ALTER TABLE auctions ADD COLUMN report_key_id TEXT;
+  ALTER TABLE auctions ADD COLUMN report_wrapped_key TEXT;
+  ALTER TABLE auctions ADD COLUMN report_sealed_data TEXT;
+  `,
+
+  // 6 — settlement proof (JSON-encoded SettlementProof, public data only)
+  `
+  ALTER TABLE auctions ADD COLUMN settlement_proof TEXT;
+  `,
+
+  // 7 — auction listing by state and deadline
+  `
+  CREATE INDEX auctions_settled_deadline ON auctions(settled, deadline);
+  `,
+
+  // 8 — chain event index (see ../indexer)
+  `
+  CREATE TABLE chain_events (
+    block_number INTEGER NOT NULL,
+    log_index    INTEGER NOT NULL,
+    block_hash   TEXT NOT NULL,
+    tx_hash      TEXT NOT NULL,
+    contract     TEXT NOT NULL,
+    name         TEXT NOT NULL,
+    args         TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE TABLE index_checkpoints (
+    block_number INTEGER PRIMARY KEY,
+    block_hash   TEXT NOT NULL
+  );
+  `,
+
+  // 9 — hash-chained audit log (see ../audit); triggers keep it append-only
+  `
+  CREATE TABLE audit_log (
+    seq       INTEGER PRIMARY KEY,
+    timestamp INTEGER NOT NULL,
+    kind      TEXT NOT NULL,
+    subject   TEXT NOT NULL,
+    actor     TEXT,
+    data      TEXT NOT NULL,
+    prev_hash TEXT NOT NULL,
+    hash      TEXT NOT NULL
+  );
+  CREATE INDEX audit_log_subject ON audit_log(subject);
+
+  CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+  BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+  CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+  BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+  `,
+
+  // 10 — look up tokenization by registry property id
+  `CREATE INDEX properties_property_id ON properties(property_id);`,
+
+  // 11 — per-property salted commitments (NULL for shared-secret rows)
+  `
+  ALTER TABLE properties ADD COLUMN title_deed_number TEXT;
+  ALTER TABLE properties ADD COLUMN salt_seed TEXT;
+  `,
+
+  // 12 — auctions closed unsold (no eligible bid at settlement)
+  `
+  ALTER TABLE auctions ADD COLUMN closed INTEGER NOT NULL DEFAULT 0;
+  `,
+];
+
+/** WHERE clause per lifecycle state; `now` is bound as @now. */
+const STATE_FILTERS: Record<NonNullable<AuctionQuery["state"]>, string> = {
+  open: "settled = 0 AND closed = 0 AND deadline > @now",
+  expired: "settled = 0 AND closed = 0 AND deadline <= @now",
+  settled: "settled = 1",
+  closed: "closed = 1",
+};
+
+interface AuctionRow {
+  auction_id: string;
+  deadline: number;
+  format: string;
+  settled: number;
+  closed: number;
+  winner: string | null;
+  price: string | null;
+  settlement_proof: string | null;
+  report_key_id: string | null;
+  report_wrapped_key: string | null;
+  report_sealed_data: string | null;
+}
+
+interface SealedColumns {
+  key_id: string;
+  wrapped_key: string;
+  sealed_data: string;
+}
+
+interface BidRow extends SealedColumns {
+  auction_id: string;
+  bidder: string;
+  nonce: number;
+  bid_hash: string;
+  timestamp: number;
+  status: BidStatus;
+  revoked_by_nonce: number | null;
+}
+
+interface PropertyRow {
+  token_id: number;
+  property_id: string;
+  address: string;
+  appraised_value_usd: number;
+  owner_address: string;
+  metadata_hash: string;
+  title_deed_number: string | null;
+  salt_seed: string | null;
+}
+
+interface LoanRequestRow extends SealedColumns {
+  request_hash: string;
+  borrower_address: string;
+  token_id: number;
+  requested_amount: string;
+  tenure_months: number;
+  nonce: number;
+  timestamp: number;
+}
+
+interface ChainEventRow {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  tx_hash: string;
+  contract: IndexedContract;
+  name: string;
+  args: string;
+}
+
+interface CheckpointRow {
+  block_number: number;
+  block_hash: string;
+}
+
+interface AuditRow {
+  seq: number;
+  timestamp: number;
+  kind: AuditKind;
+  subject: string;
+  actor: string | null;
+  data: string;
+  prev_hash: string;
+  hash: string;
+}
+
+function toAuditEntry(row: AuditRow): AuditEntry {
+  return {
+    seq: row.seq,
+    timestamp: row.timestamp,
+    kind: row.kind,
+    subject: row.subject,
+    actor: row.actor,
+    data: JSON.parse(row.data),
+    prevHash: row.prev_hash,
+    hash: row.hash,
+  };
+}
+
+function toCheckpoint(row: CheckpointRow): IndexCheckpoint {
+  return { blockNumber: row.block_number, blockHash: row.block_hash };
+}
+
+function toEnvelope(row: SealedColumns): Envelope {
+  return {
+    keyId: row.key_id,
+    wrappedKey: row.wrapped_key,
+    data: row.sealed_data,
+  };
+}
+
+function toProperty(row: PropertyRow): StoredProperty {
+  return {
+    tokenId: row.token_id,
+    propertyId: row.property_id,
+    address: row.address,
+    appraisedValueUsd: row.appraised_value_usd,
+    ownerAddress: row.owner_address,
+    metadataHash: row.metadata_hash,
+    titleDeedNumber: row.title_deed_number ?? undefined,
+    saltSeed: row.salt_seed ?? undefined,
+  };
+}
+
+function toBid(row: BidRow): StoredBid {
+  return {
+    auctionId: row.auction_id,
+    bidder: row.bidder,
+    nonce: row.nonce,
+    bidHash: row.bid_hash,
+    timestamp: row.timestamp,
+    sealed: toEnvelope(row),
+    status: row.status,
+    revokedByNonce: row.revoked_by_nonce ?? undefined,
+  };
+}
+
+/**
+ * Durable file-backed backend (STORE_BACKEND=sqlite).
+ *
+ * Runs in WAL mode so a crash mid-write never corrupts the file, and every
+ * multi-statement operation in store.ts is wrapped in `transaction()`.
+ */
+export class SqliteBackend implements StorageBackend {
+  readonly name = "sqlite";
+
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const current = this.db.pragma("user_version", { simple: true }) as number;
+    for (let version = current; version < MIGRATIONS.length; version++) {
+      const migration = MIGRATIONS[version];
+      this.db.transaction(() => {
+        if (typeof migration === "string") {
+          this.db.exec(migration);
+        } else {
+          migration(this.db);
+        }
+        this.db.pragma(`user_version = ${version + 1}`);
+      })();
+    }
+  }
+
+  getAuction(auctionId: string): AuctionState | null {
+    const row = this.db
+      .prepare("SELECT * FROM auctions WHERE auction_id = ?")
+      .get(auctionId) as AuctionRow | undefined;
+    if (!row) return null;
+
+    return {
+      auctionId: row.auction_id,
+      bids: this.getBids(auctionId),
+      deadline: row.deadline,
+      format: JSON.parse(row.format) as AuctionFormat,
+      settled: row.settled === 1,
+      closed: row.closed === 1,
+      winner: row.winner ?? undefined,
+      price: row.price ?? undefined,
+      proof: row.settlement_proof
+        ? (JSON.parse(row.settlement_proof) as SettlementProof)
+        : undefined,
+      rankingReport: row.report_key_id
+        ? {
+            keyId: row.report_key_id,
+            wrappedKey: row.report_wrapped_key!,
+            data: row.report_sealed_data!,
+          }
+        : undefined,
+    };
+  }
+
+  insertAuction(auction: AuctionState): void {
+    this.db
+      .prepare(
+        "INSERT INTO auctions (auction_id, deadline, format, settled, closed, winner, price) VALUES (?, ?, ?, ?, ?, ?, ?)"
+      )
+      .run(
+        auction.auctionId,
+        auction.deadline,
+        JSON.stringify(auction.format),
+        auction.settled ? 1 : 0,
+        auction.closed ? 1 : 0,
+        auction.winner ?? null,
+        auction.price ?? null
+      );
+  }
+
+  listAuctions(query: AuctionQuery): AuctionPage {
+    const where = query.state ? `WHERE ${STATE_FILTERS[query.state]}` : "";
+    const params = { now: query.now, limit: query.limit, offset: query.offset };
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM auctions ${where}`)
+      .get(params) as { total: number };
+
+    const rows = this.db
+      .prepare(
+        `SELECT a.*,
+           (SELECT COUNT(*) FROM bids b WHERE b.auction_id = a.auction_id AND b.status = 'live') AS bid_count
+         FROM auctions a ${where}
+         ORDER BY deadline, auction_id
+         LIMIT @limit OFFSET @offset`
+      )
+      .all(params) as (AuctionRow & { bid_count: number })[];
+
+    return {
+      auctions: rows.map((row) => ({
+        auctionId: row.auction_id,
+        deadline: row.deadline,
+        format: JSON.parse(row.format) as AuctionFormat,
+        settled: row.settled === 1,
+        closed: row.closed === 1,
+        winner: row.winner ?? undefined,
+        price: row.price ?? undefined,
+        bidCount: row.bid_count,
+      })),
+      total,
+    };
+  }
+
+  updateAuctionDeadline(auctionId: string, deadline: number): void {
+    this.db
+      .prepare("UPDATE auctions SET deadline = ? WHERE auction_id = ?")
+      .run(deadline, auctionId);
+  }
+
+  updateAuctionFormat(auctionId: string, format: AuctionFormat): void {
+    this.db
+      .prepare("UPDATE auctions SET format = ? WHERE auction_id = ?")
+      .run(JSON.stringify(format), auctionId);
+  }
+
+  markAuctionSettled(
+    auctionId: string,
+    winner: string,
+    price: string,
+    proof: SettlementProof
+  ): void {
+    this.db
+      .prepare(
+        "UPDATE auctions SET settled = 1, closed = 0, winner = ?, price = ?, settlement_proof = ? WHERE auction_id = ?"
+      )
+      .run(winner, price, JSON.stringify(proof), auctionId);
+  }
+
+  markAuctionClosed(auctionId: string): void {
+    this.db
+      .prepare(
+        "UPDATE auctions SET settled = 0, closed = 1, winner = NULL, price = NULL, settlement_proof = NULL WHERE auction_id = ?"
+      )
+      .run(auctionId);
+  }
+
+  updateAuctionReport(auctionId: string, report: Envelope): void {
+    this.db
+      .prepare(
+        "UPDATE auctions SET report_key_id = ?, report_wrapped_key = ?, report_sealed_data = ? WHERE auction_id = ?"
+      )
+      .run(report.keyId, report.wrappedKey, report.data, auctionId);
+  }
+
+  getBids(auctionId: string): StoredBid[] {
+    const rows = this.db
+      .prepare("SELECT * FROM bids WHERE auction_id = ? ORDER BY rowid")
+      .all(auctionId) as BidRow[];
+    return rows.map(toBid);
+  }
+
+  insertBid(bid: StoredBid): void {
+    this.db
+      .prepare(
+        `INSERT INTO bids
+           (auction_id, bidder, nonce, bid_hash, timestamp, key_id, wrapped_key, sealed_data, status, revoked_by_nonce)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        bid.auctionId,
+        bid.bidder,
+        bid.nonce,
+        bid.bidHash,
+        bid.timestamp,
+        bid.sealed.keyId,
+        bid.sealed.wrappedKey,
+        bid.sealed.data,
+        bid.status,
+        bid.revokedByNonce ?? null
+      );
+  }
+
+  updateBidStatus(bidHash: string, status: BidStatus, revokedByNonce: number): void {
+    this.db
+      .prepare("UPDATE bids SET status = ?, revoked_by_nonce = ? WHERE bid_hash = ?")
+      .run(status, revokedByNonce, bidHash);
+  }
+
+  nextTokenId(): number {
+    return this.transaction(() => {
+      const row = this.db
+        .prepare("SELECT value FROM counters WHERE name = 'next_token_id'")
+        .get() as { value: number };
+      this.db
+        .prepare("UPDATE counters SET value = value + 1 WHERE name = 'next_token_id'")
+        .run();
+      return row.value;
+    });
+  }
+
+  getProperty(tokenId: number): StoredProperty | null {
+    const row = this.db
+      .prepare("SELECT * FROM properties WHERE token_id = ?")
+      .get(tokenId) as PropertyRow | undefined;
+    return row ? toProperty(row) : null;
+  }
+
+  getPropertyByPropertyId(propertyId: string): StoredProperty | null {
+    const row = this.db
+      .prepare("SELECT * FROM properties WHERE property_id = ? ORDER BY token_id LIMIT 1")
+      .get(propertyId) as PropertyRow | undefined;
+    return row ? toProperty(row) : null;
+  }
+
+  upsertProperty(property: StoredProperty): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO properties
+           (token_id, property_id, address, appraised_value_usd, owner_address, metadata_hash,
+            title_deed_number, salt_seed)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        property.tokenId,
+        property.propertyId,
+        property.address,
+        property.appraisedValueUsd,
+        property.ownerAddress,
+        property.metadataHash,
+        property.titleDeedNumber ?? null,
+        property.saltSeed ?? null
+      );
+  }
+
+  getLoanRequest(requestHash: string): StoredLoanRequest | null {
+    const row = this.db
+      .prepare("SELECT * FROM loan_requests WHERE request_hash = ?")
+      .get(requestHash) as LoanRequestRow | undefined;
+    if (!row) return null;
+
+    return {
+      requestHash: row.request_hash,
+      borrowerAddress: row.borrower_address,
+      tokenId: row.token_id,
+      requestedAmount: row.requested_amount,
+      tenureMonths: row.tenure_months,
+      nonce: row.nonce,
+      timestamp: row.timestamp,
+      sealed: toEnvelope(row),
+    };
+  }
+
+  insertLoanRequest(request: StoredLoanRequest): void {
+    this.db
+      .prepare(
+        `INSERT INTO loan_requests
+           (request_hash, borrower_address, token_id, requested_amount, tenure_months, nonce, timestamp, key_id, wrapped_key, sealed_data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        request.requestHash,
+        request.borrowerAddress,
+        request.tokenId,
+        request.requestedAmount,
+        request.tenureMonths,
+        request.nonce,
+        request.timestamp,
+        request.sealed.keyId,
+        request.sealed.wrappedKey,
+        request.sealed.data
+      );
+  }
+
+  getChainEvents(): ChainEvent[] {
+    const rows = this.db
+      .prepare("SELECT * FROM chain_events ORDER BY block_number, log_index")
+      .all() as ChainEventRow[];
+    return rows.map((row) => ({
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      logIndex: row.log_index,
+      txHash: row.tx_hash,
+      contract: row.contract,
+      name: row.name,
+      args: JSON.parse(row.args) as Record<string, string>,
+    }));
+  }
+
+  insertChainEvents(events: ChainEvent[]): void {
+    const insert = this.db.prepare(
+      `INSERT INTO chain_events
+         (block_number, log_index, block_hash, tx_hash, contract, name, args)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const e of events) {
+      insert.run(
+        e.blockNumber,
+        e.logIndex,
+        e.blockHash,
+        e.txHash,
+        e.contract,
+        e.name,
+        JSON.stringify(e.args)
+      );
+    }
+  }
+
+  deleteChainEventsAfter(blockNumber: number): void {
+    this.db.prepare("DELETE FROM chain_events WHERE block_number > ?").run(blockNumber);
+  }
+
+  getIndexCheckpoints(): IndexCheckpoint[] {
+    const rows = this.db
+      .prepare("SELECT * FROM index_checkpoints ORDER BY block_number")
+      .all() as CheckpointRow[];
+    return rows.map(toCheckpoint);
+  }
+
+  getLatestIndexCheckpoint(): IndexCheckpoint | null {
+    const row = this.db
+      .prepare("SELECT * FROM index_checkpoints ORDER BY block_number DESC LIMIT 1")
+      .get() as CheckpointRow | undefined;
+    return row ? toCheckpoint(row) : null;
+  }
+
+  insertIndexCheckpoint(checkpoint: IndexCheckpoint): void {
+    this.db
+      .prepare("INSERT INTO index_checkpoints (block_number, block_hash) VALUES (?, ?)")
+      .run(checkpoint.blockNumber, checkpoint.blockHash);
+  }
+
+  deleteIndexCheckpointsAfter(blockNumber: number): void {
+    this.db.prepare("DELETE FROM index_checkpoints WHERE block_number > ?").run(blockNumber);
+  }
+
+  pruneIndexCheckpoints(keep: number): void {
+    this.db
+      .prepare(
+        `DELETE FROM index_checkpoints WHERE block_number NOT IN
+           (SELECT block_number FROM index_checkpoints ORDER BY block_number DESC LIMIT ?)`
+      )
+      .run(keep);
+  }
+
+  appendAuditEntry(entry: AuditEntry): void {
+    this.db
+      .prepare(
+        `INSERT INTO audit_log (seq, timestamp, kind, subject, actor, data, prev_hash, hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        entry.seq,
+        entry.timestamp,
+        entry.kind,
+        entry.subject,
+        entry.actor,
+        JSON.stringify(entry.data),
+        entry.prevHash,
+        entry.hash
+      );
+  }
+
+  getLastAuditEntry(): AuditEntry | null {
+    const row = this.db
+      .prepare("SELECT * FROM audit_log ORDER BY seq DESC LIMIT 1")
+      .get() as AuditRow | undefined;
+    return row ? toAuditEntry(row) : null;
+  }
+
+  listAuditEntries(query: AuditQuery): AuditEntry[] {
+    const filters = ["seq > @after"];
+    const params: Record<string, string | number> = { after: query.after, limit: query.limit };
+    if (query.kind) {
+      filters.push("kind = @kind");
+      params.kind = query.kind;
+    }
+    if (query.subject) {
+      filters.push("subject = @subject");
+      params.subject = query.subject;
+    }
+    const rows = this.db
+      .prepare(`SELECT * FROM audit_log WHERE ${filters.join(" AND ")} ORDER BY seq LIMIT @limit`)
+      .all(params) as AuditRow[];
+    return rows.map(toAuditEntry);
+  }
+
+  listSealedRecords(): SealedRecord[] {
+    const bids = this.db
+      .prepare("SELECT bid_hash, key_id, wrapped_key, sealed_data FROM bids")
+      .all() as (SealedColumns & { bid_hash: string })[];
+    const reports = this.db
+      .prepare(
+        `SELECT auction_id, report_key_id AS key_id, report_wrapped_key AS wrapped_key, report_sealed_data AS sealed_data
+         FROM auctions WHERE report_key_id IS NOT NULL`
+      )
+      .all() as (SealedColumns & { auction_id: string })[];
+    const requests = this.db
+      .prepare("SELECT request_hash, key_id, wrapped_key, sealed_data FROM loan_requests")
+      .all() as (SealedColumns & { request_hash: string })[];
+
+    return [
+      ...bids.map((row): SealedRecord => ({
+        kind: "bid",
+        id: row.bid_hash,
+        envelope: toEnvelope(row),
+      })),
+      ...requests.map((row): SealedRecord => ({
+        kind: "loanRequest",
+        id: row.request_hash,
+        envelope: toEnvelope(row),
+      })),
+      ...reports.map((row): SealedRecord => ({
+        kind: "rankingReport",
+        id: row.auction_id,
+        envelope: toEnvelope(row),
+      })),
+    ];
+  }
+
+  updateSealedRecord(record: SealedRecord): void {
+    const SQL: { [K in SealedRecord["kind"]]: string } = {
+      bid: "UPDATE bids SET key_id = ?, wrapped_key = ?, sealed_data = ? WHERE bid_hash = ?",
+      loanRequest:
+        "UPDATE loan_requests SET key_id = ?, wrapped_key = ?, sealed_data = ? WHERE request_hash = ?",
+      rankingReport:
+        "UPDATE auctions SET report_key_id = ?, report_wrapped_key = ?, report_sealed_data = ? WHERE auction_id = ?",
+    };
+    const sql = SQL[record.kind];
+    this.db
+      .prepare(sql)
+      .run(
+        record.envelope.keyId,
+        record.envelope.wrappedKey,
+        record.envelope.data,
+        record.id
+      );
+  }
+
+  transaction<T>(fn: () => T): T {
+    // better-sqlite3 nests inner transactions as savepoints
+    return this.db.transaction(fn)();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,96 @@
+import type {
+  AuctionFormat,
+  AuctionPage,
+  AuctionQuery,
+  AuctionState,
+  BidStatus,
+  StoredBid,
+  StoredProperty,
+  StoredLoanRequest,
+} from "../store";
+import type { Envelope } from "../envelope";
+import type { SettlementProof } from "../formats";
+import type { ChainEvent, IndexCheckpoint } from "../indexer/types";
+import type { AuditEntry, AuditQuery } from "../audit";
+
+/**
+ * An encrypted field set, addressed by the record that owns it
+ * (bidHash for bids, requestHash for loan requests, auctionId for ranking
+ * reports). Used by key rotation.
+ */
+export interface SealedRecord {
+  kind: "bid" | "loanRequest" | "rankingReport";
+  id: string;
+  envelope: Envelope;
+}
+
+/**
+ * Persistence backend behind the store.ts helpers.
+ *
+ * Backends are synchronous so routes can keep their existing flow —
+ * SQLite (better-sqlite3) and the in-memory Maps both resolve immediately.
+ * Business rules (duplicate detection, defaults) stay in store.ts; backends
+ * only read and write rows.
+ */
+export interface StorageBackend {
+  /** Backend name, logged at startup. */
+  readonly name: string;
+
+  // --- Auctions ---
+  getAuction(auctionId: string): AuctionState | null;
+  insertAuction(auction: AuctionState): void;
+  listAuctions(query: AuctionQuery): AuctionPage;
+  updateAuctionDeadline(auctionId: string, deadline: number): void;
+  updateAuctionFormat(auctionId: string, format: AuctionFormat): void;
+  markAuctionSettled(
+    auctionId: string,
+    winner: string,
+    price: string,
+    proof: SettlementProof
+  ): void;
+  markAuctionClosed(auctionId: string): void;
+  updateAuctionReport(auctionId: string, report: Envelope): void;
+
+  // --- Bids ---
+  getBids(auctionId: string): StoredBid[];
+  insertBid(bid: StoredBid): void;
+  updateBidStatus(bidHash: string, status: BidStatus, revokedByNonce: number): void;
+
+  // --- Properties ---
+  nextTokenId(): number;
+  getProperty(tokenId: number): StoredProperty | null;
+  getPropertyByPropertyId(propertyId: string): StoredProperty | null;
+  upsertProperty(property: StoredProperty): void;
+
+  // --- Loan requests ---
+  getLoanRequest(requestHash: string): StoredLoanRequest | null;
+  insertLoanRequest(request: StoredLoanRequest): void;
+
+  // --- Chain index ---
+  getChainEvents(): ChainEvent[]; // in (blockNumber, logIndex) order
+  insertChainEvents(events: ChainEvent[]): void;
+  deleteChainEventsAfter(blockNumber: number): void;
+  getIndexCheckpoints(): IndexCheckpoint[]; // oldest first
+  getLatestIndexCheckpoint(): IndexCheckpoint | null;
+  insertIndexCheckpoint(checkpoint: IndexCheckpoint): void;
+  deleteIndexCheckpointsAfter(blockNumber: number): void;
+  /** Drop all but the newest `keep` checkpoints. */
+  pruneIndexCheckpoints(keep: number): void;
+
+  // --- Audit log (append-only) ---
+  appendAuditEntry(entry: AuditEntry): void;
+  getLastAuditEntry(): AuditEntry | null;
+  listAuditEntries(query: AuditQuery): AuditEntry[]; // seq order
+
+  // --- Key rotation ---
+  listSealedRecords(): SealedRecord[];
+  updateSealedRecord(record: SealedRecord): void;
+
+  /**
+   * Run `fn` atomically. Read-then-write sequences in store.ts go through
+   * here so a crash never leaves half an operation on disk.
+   */
+  transaction<T>(fn: () => T): T;
+
+  close(): void;
+}
@@ -1,103 +1,400 @@
 /**
- * In-memory storage for the LienFi private API.
+ * Storage for the LienFi private API.
  *
  * Stores:
  * - Bid data for sealed-bid auctions (keyed by auctionId)
  * - Verified property details (keyed by tokenId) — full details stored here,
  *   only the metadataHash lives on-chain in the PropertyNFT
+ * - Loan request details (keyed by requestHash)
+ *
+ * Persistence is delegated to a StorageBackend (see ./storage) — SQLite by
+ * default, in-memory for tests — selected via STORE_BACKEND.
+ *
+ * Bid amounts, bid signatures and Plaid tokens are envelope-encrypted
+ * (see ./envelope) before they reach the backend. They are only opened via
+ * openBid() during settlement and openLoanRequest() on the credit-assessment
+ * fetch path.
  */
 
+import { getStorage } from "./storage";
+import { seal, open, rewrap, activeKeyId, type Envelope } from "./envelope";
+import type { SettlementProof, SignedRankingReport } from "./formats";
+
+/** Bid fields that are only ever stored encrypted. */
+export interface SealedBidFields {
+  amount: string; // uint256 decimal string — token-agnostic
+  signature: string;
+}
+
+/**
+ * live       — counts at settlement (at most one per bidder per auction)
+ * superseded — replaced by a later bid with a higher nonce
+ * withdrawn  — pulled by a signed BidWithdrawal
+ */
+export type BidStatus = "live" | "superseded" | "withdrawn";
+
 export interface StoredBid {
   auctionId: string;
   bidder: string;
-  amount: string; // uint256 decimal string — token-agnostic
   nonce: number;
-  signature: string;
   bidHash: string;
   timestamp: number;
+  sealed: Envelope; // SealedBidFields, bound to bidHash
+  status: BidStatus;
+  revokedByNonce?: number; // nonce of the bid/withdrawal that revoked this one
+}
+
+/** A bid as submitted, or as returned by openBid(). */
+export type OpenBid = Omit<StoredBid, "sealed" | "status" | "revokedByNonce"> &
+  SealedBidFields;
+
+/**
+ * Outcome of a bid write. `supersededHash` is the bidHash the write revoked
+ * (null for a first bid) — the bid-workflow registers it on-chain alongside
+ * the new hash so the contract stops counting the old one.
+ */
+export type BidWriteResult =
+  | { ok: true; supersededHash: string | null }
+  | { ok: false; code: "NOT_FOUND" | "NO_LIVE_BID" | "STALE_NONCE"; error: string };
+
+// ─── Auction Formats ─────────────────────────────────────────────────────────
+
+export interface VickreyFormat {
+  kind: "vickrey"; // second-price — the default
+}
+
+export interface FirstPriceFormat {
+  kind: "first-price";
+}
+
+export interface EnglishFormat {
+  kind: "english";
+  incrementBps: number; // bid increment over the runner-up, e.g. 100 = 1%
 }
 
+export interface UniformPriceFormat {
+  kind: "uniform-price";
+  units: number; // tranches on offer, one per winning bid
+}
+
+/**
+ * Settlement rule for an auction — see ./formats for the engines.
+ */
+export type AuctionFormat =
+  | VickreyFormat
+  | FirstPriceFormat
+  | EnglishFormat
+  | UniformPriceFormat;
+
+export const DEFAULT_AUCTION_FORMAT: AuctionFormat = { kind: "vickrey" };
+
 export interface AuctionState {
   auctionId: string;
   bids: StoredBid[];
   deadline: number;
+  format: AuctionFormat;
+  settled: boolean;
+  closed: boolean; // closed without a sale — no eligible bid at settlement
+  winner?: string;
+  price?: string;
+  proof?: SettlementProof;
+  rankingReport?: Envelope; // SignedRankingReport, bound to "report:<auctionId>"
+}
+
+/**
+ * open    — bidding still possible
+ * expired — deadline passed, waiting for settlement
+ * settled — settled in the store (see GET /auctions/:id for on-chain state)
+ * closed  — no eligible bid at settlement; closed unsold, NFT back to the seller
+ */
+export type AuctionLifecycle = "open" | "expired" | "settled" | "closed";
+
+/** List view of an auction — no bids, proof or report. */
+export interface AuctionSummary {
+  auctionId: string;
+  deadline: number;
+  format: AuctionFormat;
   settled: boolean;
+  closed: boolean;
   winner?: string;
   price?: string;
+  bidCount: number; // live bids only
+}
+
+export interface AuctionQuery {
+  state?: AuctionLifecycle;
+  now: number; // unix seconds — splits open from expired
+  limit: number;
+  offset: number;
+}
+
+export interface AuctionPage {
+  auctions: AuctionSummary[];
+  total: number; // matching auctions before paging
+}
+
+export function auctionLifecycle(
+  auction: { deadline: number; settled: boolean; closed: boolean },
+  now: number = Math.floor(Date.now() / 1000)
+): AuctionLifecycle {
+  if (auction.settled) return "settled";
+  if (auction.closed) return "closed";
+  return now >= auction.deadline ? "expired" : "open";
 }
 
-// In-memory store — keyed by auctionId
-const auctions: Map<string, AuctionState> = new Map();
+/**
+ * Register an auction created on-chain, taking its deadline from the
+ * contract. If a bid already auto-created it, the deadline is corrected.
+ * Returns true if the auction was new to the store.
+ */
+export function registerAuction(auctionId: string, deadline: number): boolean {
+  const storage = getStorage();
+  return storage.transaction(() => {
+    const auction = storage.getAuction(auctionId);
+    if (!auction) {
+      getOrCreateAuction(auctionId, deadline);
+      return true;
+    }
+    if (auction.deadline !== deadline) {
+      storage.updateAuctionDeadline(auctionId, deadline);
+    }
+    return false;
+  });
+}
+
+/**
+ * Page through auctions ordered by deadline (soonest first).
+ */
+export function listAuctions(
+  state: AuctionLifecycle | undefined,
+  limit: number,
+  offset: number
+): AuctionPage {
+  return getStorage().listAuctions({
+    state,
+    now: Math.floor(Date.now() / 1000),
+    limit,
+    offset,
+  });
+}
 
 /**
  * Get or auto-create an auction state.
- * Auto-creates on first bid for dev convenience.
+ * Auto-creates on first bid if POST /auctions hasn't registered it yet;
+ * callers pass the on-chain deadline.
  */
 export function getOrCreateAuction(
   auctionId: string,
   deadline?: number
 ): AuctionState {
-  let auction = auctions.get(auctionId);
-  if (!auction) {
-    auction = {
-      auctionId,
-      bids: [],
-      deadline: deadline || Math.floor(Date.now() / 1000) + 3600, // default 1hr
-      settled: false,
-    };
-    auctions.set(auctionId, auction);
+  const storage = getStorage();
+  return storage.transaction(() => {
+    let auction = storage.getAuction(auctionId);
+    if (!auction) {
+      auction = {
+        auctionId,
+        bids: [],
+        deadline: deadline || Math.floor(Date.now() / 1000) + 3600, // default 1hr
+        format: DEFAULT_AUCTION_FORMAT,
+        settled: false,
+        closed: false,
+      };
+      storage.insertAuction(auction);
+    }
+    return auction;
+  });
+}
+
+/** Outcome of a format change. */
+export type FormatWriteResult =
+  | { ok: true }
+  | { ok: false; code: "NOT_FOUND" | "CONFLICT" | "INVALID_FIELD"; error: string };
+
+/**
+ * Set the settlement format for a registered auction.
+ * Only allowed before any bids arrive so bidders know the rule they bid under.
+ * uniform-price is refused: it sells several units, but LienFiAuction
+ * settles a single winner, so only the top allocation would land on-chain.
+ */
+export function setAuctionFormat(
+  auctionId: string,
+  format: AuctionFormat
+): FormatWriteResult {
+  if (format.kind === "uniform-price") {
+    return { ok: false, code: "INVALID_FIELD", error: "uniform-price can't be settled on-chain yet" };
   }
-  return auction;
+  const storage = getStorage();
+  return storage.transaction((): FormatWriteResult => {
+    const auction = storage.getAuction(auctionId);
+    if (!auction) {
+      return { ok: false, code: "NOT_FOUND", error: "Auction not found" };
+    }
+    if (auction.settled || auction.closed || auction.bids.length > 0) {
+      return { ok: false, code: "CONFLICT", error: "Auction already has bids or is settled" };
+    }
+    storage.updateAuctionFormat(auctionId, format);
+    return { ok: true };
+  });
 }
 
 /**
  * Get an existing auction or return null.
  */
 export function getAuction(auctionId: string): AuctionState | null {
-  return auctions.get(auctionId) || null;
+  return getStorage().getAuction(auctionId);
 }
 
 /**
- * Store a bid in the auction's bid list.
- * Returns false if duplicate (same bidder + auctionId).
+ * All bids (any status) from one bidder in an auction.
  */
-export function storeBid(bid: StoredBid): boolean {
-  const auction = getOrCreateAuction(bid.auctionId);
+function bidderHistory(auction: AuctionState, bidder: string): StoredBid[] {
+  return auction.bids.filter(
+    (b) => b.bidder.toLowerCase() === bidder.toLowerCase()
+  );
+}
 
-  // Reject duplicates — same bidder in same auction
-  const duplicate = auction.bids.find(
-    (b) => b.bidder.toLowerCase() === bid.bidder.toLowerCase()
+/**
+ * Highest nonce a bidder has used in an auction, counting both bids and the
+ * withdrawals that revoked them. New messages must exceed it.
+ */
+function highestNonce(history: StoredBid[]): number {
+  return history.reduce(
+    (max, b) => Math.max(max, b.nonce, b.revokedByNonce ?? -1),
+    -1
   );
-  if (duplicate) {
-    return false;
-  }
+}
+
+/**
+ * Store a bid in the auction's bid list, sealing amount and signature.
+ * A bidder with a live bid may revise it by signing with a higher nonce —
+ * the earlier bid is marked superseded. Stale nonces are rejected.
+ */
+export function storeBid(input: OpenBid): BidWriteResult {
+  const { amount, signature, ...fields } = input;
+  const bid: StoredBid = {
+    ...fields,
+    sealed: seal({ amount, signature }, input.bidHash),
+    status: "live",
+  };
+
+  const storage = getStorage();
+  return storage.transaction((): BidWriteResult => {
+    const auction = getOrCreateAuction(bid.auctionId);
+    const history = bidderHistory(auction, bid.bidder);
+
+    if (bid.nonce <= highestNonce(history)) {
+      return {
+        ok: false,
+        code: "STALE_NONCE",
+        error: "Stale nonce — revisions must use a higher nonce",
+      };
+    }
+
+    const previous = history.find((b) => b.status === "live");
+    if (previous) {
+      storage.updateBidStatus(previous.bidHash, "superseded", bid.nonce);
+    }
+
+    storage.insertBid(bid);
+    return { ok: true, supersededHash: previous ? previous.bidHash : null };
+  });
+}
+
+/**
+ * Withdraw a bidder's live bid. `nonce` comes from the signed BidWithdrawal
+ * and must exceed every nonce the bidder has used in this auction.
+ */
+export function withdrawBid(
+  auctionId: string,
+  bidder: string,
+  nonce: number
+): BidWriteResult {
+  const storage = getStorage();
+  return storage.transaction((): BidWriteResult => {
+    const auction = storage.getAuction(auctionId);
+    if (!auction) {
+      return { ok: false, code: "NOT_FOUND", error: "Auction not found" };
+    }
+
+    const history = bidderHistory(auction, bidder);
+    const live = history.find((b) => b.status === "live");
+    if (!live) {
+      return { ok: false, code: "NO_LIVE_BID", error: "No live bid from this bidder" };
+    }
 
-  auction.bids.push(bid);
-  return true;
+    if (nonce <= highestNonce(history)) {
+      return {
+        ok: false,
+        code: "STALE_NONCE",
+        error: "Stale nonce — withdrawal must use a higher nonce",
+      };
+    }
+
+    storage.updateBidStatus(live.bidHash, "withdrawn", nonce);
+    return { ok: true, supersededHash: live.bidHash };
+  });
 }
 
 /**
- * Get all bids for an auction.
+ * Decrypt a stored bid. Only settlement should call this.
+ */
+export function openBid(bid: StoredBid): OpenBid {
+  const { sealed, ...fields } = bid;
+  return { ...fields, ...open<SealedBidFields>(sealed, bid.bidHash) };
+}
+
+/**
+ * Get all bids for an auction (still sealed), including revoked ones.
  */
 export function getBids(auctionId: string): StoredBid[] {
-  const auction = auctions.get(auctionId);
-  return auction ? auction.bids : [];
+  return getStorage().getBids(auctionId);
 }
 
 /**
- * Mark an auction as settled with winner and price.
+ * Get the bids that count at settlement — each bidder's latest live bid.
+ */
+export function getLiveBids(auctionId: string): StoredBid[] {
+  return getBids(auctionId).filter((b) => b.status === "live");
+}
+
+/**
+ * Mark an auction as settled with winner, price and the settlement proof.
  */
 export function settleAuctionInStore(
   auctionId: string,
   winner: string,
-  price: string
+  price: string,
+  proof: SettlementProof
 ): void {
-  const auction = auctions.get(auctionId);
-  if (auction) {
-    auction.settled = true;
-    auction.winner = winner;
-    auction.price = price;
-  }
+  getStorage().markAuctionSettled(auctionId, winner, price, proof);
+}
+
+/**
+ * Mark an auction as closed unsold — settlement found no eligible bid.
+ * Clears any earlier store-only settlement whose report never landed.
+ */
+export function closeAuctionInStore(auctionId: string): void {
+  getStorage().markAuctionClosed(auctionId);
+}
+
+/**
+ * Seal and attach the signed ranking report produced at settlement.
+ */
+export function storeRankingReport(
+  auctionId: string,
+  report: SignedRankingReport
+): void {
+  getStorage().updateAuctionReport(auctionId, seal(report, `report:${auctionId}`));
+}
+
+/**
+ * Decrypt an auction's ranking report, or null if none was produced.
+ * Only the auditor route should call this.
+ */
+export function getRankingReport(auctionId: string): SignedRankingReport | null {
+  const auction = getStorage().getAuction(auctionId);
+  if (!auction || !auction.rankingReport) return null;
+  return open<SignedRankingReport>(auction.rankingReport, `report:${auctionId}`);
 }
 
 // ─── Property Storage ─────────────────────────────────────────────────────────
@@ -109,22 +406,33 @@ export interface StoredProperty {
   appraisedValueUsd: number;
   ownerAddress: string;
   metadataHash: string; // keccak256 of property details — matches on-chain NFT metadata
+  // Commitment preimage parts (see ./commitment). Absent on properties
+  // tokenized under the old shared-secret scheme, which can't be revealed.
+  titleDeedNumber?: string;
+  saltSeed?: string;    // bytes32; the salt is HMAC(COMMITMENT_PEPPER, saltSeed)
 }
 
-// In-memory store — keyed by tokenId
-const properties: Map<number, StoredProperty> = new Map();
-let nextTokenId = 1;
-
-export function getNextTokenId(): number {
-  return nextTokenId++;
+/**
+ * Assign the next tokenId and store the property, unless this registry
+ * property was tokenized before — then null. One transaction, so two
+ * concurrent verifications can't both mint, and the check survives restarts.
+ */
+export function tokenizeProperty(property: Omit<StoredProperty, "tokenId">): StoredProperty | null {
+  const storage = getStorage();
+  return storage.transaction(() => {
+    if (storage.getPropertyByPropertyId(property.propertyId)) return null;
+    const stored = { ...property, tokenId: storage.nextTokenId() };
+    storage.upsertProperty(stored);
+    return stored;
+  });
 }
 
-export function storeProperty(property: StoredProperty): void {
-  properties.set(property.tokenId, property);
+export function getTokenizedProperty(propertyId: string): StoredProperty | null {
+  return getStorage().getPropertyByPropertyId(propertyId);
 }
 
 export function getProperty(tokenId: number): StoredProperty | null {
-  return properties.get(tokenId) || null;
+  return getStorage().getProperty(tokenId);
 }
 
 // ─── Loan Request Storage ────────────────────────────────────────────────────
@@ -132,23 +440,67 @@ export function getProperty(tokenId: number): StoredProperty | null {
 export interface StoredLoanRequest {
   requestHash: string;
   borrowerAddress: string;
-  plaidToken: string;
   tokenId: number;
   requestedAmount: string; // uint256 decimal string (USDC 6 decimals)
   tenureMonths: number;
   nonce: number; // provided by borrower, tracked on-chain in LoanManager
   timestamp: number;
+  sealed: Envelope; // { plaidToken }, bound to requestHash
 }
 
-// In-memory store — keyed by requestHash
-const loanRequests: Map<string, StoredLoanRequest> = new Map();
+/** A loan request as submitted, or as returned by openLoanRequest(). */
+export type OpenLoanRequest = Omit<StoredLoanRequest, "sealed"> & {
+  plaidToken: string;
+};
+
+export function storeLoanRequest(input: OpenLoanRequest): boolean {
+  const { plaidToken, ...fields } = input;
+  const request: StoredLoanRequest = {
+    ...fields,
+    sealed: seal({ plaidToken }, input.requestHash),
+  };
 
-export function storeLoanRequest(request: StoredLoanRequest): boolean {
-  if (loanRequests.has(request.requestHash)) return false;
-  loanRequests.set(request.requestHash, request);
-  return true;
+  const storage = getStorage();
+  return storage.transaction(() => {
+    if (storage.getLoanRequest(request.requestHash)) return false;
+    storage.insertLoanRequest(request);
+    return true;
+  });
 }
 
 export function getLoanRequest(requestHash: string): StoredLoanRequest | null {
-  return loanRequests.get(requestHash) || null;
+  return getStorage().getLoanRequest(requestHash);
+}
+
+/**
+ * Decrypt a stored loan request. Only the credit-assessment fetch path
+ * (GET /loan-request/:hash) should call this.
+ */
+export function openLoanRequest(request: StoredLoanRequest): OpenLoanRequest {
+  const { sealed, ...fields } = request;
+  return {
+    ...fields,
+    ...open<{ plaidToken: string }>(sealed, request.requestHash),
+  };
+}
+
+// ─── Key Rotation ────────────────────────────────────────────────────────────
+
+/**
+ * Re-wrap every sealed record's data key under the active KEK.
+ * Runs in a single transaction; returns the number of records re-wrapped.
+ */
+export function rewrapSealedRecords(): number {
+  const storage = getStorage();
+  const keyId = activeKeyId();
+
+  return storage.transaction(() => {
+    let count = 0;
+    for (const record of storage.listSealedRecords()) {
+      if (record.envelope.keyId === keyId) continue;
+      storage.updateSealedRecord({ ...record, envelope: rewrap(record.envelope) });
+      count++;
+    }
+    return count;
+  });
 }
@@ -0,0 +1,132 @@
+import { before, after } from "node:test";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { z } from "zod";
+import { sign, signingPayload, type keysFileSchema, type Scope } from "./auth";
+
+/**
+ * Fixtures shared by the *.test.ts files: the real app on an ephemeral port,
+ * backed by the memory store and a throwaway keys file, and requests signed
+ * the way the workflows sign them. Test-only — nothing in src imports it.
+ */
+
+/** A keys-file credential as written to disk (ISO dates, not yet parsed). */
+export type TestKey = z.input<typeof keysFileSchema>["credentials"][number];
+
+export function testKey(client: string, scopes: Scope[]): TestKey {
+  return { keyId: `${client}-1`, client, secret: crypto.randomBytes(32).toString("hex"), scopes };
+}
+
+export function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "lienfi-"));
+}
+
+export interface SignOptions {
+  method?: string;
+  route: string;
+  body?: string;
+  timestamp?: number; // unix seconds
+}
+
+export function signedHeaders(key: TestKey, { method = "GET", route, body = "", timestamp }: SignOptions): Record<string, string> {
+  const ts = String(timestamp ?? Math.floor(Date.now() / 1000));
+  return {
+    "Content-Type": "application/json",
+    "X-Api-Key-Id": key.keyId,
+    "X-Api-Timestamp": ts,
+    "X-Api-Signature": sign(key.secret, signingPayload(method, route, ts, body)),
+  };
+}
+
+export interface ApiResponse<T> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+export interface TestApp {
+  baseUrl: string;
+  keysFile: string;
+  /** Replace the keys file; a distinct mtime makes the API re-read it. */
+  writeKeys(keys: TestKey[], mtime?: Date): void;
+  /**
+   * A signed JSON request. `headers` replaces the signed headers, e.g. to
+   * replay a captured set. `T` is the body the caller expects back.
+   */
+  request<T>(key: TestKey, method: string, route: string, body?: unknown, headers?: Record<string, string>): Promise<ApiResponse<T>>;
+}
+
+export interface TestAppOptions {
+  keys: TestKey[];
+  /** Overrides the defaults below; in place before the app is first imported. */
+  env?: Record<string, string>;
+  /**
+   * Fixtures that need the running app. Runs inside the same before() —
+   * root-level before() hooks don't wait for one another.
+   */
+  setup?: (app: TestApp) => void | Promise<void>;
+}
+
+let lastTimestamp = Infinity;
+
+/**
+ * Start the app for the calling test file: before() sets the env, listens
+ * and runs `setup`; after() closes the server. `baseUrl` is set once
+ * before() has run.
+ */
+export function useTestApp({ keys, env = {}, setup }: TestAppOptions): TestApp {
+  const keysFile = path.join(tempDir(), "api-keys.json");
+  let server: Server;
+
+  const app: TestApp = {
+    baseUrl: "",
+    keysFile,
+
+    writeKeys(credentials, mtime = new Date()) {
+      fs.writeFileSync(keysFile, JSON.stringify({ credentials }));
+      fs.utimesSync(keysFile, mtime, mtime);
+    },
+
+    async request<T>(key: TestKey, method: string, route: string, body?: unknown, headers?: Record<string, string>) {
+      const json = body === undefined ? "" : JSON.stringify(body);
+      // Every call signs with a timestamp no earlier call used, so a repeated
+      // body is a new request rather than a replay of the first response
+      const timestamp = Math.min(Math.floor(Date.now() / 1000), lastTimestamp - 1);
+      lastTimestamp = timestamp;
+      const res = await fetch(`${app.baseUrl}${route}`, {
+        method,
+        headers: headers ?? signedHeaders(key, { method, route, body: json, timestamp }),
+        body: json || undefined,
+      });
+      return { status: res.status, headers: res.headers, body: (await res.json()) as T };
+    },
+  };
+
+  before(async () => {
+    Object.assign(process.env, {
+      API_KEYS_FILE: keysFile,
+      STORE_BACKEND: "memory",
+      STORE_KEKS: `test:${crypto.randomBytes(32).toString("hex")}`,
+      STORE_KEK_ACTIVE: "test",
+      LOG_LEVEL: "error", // keep test output readable
+      ...env,
+    });
+    app.writeKeys(keys);
+
+    const { default: express } = await import("../app");
+    server = express.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    app.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    await setup?.(app);
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  return app;
+}
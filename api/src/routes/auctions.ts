@@ -0,0 +1,277 @@
+import { Router, Request, Response } from "express";
+import { ethers } from "ethers";
+import {
+  AuctionState,
+  auctionLifecycle,
+  getAuction,
+  getLiveBids,
+  listAuctions,
+  registerAuction,
+  setAuctionFormat,
+  type FormatWriteResult,
+} from "../lib/store";
+import { reconcileAuction } from "../lib/reconcile";
+import {
+  getAuctionOnChain,
+  AuctionNotFoundError,
+  type AuctionOnChain,
+} from "../lib/chain";
+import { sendError, sendInternalError } from "../lib/errors";
+import {
+  parseRequest,
+  auctionFormat,
+  auctionIdParams,
+  listAuctionsQuery,
+  registerAuctionBody,
+  type AuctionDetailResponse,
+  type AuctionFormatResponse,
+  type AuctionListResponse,
+  type ReconciliationResponse,
+} from "../lib/schemas";
+import { requireScope } from "../lib/auth";
+import { log } from "../lib/logger";
+
+const router = Router();
+
+/**
+ * Store view of an auction merged with the contract's. On-chain fields win
+ * where both exist (settled, winner) — the store can run ahead of a settle
+ * report that never landed.
+ */
+function auctionDetail(auction: AuctionState, onChain: AuctionOnChain): AuctionDetailResponse {
+  const settled = onChain.settled;
+  // The contract records an auction closed unsold as settled with no winner
+  const closed = settled && onChain.winner === ethers.ZeroAddress;
+  return {
+    auctionId: auction.auctionId,
+    state: auctionLifecycle({ deadline: auction.deadline, settled: settled && !closed, closed }),
+    deadline: auction.deadline,
+    format: auction.format,
+    bidCount: getLiveBids(auction.auctionId).length,
+    seller: onChain.seller,
+    tokenId: onChain.tokenId.toString(),
+    reservePrice: onChain.reservePrice.toString(),
+    settled,
+    winner: settled ? onChain.winner : null,
+    settledPrice: settled ? onChain.settledPrice.toString() : null,
+    settledInStore: auction.settled,
+  };
+}
+
+/** Respond to a refused format write: 400 unsupported, 404 unknown, 409 too late. */
+function sendFormatError(res: Response, written: Extract<FormatWriteResult, { ok: false }>): void {
+  if (written.code === "INVALID_FIELD") {
+    sendError(res, 400, written.code, written.error, { field: "kind" });
+    return;
+  }
+  sendError(res, written.code === "NOT_FOUND" ? 404 : 409, written.code, written.error);
+}
+
+/**
+ * GET /auctions
+ *
+ * Lists auctions known to the store, soonest deadline first. Reads the
+ * store only — use GET /auctions/:auctionId for on-chain fields.
+ *
+ * Query: state? ("open" | "expired" | "settled" | "closed"), limit? (default 50, max 200), offset? (default 0)
+ *
+ * Returns: {
+ *   auctions: [{ auctionId, state, deadline, format, settled, closed, winner?, price?, bidCount }],
+ *   total: number (matching auctions before paging),
+ *   limit: number,
+ *   offset: number
+ * }
+ */
+router.get("/", requireScope("auctions"), (req: Request, res: Response): void => {
+  try {
+    const query = parseRequest(listAuctionsQuery, req.query, res);
+    if (!query) return;
+    const { state, limit, offset } = query;
+
+    const page = listAuctions(state, limit, offset);
+    const now = Math.floor(Date.now() / 1000);
+
+    res.status(200).json({
+      auctions: page.auctions.map((a) => ({ ...a, state: auctionLifecycle(a, now) })),
+      total: page.total,
+      limit,
+      offset,
+    } satisfies AuctionListResponse);
+  } catch (err) {
+    sendInternalError(res, "AUCTIONS", err);
+  }
+});
+
+/**
+ * POST /auctions
+ *
+ * Registers an auction after the create-auction-workflow's report lands.
+ * The deadline is read from LienFiAuction, never taken from the caller,
+ * so bids can't move it. Idempotent — re-posting corrects the deadline of
+ * an auction a bid auto-created.
+ *
+ * Body: { auctionId: string (bytes32 hex), format?: AuctionFormat }
+ *
+ * Returns: 201 (new) or 200 (already known) with the GET /auctions/:auctionId body
+ */
+router.post("/", requireScope("auctions"), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = parseRequest(registerAuctionBody, req.body, res);
+    if (!body) return;
+    const { auctionId, format } = body;
+
+    let onChain: AuctionOnChain;
+    try {
+      onChain = await getAuctionOnChain(auctionId);
+    } catch (err) {
+      if (err instanceof AuctionNotFoundError) {
+        sendError(res, 404, "NOT_FOUND", "Auction not found on-chain");
+        return;
+      }
+      log.error("AUCTIONS", "On-chain read failed", { err });
+      sendError(res, 502, "UPSTREAM_UNAVAILABLE", "Failed to read auction on-chain");
+      return;
+    }
+
+    const created = registerAuction(auctionId, Number(onChain.deadline));
+
+    // A retried post with the format already in place is a no-op
+    const current = getAuction(auctionId)!.format;
+    const formatChanged = format && JSON.stringify(format) !== JSON.stringify(current);
+    if (formatChanged) {
+      const written = setAuctionFormat(auctionId, format);
+      if (!written.ok) {
+        sendFormatError(res, written);
+        return;
+      }
+    }
+
+    log.info("AUCTIONS", "Auction registered", { auctionId, created, deadline: onChain.deadline });
+
+    res.status(created ? 201 : 200).json(auctionDetail(getAuction(auctionId)!, onChain));
+  } catch (err) {
+    sendInternalError(res, "AUCTIONS", err);
+  }
+});
+
+/**
+ * GET /auctions/:auctionId
+ *
+ * One auction with its on-chain record merged in.
+ *
+ * Returns: {
+ *   auctionId, state, deadline, format, bidCount,
+ *   seller: string (address), tokenId: string, reservePrice: string (USDC, 6 decimals),
+ *   settled: boolean (on-chain), winner: string | null, settledPrice: string | null,
+ *   settledInStore: boolean
+ * }
+ */
+router.get("/:auctionId", requireScope("auctions"), async (req: Request<{ auctionId: string }>, res: Response): Promise<void> => {
+  try {
+    const params = parseRequest(auctionIdParams, req.params, res);
+    if (!params) return;
+    const { auctionId } = params;
+
+    const auction = getAuction(auctionId);
+    if (!auction) {
+      sendError(res, 404, "NOT_FOUND", "Auction not found");
+      return;
+    }
+
+    let onChain: AuctionOnChain;
+    try {
+      onChain = await getAuctionOnChain(auctionId);
+    } catch (err) {
+      if (err instanceof AuctionNotFoundError) {
+        sendError(res, 404, "NOT_FOUND", "Auction not found on-chain");
+        return;
+      }
+      log.error("AUCTIONS", "On-chain read failed", { err });
+      sendError(res, 502, "UPSTREAM_UNAVAILABLE", "Failed to read auction on-chain");
+      return;
+    }
+
+    res.status(200).json(auctionDetail(auction, onChain));
+  } catch (err) {
+    sendInternalError(res, "AUCTIONS", err);
+  }
+});
+
+/**
+ * PUT /auctions/:auctionId/format
+ *
+ * Sets the settlement format for a registered auction (404 otherwise — see
+ * POST /auctions). Must be called before the first bid arrives — the format
+ * can't change once bidding has started.
+ *
+ * Body (one of):
+ *   { kind: "vickrey" }
+ *   { kind: "first-price" }
+ *   { kind: "english", incrementBps: number }
+ *   { kind: "uniform-price", units: number } — refused (400) until the
+ *     contract can settle several winners
+ *
+ * Returns: { auctionId: string, format: AuctionFormat }
+ */
+router.put("/:auctionId/format", requireScope("auctions"), (req: Request<{ auctionId: string }>, res: Response): void => {
+  try {
+    const params = parseRequest(auctionIdParams, req.params, res);
+    if (!params) return;
+    const { auctionId } = params;
+
+    const format = parseRequest(auctionFormat, req.body, res);
+    if (!format) return;
+
+    const written = setAuctionFormat(auctionId, format);
+    if (!written.ok) {
+      sendFormatError(res, written);
+      return;
+    }
+
+    log.info("AUCTIONS", "Auction format set", { auctionId, format: format.kind });
+
+    res.status(200).json({ auctionId, format } satisfies AuctionFormatResponse);
+  } catch (err) {
+    sendInternalError(res, "AUCTIONS", err);
+  }
+});
+
+/**
+ * GET /auctions/:auctionId/reconcile
+ *
+ * Compares stored bids with the bidHashes registered on-chain without
+ * settling. Use it to spot bids whose registration report never landed.
+ *
+ * Returns: ReconciliationReport {
+ *   auctionId, onChainCount, storedCount,
+ *   counted, unregistered, revokedOnChain, revokePending, orphaned: string[],
+ *   consistent: boolean
+ * }
+ */
+router.get("/:auctionId/reconcile", requireScope("auctions"), async (req: Request<{ auctionId: string }>, res: Response): Promise<void> => {
+  try {
+    const params = parseRequest(auctionIdParams, req.params, res);
+    if (!params) return;
+    const { auctionId } = params;
+
+    if (!getAuction(auctionId)) {
+      sendError(res, 404, "NOT_FOUND", "Auction not found");
+      return;
+    }
+
+    let report;
+    try {
+      report = (await reconcileAuction(auctionId)).report;
+    } catch (err) {
+      log.error("AUCTIONS", "Reconciliation failed", { err });
+      sendError(res, 502, "UPSTREAM_UNAVAILABLE", "Failed to read bid hashes on-chain");
+      return;
+    }
+
+    res.status(200).json(report satisfies ReconciliationResponse);
+  } catch (err) {
+    sendInternalError(res, "AUCTIONS", err);
+  }
+});
+
+export default router;
@@ -0,0 +1,44 @@
+import { Router, Request, Response } from "express";
+import { listAudit } from "../lib/audit";
+import { sendInternalError } from "../lib/errors";
+import { parseRequest, auditQuery, type AuditLogResponse } from "../lib/schemas";
+import { requireScope } from "../lib/auth";
+
+const router = Router();
+
+/**
+ * GET /audit?after=&limit=&kind=&subject=
+ *
+ * Pages through the hash-chained audit log in seq order, for auditors.
+ * Unfiltered pages are contiguous, so an export built by following `after`
+ * can be checked offline with `npm run verify-audit -- <file>`.
+ *
+ * Query: {
+ *   after?: number (default 0 — entries with seq > after),
+ *   limit?: number (1–500, default 100),
+ *   kind?: AuditKind,
+ *   subject?: string (auctionId, propertyId or requestHash)
+ * }
+ *
+ * Returns: {
+ *   entries: [{ seq, timestamp, kind, subject, actor, data, prevHash, hash }],
+ *   head: { seq, hash } | null (latest entry in the whole log)
+ * }
+ */
+router.get("/", requireScope("audit"), (req: Request, res: Response): void => {
+  try {
+    const query = parseRequest(auditQuery, req.query, res);
+    if (!query) return;
+
+    const { entries, head } = listAudit(query);
+
+    res.status(200).json({
+      entries,
+      head: head && { seq: head.seq, hash: head.hash },
+    } satisfies AuditLogResponse);
+  } catch (err) {
+    sendInternalError(res, "AUDIT", err);
+  }
+});
+
+export default router;
@@ -1,125 +1,207 @@
 import { Router, Request, Response } from "express";
-import { verifyBidSignature, computeBidHash } from "../lib/eip712";
-import { storeBid, getOrCreateAuction } from "../lib/store";
-import { getPoolBalance, getLockExpiry, getAuctionOnChain } from "../lib/chain";
+import { ethers } from "ethers";
+import {
+  verifyBidSignature,
+  verifyWithdrawalSignature,
+  computeBidHash,
+} from "../lib/eip712";
+import { storeBid, withdrawBid, getAuction, getOrCreateAuction } from "../lib/store";
+import {
+  getBidEligibility,
+  AuctionNotFoundError,
+  RpcUnavailableError,
+  RpcBusyError,
+  type BidEligibility,
+} from "../lib/chain";
+import { sendError, sendInternalError, type ErrorCode } from "../lib/errors";
+import { parseRequest, bidBody, withdrawBody, type BidResponse } from "../lib/schemas";
+import { requireScope } from "../lib/auth";
+import { recordAudit } from "../lib/audit";
+import { log } from "../lib/logger";
+import { bidsTotal } from "../lib/metrics";
+import { bidderLimiter, auctionLimiter, sendRateLimited, type RateLimitName } from "../lib/rateLimit";
 
 const router = Router();
 
+/**
+ * 429 for a bid over a rate limit. Counted and logged but not audited —
+ * throttled traffic isn't a bid decision, and a flood would bloat the log.
+ */
+function bidLimited(
+  res: Response,
+  action: "submit" | "withdraw",
+  auctionId: string,
+  bidder: string,
+  limit: RateLimitName,
+  retryAfter: number
+): void {
+  bidsTotal.inc({ action, outcome: "limited", reason: limit });
+  log.warn("BID", "Bid rate limited", { action, auctionId, bidder, limit, retryAfter });
+  sendRateLimited(res, limit, retryAfter);
+}
+
+/**
+ * 403 for a bid whose EIP-712 signature doesn't recover to the bidder.
+ * Counted in the bid metrics only: anyone holding a bid key can send these
+ * unthrottled (the limits key on the bidder, so only signed bids reach
+ * them), and each would otherwise add a permanent audit entry.
+ */
+function badBidSignature(res: Response, action: "submit" | "withdraw"): void {
+  bidsTotal.inc({ action, outcome: "rejected", reason: "INVALID_SIGNATURE" });
+  sendError(res, 403, "INVALID_SIGNATURE", "Invalid signature", { field: "signature" });
+}
+
+/**
+ * Responder for a refused bid: records the code and reason in the audit log
+ * (never the amount) and the bid metrics, then sends the error. Only for
+ * bids that passed signature verification and the rate limits, so the
+ * append-only log grows no faster than the limits allow. Malformed requests
+ * and upstream failures aren't bid decisions and go straight to sendError.
+ */
+function bidRejecter(
+  req: Request,
+  res: Response,
+  action: "submit" | "withdraw",
+  auctionId: string,
+  bidder: string
+) {
+  return (status: number, code: ErrorCode, message: string, extra: { field?: string } = {}): void => {
+    recordAudit({
+      kind: "bid.rejected",
+      subject: auctionId,
+      actor: req.credential?.keyId ?? null,
+      data: { action, bidder, code, reason: message },
+    });
+    bidsTotal.inc({ action, outcome: "rejected", reason: code });
+    log.info("BID", "Bid rejected", { action, auctionId, bidder, code, reason: message });
+    sendError(res, status, code, message, extra);
+  };
+}
+
 /**
  * POST /bid
  *
  * Accepts a signed bid via Confidential HTTP from CRE Workflow 1.
+ * A bidder with a live bid may revise it before the deadline by signing a
+ * new Bid with a higher nonce; the earlier bid is superseded.
  *
  * Body: {
  *   auctionId: string (bytes32 hex),
  *   bidder: string (address),
  *   amount: string (uint256 decimal string),
  *   nonce: number,
- *   signature: string (hex),
- *   auctionDeadline: number (unix timestamp)
+ *   signature: string (hex)
  * }
  *
- * Returns: { auctionId: string, bidHash: string }
+ * The deadline is LienFiAuction's — an auction not yet registered via
+ * POST /auctions is created here with the on-chain deadline.
+ *
+ * Work is ordered cheapest first so junk can't reach the RPC quota: the
+ * EIP-712 signature is checked locally, then the bidder and auction rate
+ * limits (only signed bids count against them, so nobody can throttle a
+ * bidder they can't sign for), then one on-chain read under the shared
+ * RPC concurrency cap. Over a limit → 429 RATE_LIMITED with Retry-After.
+ *
+ * Returns: {
+ *   auctionId: string,
+ *   bidHash: string,
+ *   supersededHash: string (bytes32 — zero hash for a first bid)
+ * }
  */
-router.post("/", async (req: Request, res: Response): Promise<void> => {
+router.post("/", requireScope("bid"), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { auctionId, bidder, amount, nonce, signature, auctionDeadline } =
-      req.body;
+    const body = parseRequest(bidBody, req.body, res);
+    if (!body) return;
+    const { auctionId, bidder, amount, nonce, signature } = body;
 
-    // --- Validate required fields ---
-    if (!auctionId || !bidder || !amount || nonce === undefined || !signature) {
-      res.status(400).json({
-        error:
-          "Missing required fields: auctionId, bidder, amount, nonce, signature",
-      });
+    // --- Verify EIP-712 signature ---
+    let recoveredAddress: string;
+    try {
+      recoveredAddress = verifyBidSignature(
+        { auctionId, bidder, amount, nonce },
+        signature
+      );
+    } catch (err) {
+      badBidSignature(res, "submit");
       return;
     }
 
-    // --- Validate types ---
-    if (typeof auctionId !== "string" || !auctionId.startsWith("0x")) {
-      res.status(400).json({ error: "auctionId must be a hex string" });
+    // Recovered address must match claimed bidder
+    if (recoveredAddress.toLowerCase() !== bidder.toLowerCase()) {
+      badBidSignature(res, "submit");
       return;
     }
 
-    if (typeof bidder !== "string" || !bidder.startsWith("0x")) {
-      res.status(400).json({ error: "bidder must be an address" });
-      return;
+    // --- Rate limits (per bidder, then per auction) ---
+    for (const [limiter, key] of [
+      [bidderLimiter, bidder.toLowerCase()],
+      [auctionLimiter, auctionId.toLowerCase()],
+    ] as const) {
+      const allowed = limiter.take(key);
+      if (!allowed.ok) {
+        bidLimited(res, "submit", auctionId, bidder, limiter.name, allowed.retryAfter);
+        return;
+      }
     }
 
-    if (typeof amount !== "string" || !/^\d+$/.test(amount)) {
-      res.status(400).json({ error: "amount must be a uint256 decimal string" });
-      return;
-    }
+    const reject = bidRejecter(req, res, "submit", auctionId, bidder);
 
-    if (typeof nonce !== "number" || nonce < 0) {
-      res.status(400).json({ error: "nonce must be a non-negative number" });
-      return;
+    // --- Fetch auction and bidder funding from chain (one round trip) ---
+    let eligibility: BidEligibility;
+    try {
+      eligibility = await getBidEligibility(auctionId, bidder, process.env.USDC_ADDRESS!);
+    } catch (err) {
+      if (err instanceof AuctionNotFoundError) {
+        reject(400, "NOT_FOUND", "Auction not found on-chain", { field: "auctionId" });
+        return;
+      }
+      if (err instanceof RpcBusyError) {
+        bidLimited(res, "submit", auctionId, bidder, "chain", 1);
+        return;
+      }
+      if (err instanceof RpcUnavailableError) {
+        log.error("BID", "RPC unavailable", { err });
+        bidsTotal.inc({ action: "submit", outcome: "error", reason: "UPSTREAM_UNAVAILABLE" });
+        sendError(res, 502, "UPSTREAM_UNAVAILABLE", "Chain RPC unavailable");
+        return;
+      }
+      throw err;
     }
+    const { auction: onChainAuction } = eligibility;
 
     // --- Check auction deadline ---
-    const auction = getOrCreateAuction(auctionId, auctionDeadline);
+    const auction = getOrCreateAuction(auctionId, Number(onChainAuction.deadline));
     if (auction.settled) {
-      res.status(400).json({ error: "Auction already settled" });
+      reject(400, "AUCTION_SETTLED", "Auction already settled");
       return;
     }
 
     const now = Math.floor(Date.now() / 1000);
     if (now >= auction.deadline) {
-      res.status(400).json({ error: "Auction expired" });
-      return;
-    }
-
-    // --- Verify EIP-712 signature ---
-    let recoveredAddress: string;
-    try {
-      recoveredAddress = verifyBidSignature(
-        { auctionId, bidder, amount, nonce },
-        signature
-      );
-    } catch (err) {
-      res.status(403).json({ error: "Invalid signature" });
-      return;
-    }
-
-    // Recovered address must match claimed bidder
-    if (recoveredAddress.toLowerCase() !== bidder.toLowerCase()) {
-      res.status(403).json({
-        error: "Invalid signature",
-      });
+      reject(400, "AUCTION_EXPIRED", "Auction expired");
       return;
     }
 
     // --- On-chain eligibility checks ---
-    let onChainAuction: Awaited<ReturnType<typeof getAuctionOnChain>>;
-    try {
-      onChainAuction = await getAuctionOnChain(auctionId);
-    } catch (err) {
-      res.status(400).json({ error: "Auction not found on-chain" });
-      return;
-    }
-
     if (onChainAuction.settled) {
-      res.status(400).json({ error: "Auction already settled on-chain" });
+      reject(400, "AUCTION_SETTLED", "Auction already settled on-chain");
       return;
     }
 
     const bidAmountBn = BigInt(amount);
 
     if (bidAmountBn < onChainAuction.reservePrice) {
-      res.status(400).json({ error: "Bid below reserve price" });
+      reject(400, "BELOW_RESERVE", "Bid below reserve price", { field: "amount" });
       return;
     }
 
-    const usdcAddress = process.env.USDC_ADDRESS!;
-    const balance = await getPoolBalance(bidder, usdcAddress);
-    if (balance < bidAmountBn) {
-      res.status(400).json({ error: "Insufficient pool balance" });
+    if (eligibility.balance < bidAmountBn) {
+      reject(400, "INSUFFICIENT_BALANCE", "Insufficient pool balance");
       return;
     }
 
-    const expiry = await getLockExpiry(bidder);
-    if (expiry < onChainAuction.deadline) {
-      res.status(400).json({ error: "Lock expires before auction deadline" });
+    if (eligibility.lockExpiry < onChainAuction.deadline) {
+      reject(400, "LOCK_TOO_SHORT", "Lock expires before auction deadline");
       return;
     }
 
@@ -127,7 +209,7 @@ router.post("/", async (req: Request, res: Response): Promise<void> => {
     const bidHash = computeBidHash({ auctionId, bidder, amount, nonce });
     const timestamp = Math.floor(Date.now() / 1000);
 
-    // --- Store bid (rejects duplicates) ---
+    // --- Store bid (supersedes any live bid with a lower nonce) ---
     const stored = storeBid({
       auctionId,
       bidder,
@@ -138,19 +220,124 @@ router.post("/", async (req: Request, res: Response): Promise<void> => {
       timestamp,
     });
 
-    if (!stored) {
-      res.status(400).json({ error: "Duplicate bid from this bidder" });
+    if (!stored.ok) {
+      reject(400, stored.code, stored.error);
       return;
     }
 
-    console.log(
-      `[BID] auction=${auctionId.slice(0, 10)}... bidder=${bidder.slice(0, 10)}... hash=${bidHash.slice(0, 10)}...`
-    );
+    const supersededHash = stored.supersededHash || ethers.ZeroHash;
+
+    recordAudit({
+      kind: "bid.accepted",
+      subject: auctionId,
+      actor: req.credential?.keyId ?? null,
+      data: { bidder, bidHash, nonce, supersededHash },
+    });
+
+    bidsTotal.inc({ action: "submit", outcome: "accepted", reason: "" });
+    log.info("BID", "Bid accepted", { auctionId, bidder, bidHash, supersededHash: stored.supersededHash });
 
-    res.status(200).json({ auctionId, bidHash });
+    res.status(200).json({ auctionId, bidHash, supersededHash } satisfies BidResponse);
+  } catch (err) {
+    sendInternalError(res, "BID", err);
+  }
+});
+
+/**
+ * POST /bid/withdraw
+ *
+ * Withdraws the bidder's live bid before the deadline.
+ * Called via Confidential HTTP from CRE Workflow 1. As with POST /bid, the
+ * signature and the bidder's rate limit are checked before anything else.
+ *
+ * Body: {
+ *   auctionId: string (bytes32 hex),
+ *   bidder: string (address),
+ *   nonce: number (higher than any nonce the bidder has used),
+ *   signature: string (EIP-712 BidWithdrawal signature)
+ * }
+ *
+ * Returns: {
+ *   auctionId: string,
+ *   bidHash: string (zero hash — nothing new to register),
+ *   supersededHash: string (the withdrawn bid's hash)
+ * }
+ */
+router.post("/withdraw", requireScope("bid"), (req: Request, res: Response): void => {
+  try {
+    const body = parseRequest(withdrawBody, req.body, res);
+    if (!body) return;
+    const { auctionId, bidder, nonce, signature } = body;
+
+    // --- Verify EIP-712 signature ---
+    let recoveredAddress: string;
+    try {
+      recoveredAddress = verifyWithdrawalSignature(
+        { auctionId, bidder, nonce },
+        signature
+      );
+    } catch (err) {
+      badBidSignature(res, "withdraw");
+      return;
+    }
+
+    if (recoveredAddress.toLowerCase() !== bidder.toLowerCase()) {
+      badBidSignature(res, "withdraw");
+      return;
+    }
+
+    const allowed = bidderLimiter.take(bidder.toLowerCase());
+    if (!allowed.ok) {
+      bidLimited(res, "withdraw", auctionId, bidder, "bidder", allowed.retryAfter);
+      return;
+    }
+
+    const reject = bidRejecter(req, res, "withdraw", auctionId, bidder);
+
+    // --- Check auction deadline ---
+    const auction = getAuction(auctionId);
+    if (!auction) {
+      reject(400, "NOT_FOUND", "Auction not found", { field: "auctionId" });
+      return;
+    }
+
+    if (auction.settled) {
+      reject(400, "AUCTION_SETTLED", "Auction already settled");
+      return;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (now >= auction.deadline) {
+      reject(400, "AUCTION_EXPIRED", "Auction expired");
+      return;
+    }
+
+    // --- Withdraw live bid ---
+    const withdrawn = withdrawBid(auctionId, bidder, nonce);
+    if (!withdrawn.ok) {
+      reject(400, withdrawn.code, withdrawn.error);
+      return;
+    }
+
+    const supersededHash = withdrawn.supersededHash!;
+
+    recordAudit({
+      kind: "bid.withdrawn",
+      subject: auctionId,
+      actor: req.credential?.keyId ?? null,
+      data: { bidder, bidHash: supersededHash, nonce },
+    });
+
+    bidsTotal.inc({ action: "withdraw", outcome: "accepted", reason: "" });
+    log.info("BID", "Bid withdrawn", { auctionId, bidder, bidHash: supersededHash });
+
+    res.status(200).json({
+      auctionId,
+      bidHash: ethers.ZeroHash,
+      supersededHash,
+    } satisfies BidResponse);
   } catch (err) {
-    console.error("[BID] Unexpected error:", err);
-    res.status(500).json({ error: "Internal server error" });
+    sendInternalError(res, "BID", err);
   }
 });
 
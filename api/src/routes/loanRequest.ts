@@ -3,11 +3,30 @@ import { keccak256, AbiCoder } from "ethers";
 import {
   storeLoanRequest,
   getLoanRequest,
+  openLoanRequest,
   getProperty,
 } from "../lib/store";
+import { sendError, sendInternalError, type ErrorCode } from "../lib/errors";
+import {
+  parseRequest,
+  loanRequestBody,
+  requestHashParams,
+  scheduleQuery,
+  type LoanRequestDetails,
+  type LoanRequestReceipt,
+  type RepaymentScheduleResponse,
+} from "../lib/schemas";
+import { amortize } from "../lib/amortization";
+import { requireScope } from "../lib/auth";
+import { recordAudit } from "../lib/audit";
+import { log } from "../lib/logger";
+import { loanRequestsTotal } from "../lib/metrics";
 
 const router = Router();
 
+// Rate for schedules that don't name one — the workflow's reference rate
+const defaultRateBps = (): number => Number(process.env.INTEREST_RATE_BPS || 800);
+
 /**
  * POST /loan-request
  *
@@ -32,86 +51,81 @@ const router = Router();
  *   nonce: number
  * }
  */
-router.post("/", (req: Request, res: Response): void => {
-  const { borrowerAddress, plaidToken, tokenId, requestedAmount, tenureMonths, nonce } = req.body;
-
-  // --- Validate required fields ---
-  if (!borrowerAddress || !plaidToken || tokenId === undefined || !requestedAmount || tenureMonths === undefined || nonce === undefined) {
-    res.status(400).json({
-      error: "Missing required fields: borrowerAddress, plaidToken, tokenId, requestedAmount, tenureMonths, nonce",
+router.post("/", requireScope("loan-write"), (req: Request, res: Response): void => {
+  try {
+    const body = parseRequest(loanRequestBody, req.body, res);
+    if (!body) return;
+    const { borrowerAddress, plaidToken, tokenId, requestedAmount, tenureMonths, nonce } = body;
+
+    // --- Compute requestHash ---
+    const abiCoder = AbiCoder.defaultAbiCoder();
+    const packed = abiCoder.encode(
+      ["address", "uint256", "uint256", "uint256", "uint256"],
+      [borrowerAddress, tokenId, requestedAmount, tenureMonths, nonce]
+    );
+    const requestHash = keccak256(packed);
+
+    // Audited without the amount or Plaid token
+    const audit = { borrower: borrowerAddress, tokenId, tenureMonths, nonce };
+    const reject = (status: number, code: ErrorCode, message: string, extra: { field?: string } = {}): void => {
+      recordAudit({
+        kind: "loanRequest.rejected",
+        subject: requestHash,
+        actor: req.credential?.keyId ?? null,
+        data: { ...audit, code, reason: message },
+      });
+      loanRequestsTotal.inc({ outcome: "rejected", reason: code });
+      log.info("LOAN-REQUEST", "Loan request rejected", { requestHash, ...audit, code, reason: message });
+      sendError(res, status, code, message, extra);
+    };
+
+    // --- Verify property exists ---
+    const property = getProperty(tokenId);
+    if (!property) {
+      reject(
+        400,
+        "NOT_FOUND",
+        `Property with tokenId ${tokenId} not found. Verify property first via /verify-property.`,
+        { field: "tokenId" }
+      );
+      return;
+    }
+
+    // --- Store loan request ---
+    const stored = storeLoanRequest({
+      requestHash,
+      borrowerAddress,
+      plaidToken,
+      tokenId,
+      requestedAmount,
+      tenureMonths,
+      nonce,
+      timestamp: Date.now(),
     });
-    return;
-  }
-
-  // --- Validate types ---
-  if (typeof borrowerAddress !== "string" || !borrowerAddress.startsWith("0x")) {
-    res.status(400).json({ error: "borrowerAddress must be a hex string starting with 0x" });
-    return;
-  }
-
-  if (typeof requestedAmount !== "string" || !/^\d+$/.test(requestedAmount)) {
-    res.status(400).json({ error: "requestedAmount must be a numeric string" });
-    return;
-  }
-
-  if (typeof tokenId !== "number" || tokenId <= 0) {
-    res.status(400).json({ error: "tokenId must be a positive number" });
-    return;
-  }
 
-  if (typeof tenureMonths !== "number" || tenureMonths <= 0) {
-    res.status(400).json({ error: "tenureMonths must be a positive number" });
-    return;
-  }
+    if (!stored) {
+      reject(409, "CONFLICT", "Duplicate loan request (same requestHash)");
+      return;
+    }
 
-  if (typeof nonce !== "number" || nonce < 0) {
-    res.status(400).json({ error: "nonce must be a non-negative number" });
-    return;
-  }
-
-  // --- Verify property exists ---
-  const property = getProperty(tokenId);
-  if (!property) {
-    res.status(400).json({
-      error: `Property with tokenId ${tokenId} not found. Verify property first via /verify-property.`,
+    recordAudit({
+      kind: "loanRequest.stored",
+      subject: requestHash,
+      actor: req.credential?.keyId ?? null,
+      data: audit,
     });
-    return;
-  }
 
-  // --- Compute requestHash ---
-  const abiCoder = AbiCoder.defaultAbiCoder();
-  const packed = abiCoder.encode(
-    ["address", "uint256", "uint256", "uint256", "uint256"],
-    [borrowerAddress, tokenId, requestedAmount, tenureMonths, nonce]
-  );
-  const requestHash = keccak256(packed);
-
-  // --- Store loan request ---
-  const stored = storeLoanRequest({
-    requestHash,
-    borrowerAddress,
-    plaidToken,
-    tokenId,
-    requestedAmount,
-    tenureMonths,
-    nonce,
-    timestamp: Date.now(),
-  });
-
-  if (!stored) {
-    res.status(409).json({ error: "Duplicate loan request (same requestHash)" });
-    return;
-  }
-
-  console.log(
-    `[LOAN-REQUEST] borrower=${borrowerAddress} tokenId=${tokenId} amount=${requestedAmount} tenure=${tenureMonths} nonce=${nonce} hash=${requestHash}`
-  );
+    loanRequestsTotal.inc({ outcome: "stored", reason: "" });
+    log.info("LOAN-REQUEST", "Loan request stored", { requestHash, ...audit });
 
-  res.status(200).json({
-    requestHash,
-    tokenId,
-    nonce,
-  });
+    res.status(200).json({
+      requestHash,
+      tokenId,
+      nonce,
+    } satisfies LoanRequestReceipt);
+  } catch (err) {
+    sendInternalError(res, "LOAN-REQUEST", err);
+  }
 });
 
 /**
@@ -119,25 +133,88 @@ router.post("/", (req: Request, res: Response): void => {
  *
  * Fetch full loan request details by requestHash.
  * Used by the CRE credit-assessment workflow to retrieve request details.
- * Includes appraisedValueUsd from the property store.
+ * Includes appraisedValueUsd from the property store. This is the only route
+ * that decrypts the stored Plaid token.
  */
-router.get("/:requestHash", (req: Request, res: Response): void => {
-  const { requestHash } = req.params;
-
-  const request = getLoanRequest(requestHash);
-  if (!request) {
-    res.status(404).json({ error: "Loan request not found" });
-    return;
+router.get("/:requestHash", requireScope("loan-read"), (req: Request<{ requestHash: string }>, res: Response): void => {
+  try {
+    const params = parseRequest(requestHashParams, req.params, res);
+    if (!params) return;
+
+    const request = getLoanRequest(params.requestHash);
+    if (!request) {
+      sendError(res, 404, "NOT_FOUND", "Loan request not found");
+      return;
+    }
+
+    // Look up property appraisal value for the CRE workflow
+    const property = getProperty(request.tokenId);
+    const appraisedValueUsd = property ? property.appraisedValueUsd : 0;
+
+    res.status(200).json({
+      ...openLoanRequest(request),
+      appraisedValueUsd,
+    } satisfies LoanRequestDetails);
+  } catch (err) {
+    sendInternalError(res, "LOAN-REQUEST", err);
   }
+});
 
-  // Look up property appraisal value for the CRE workflow
-  const property = getProperty(request.tokenId);
-  const appraisedValueUsd = property ? property.appraisedValueUsd : 0;
-
-  res.status(200).json({
-    ...request,
-    appraisedValueUsd,
-  });
+/**
+ * GET /loan-request/:requestHash/schedule?rateBps=&principal=
+ *
+ * The repayment schedule for a loan request, from lib/amortization — the
+ * same integer math the credit-assessment workflow prices with. `rateBps`
+ * is the rate in the on-chain verdict (default INTEREST_RATE_BPS);
+ * `principal` the approved amount (default the requested amount).
+ *
+ * Returns: {
+ *   requestHash, principal, rateBps, tenureMonths,
+ *   emi, totalInterest, totalPaid,       // USDC base units, decimal strings
+ *   installments: [{ month, payment, principal, interest, balance }]
+ * }
+ */
+router.get("/:requestHash/schedule", requireScope("loan-read"), (req: Request<{ requestHash: string }>, res: Response): void => {
+  try {
+    const params = parseRequest(requestHashParams, req.params, res);
+    if (!params) return;
+    const query = parseRequest(scheduleQuery, req.query, res);
+    if (!query) return;
+
+    const request = getLoanRequest(params.requestHash);
+    if (!request) {
+      sendError(res, 404, "NOT_FOUND", "Loan request not found");
+      return;
+    }
+
+    const requested = BigInt(request.requestedAmount);
+    const principal = query.principal === undefined ? requested : BigInt(query.principal);
+    if (principal > requested) {
+      sendError(res, 400, "INVALID_FIELD", "principal exceeds the requested amount", { field: "principal" });
+      return;
+    }
+    const rateBps = query.rateBps ?? defaultRateBps();
+
+    const schedule = amortize(principal, rateBps, request.tenureMonths);
+    res.status(200).json({
+      requestHash: params.requestHash,
+      principal: principal.toString(),
+      rateBps,
+      tenureMonths: request.tenureMonths,
+      emi: schedule.emi.toString(),
+      totalInterest: schedule.totalInterest.toString(),
+      totalPaid: schedule.totalPaid.toString(),
+      installments: schedule.installments.map((i) => ({
+        month: i.month,
+        payment: i.payment.toString(),
+        principal: i.principal.toString(),
+        interest: i.interest.toString(),
+        balance: i.balance.toString(),
+      })),
+    } satisfies RepaymentScheduleResponse);
+  } catch (err) {
+    sendInternalError(res, "LOAN-REQUEST", err);
+  }
 });
 
 export default router;
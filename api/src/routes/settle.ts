@@ -1,79 +1,372 @@
 import { Router, Request, Response } from "express";
-import { getAuction, getBids, settleAuctionInStore } from "../lib/store";
-import { settleVickrey } from "../lib/vickrey";
-import { getAuctionOnChain } from "../lib/chain";
+import {
+  getAuction,
+  registerAuction,
+  settleAuctionInStore,
+  closeAuctionInStore,
+  storeRankingReport,
+  getRankingReport,
+} from "../lib/store";
+import { inclusionProof } from "../lib/merkle";
+import { reconcileAuction, type Reconciliation } from "../lib/reconcile";
+import {
+  settleAuction,
+  signRankingReport,
+  SettlementError,
+  type Settlement,
+} from "../lib/formats";
+import {
+  getAuctionOnChain,
+  getFundingSnapshot,
+  AuctionNotFoundError,
+  type AuctionOnChain,
+  type FundingSnapshot,
+} from "../lib/chain";
+import { sendError, sendInternalError, type ErrorCode } from "../lib/errors";
+import {
+  parseRequest,
+  settleBody,
+  proofParams,
+  auctionIdParams,
+  type BidProofResponse,
+  type RankingReportResponse,
+  type SettleResponse,
+} from "../lib/schemas";
+import { requireScope } from "../lib/auth";
+import { recordAudit } from "../lib/audit";
+import { log } from "../lib/logger";
+import { settlementDuration, timeResponse } from "../lib/metrics";
 
 const router = Router();
 
+/**
+ * No bid can win: mark the auction closed in the store and respond
+ * NO_ELIGIBLE_BIDS, on which the workflow closes it on-chain.
+ */
+function closeUnsold(
+  req: Request,
+  res: Response,
+  auctionId: string,
+  message: string,
+  extra: Record<string, unknown> = {}
+): void {
+  closeAuctionInStore(auctionId);
+  rejectSettlement(req, res, auctionId, "NO_ELIGIBLE_BIDS", message, extra);
+}
+
+/** Refuse settlement: record the code and reason in the audit log, then respond. */
+function rejectSettlement(
+  req: Request,
+  res: Response,
+  auctionId: string,
+  code: ErrorCode,
+  message: string,
+  extra: { field?: string } & Record<string, unknown> = {}
+): void {
+  recordAudit({
+    kind: "settlement.rejected",
+    subject: auctionId,
+    actor: req.credential?.keyId ?? null,
+    data: { code, reason: message },
+  });
+  log.info("SETTLE", "Settlement rejected", { auctionId, code, reason: message });
+  sendError(res, 400, code, message, extra);
+}
+
 /**
  * POST /settle
  *
- * Runs Vickrey settlement for an auction.
+ * Runs settlement for an auction using its configured format
+ * (Vickrey by default — see PUT /auctions/:id/format).
+ * Bids below the on-chain reserve are excluded; ties go to the earliest
+ * bid, then the lowest bidHash. Only bids whose hash is live on-chain are
+ * counted — see reconcileAuction() — and the discrepancies are returned.
+ * Each bidder's pool balance and lock expiry are re-read at `fundingBlock`,
+ * or the latest finalized block if the caller doesn't pin one, so repeated
+ * calls see the same funding; bids they no longer cover are disqualified
+ * and the price is computed among the remaining bids.
+ *
+ * Several auctions can be open at once; the settlement workflow calls this
+ * once per expired auction. An auction already settled here but not
+ * on-chain (its settle report failed) is settled again. An on-chain auction
+ * the store never saw is registered from the contract and settled like any
+ * other. With no eligible bid the auction is marked closed and the response
+ * is NO_ELIGIBLE_BIDS — unless live on-chain bids are missing from the
+ * store (orphaned), which is a CONFLICT so lost bids never close an auction.
+ *
+ * If REPORT_SIGNER_KEY is set, a signed ranking of every bid is stored
+ * sealed for auditors (GET /settle/:auctionId/report). It is not returned
+ * here, so it never reaches the workflow or the chain.
  * Called via Confidential HTTP from CRE Workflow 2 with encryptOutput: true.
  *
- * Body: { auctionId: string }
+ * Body: { auctionId: string, fundingBlock?: number }
  *
  * Returns: {
  *   auctionId: string,
  *   winner: string (address),
  *   price: string (uint256 decimal string),
- *   proof: string (HMAC hex)
+ *   proof: {
+ *     bidRoot, bidCount, bidHashes, priceBidHash,
+ *     commitment, signer, signature   (see SettlementProof)
+ *   },
+ *   allocations: [{ bidder, units, price }] (one per winner; several for uniform-price),
+ *   fundingBlock: number (block the funding checks were read at),
+ *   disqualified: [{ bidder, bidHash, reason: "insufficient-balance" | "lock-expired" }],
+ *   reconciliation: ReconciliationReport
  * }
  */
-router.post("/", async (req: Request, res: Response): Promise<void> => {
+router.post("/", requireScope("settle"), async (req: Request, res: Response): Promise<void> => {
+  timeResponse(res, settlementDuration);
   try {
-    const { auctionId } = req.body;
+    const body = parseRequest(settleBody, req.body, res);
+    if (!body) return;
+    const { auctionId, fundingBlock } = body;
 
-    if (!auctionId) {
-      res.status(400).json({ error: "Missing auctionId" });
+    // --- Fetch auction (reserve, deadline, settled) from chain ---
+    let onChainAuction: AuctionOnChain;
+    try {
+      onChainAuction = await getAuctionOnChain(auctionId);
+    } catch (err) {
+      if (err instanceof AuctionNotFoundError) {
+        rejectSettlement(req, res, auctionId, "NOT_FOUND", "Auction not found on-chain", { field: "auctionId" });
+        return;
+      }
+      log.error("SETTLE", "On-chain read failed", { auctionId, err });
+      sendError(res, 502, "UPSTREAM_UNAVAILABLE", "Failed to read auction on-chain");
       return;
     }
 
-    // --- Check auction exists ---
-    const auction = getAuction(auctionId);
-    if (!auction) {
-      res.status(400).json({ error: "Auction not found" });
+    if (onChainAuction.settled) {
+      rejectSettlement(req, res, auctionId, "AUCTION_SETTLED", "Auction already settled");
       return;
     }
 
-    if (auction.settled) {
-      res.status(400).json({ error: "Auction already settled" });
+    // An auction created on-chain but never registered (POST /auctions never
+    // ran and nobody bid) still has to be closed — register it from the chain.
+    if (registerAuction(auctionId, Number(onChainAuction.deadline))) {
+      log.warn("SETTLE", "Auction unknown to the store, registered from chain", { auctionId });
+    }
+    const auction = getAuction(auctionId)!;
+
+    // A store-settled auction that is still open on-chain means the
+    // workflow's settle report never landed — settle again so it can retry.
+    if (auction.settled || auction.closed) {
+      log.warn("SETTLE", "Settled or closed in store but not on-chain, re-settling", { auctionId });
+    }
+
+    // --- Reconcile stored bids against on-chain bidHashes ---
+    let reconciliation: Reconciliation;
+    try {
+      reconciliation = await reconcileAuction(auctionId);
+    } catch (err) {
+      log.error("SETTLE", "Reconciliation failed", { auctionId, err });
+      sendError(res, 502, "UPSTREAM_UNAVAILABLE", "Failed to read bid hashes on-chain");
       return;
     }
 
-    // --- Get bids ---
-    const bids = getBids(auctionId);
+    const { bids, report: reconciliationReport } = reconciliation;
+    if (!reconciliationReport.consistent) {
+      log.warn("SETTLE", "Stored bids and on-chain hashes disagree", {
+        auctionId,
+        unregistered: reconciliationReport.unregistered.length,
+        revokedOnChain: reconciliationReport.revokedOnChain.length,
+        revokePending: reconciliationReport.revokePending.length,
+        orphaned: reconciliationReport.orphaned.length,
+      });
+    }
+
     if (bids.length === 0) {
-      res.status(400).json({ error: "No bids to settle" });
+      // Bids live on-chain but missing here can't be ranked; closing would
+      // discard them, so leave the auction open for an operator.
+      if (reconciliationReport.orphaned.length > 0) {
+        log.error("SETTLE", "Live on-chain bids missing from the store", {
+          auctionId,
+          orphaned: reconciliationReport.orphaned.length,
+        });
+        sendError(res, 409, "CONFLICT", "Live on-chain bids are missing from the store", {
+          reconciliation: reconciliationReport,
+        });
+        return;
+      }
+      closeUnsold(req, res, auctionId, "No bids registered on-chain", {
+        reconciliation: reconciliationReport,
+      });
       return;
     }
 
-    // --- Fetch reserve price from chain ---
-    let reservePrice: bigint;
+    // --- Re-check bidder funding at the pinned or finalized block ---
+    let funding: FundingSnapshot;
     try {
-      const onChainAuction = await getAuctionOnChain(auctionId);
-      reservePrice = onChainAuction.reservePrice;
+      funding = await getFundingSnapshot(
+        bids.map((b) => b.bidder),
+        process.env.USDC_ADDRESS!,
+        fundingBlock
+      );
     } catch (err) {
-      res.status(400).json({ error: "Auction not found on-chain" });
+      log.error("SETTLE", "Funding check failed", { auctionId, err });
+      sendError(res, 502, "UPSTREAM_UNAVAILABLE", "Failed to read bidder funding on-chain");
       return;
     }
 
-    // --- Run Vickrey settlement ---
-    const hmacKey = process.env.HMAC_KEY || "default-hmac-key";
+    // --- Run settlement for the auction's format ---
+    const signerKey = process.env.SETTLEMENT_SIGNER_KEY;
+    if (!signerKey) {
+      log.error("SETTLE", "SETTLEMENT_SIGNER_KEY not set in environment");
+      sendError(res, 500, "SERVER_MISCONFIGURED", "Server misconfigured");
+      return;
+    }
+
+    let settlement: Settlement;
+    try {
+      settlement = settleAuction(
+        auction.format,
+        bids,
+        onChainAuction.reservePrice,
+        onChainAuction.deadline,
+        funding,
+        signerKey
+      );
+    } catch (err) {
+      if (err instanceof SettlementError) {
+        closeUnsold(req, res, auctionId, err.message, {
+          disqualified: err.disqualified,
+        });
+        return;
+      }
+      throw err;
+    }
+    const { result } = settlement;
+
+    recordAudit({
+      kind: "settlement.completed",
+      subject: auctionId,
+      actor: req.credential?.keyId ?? null,
+      data: {
+        format: auction.format.kind,
+        winner: result.winner,
+        price: result.price,
+        winners: result.allocations.length,
+        bidRoot: result.proof.bidRoot,
+        bidCount: result.proof.bidCount,
+        disqualified: result.disqualified.length,
+        fundingBlock: result.fundingBlock,
+        reconciled: reconciliationReport.consistent,
+      },
+    });
 
-    const result = settleVickrey(bids, reservePrice, hmacKey);
+    for (const d of result.disqualified) {
+      log.warn("SETTLE", "Bidder disqualified", {
+        auctionId,
+        bidder: d.bidder,
+        bidHash: d.bidHash,
+        reason: d.reason,
+        block: result.fundingBlock,
+      });
+    }
 
     // --- Update store ---
-    settleAuctionInStore(auctionId, result.winner, result.price);
+    settleAuctionInStore(auctionId, result.winner, result.price, result.proof);
 
-    console.log(
-      `[SETTLE] auction=${auctionId.slice(0, 10)}... winner=${result.winner.slice(0, 10)}... price=${result.price}`
-    );
+    const reportKey = process.env.REPORT_SIGNER_KEY;
+    if (reportKey) {
+      storeRankingReport(auctionId, signRankingReport(settlement.report, reportKey));
+    }
+
+    log.info("SETTLE", "Auction settled", {
+      auctionId,
+      format: auction.format.kind,
+      winners: result.allocations.length,
+      winner: result.winner,
+      price: result.price,
+    });
+
+    res.status(200).json({ ...result, reconciliation: reconciliationReport } satisfies SettleResponse);
+  } catch (err) {
+    sendInternalError(res, "SETTLE", err);
+  }
+});
+
+/**
+ * GET /settle/:auctionId/proof/:bidHash
+ *
+ * Inclusion proof for one bid in a settled auction. Lets a bidder confirm
+ * their bid was counted and, with their own amount ≤ price, that they
+ * legitimately lost — without revealing any other bid amount.
+ *
+ * Returns: {
+ *   auctionId, winner, price,
+ *   proof: SettlementProof,
+ *   bidHash: string,
+ *   merkleProof: string[] (sibling hashes, OpenZeppelin MerkleProof-compatible)
+ * }
+ */
+router.get(
+  "/:auctionId/proof/:bidHash",
+  requireScope("audit"),
+  (req: Request<{ auctionId: string; bidHash: string }>, res: Response): void => {
+    try {
+      const params = parseRequest(proofParams, req.params, res);
+      if (!params) return;
+      const { auctionId, bidHash } = params;
+
+      const auction = getAuction(auctionId);
+      if (!auction || !auction.settled || !auction.proof) {
+        sendError(res, 404, "NOT_FOUND", "Auction not settled");
+        return;
+      }
+
+      const committed = auction.proof.bidHashes.some(
+        (h) => h.toLowerCase() === bidHash.toLowerCase()
+      );
+      if (!committed) {
+        sendError(res, 404, "NOT_FOUND", "Bid not in settlement", { field: "bidHash" });
+        return;
+      }
+
+      res.status(200).json({
+        auctionId,
+        winner: auction.winner,
+        price: auction.price,
+        proof: auction.proof,
+        bidHash,
+        merkleProof: inclusionProof(auction.proof.bidHashes, bidHash),
+      } satisfies BidProofResponse);
+    } catch (err) {
+      sendInternalError(res, "SETTLE", err);
+    }
+  }
+);
+
+/**
+ * GET /settle/:auctionId/report
+ *
+ * Releases the signed ranking report for a settled auction to auditors.
+ * Contains every bid amount — never forward this on-chain.
+ *
+ * Returns: {
+ *   report: { auctionId, format, reservePrice, winner, clearingPrice,
+ *             fundingBlock,
+ *             bids: [{ rank, bidder, amount, timestamp, bidHash, outcome, reason? }],
+ *             generatedAt },
+ *   digest: string (keccak256 of JSON.stringify(report)),
+ *   signer: string (address),
+ *   signature: string (EIP-191 over digest)
+ * }
+ */
+router.get("/:auctionId/report", requireScope("audit"), (req: Request<{ auctionId: string }>, res: Response): void => {
+  try {
+    const params = parseRequest(auctionIdParams, req.params, res);
+    if (!params) return;
+
+    const report = getRankingReport(params.auctionId);
+    if (!report) {
+      sendError(res, 404, "NOT_FOUND", "No ranking report for this auction");
+      return;
+    }
 
-    res.status(200).json(result);
+    res.status(200).json(report satisfies RankingReportResponse);
   } catch (err) {
-    console.error("[SETTLE] Unexpected error:", err);
-    res.status(500).json({ error: "Internal server error" });
+    sendInternalError(res, "SETTLE", err);
   }
 });
 
@@ -1,18 +1,24 @@
 import { Router, Request, Response } from "express";
-import { getAuction } from "../lib/store";
+import { getAuction, getLiveBids } from "../lib/store";
+import { sendInternalError } from "../lib/errors";
+import { parseRequest, auctionIdParams, type AuctionStatusResponse } from "../lib/schemas";
+import { requireScope } from "../lib/auth";
 
 const router = Router();
 
 /**
  * GET /status/:auctionId
  *
- * Returns auction status: bid count, deadline, settled state.
+ * Returns auction status: live bid count, deadline, settled state.
+ * Superseded and withdrawn bids are not counted.
  *
  * Returns: { bidCount: number, deadline: number, settled: boolean }
  */
-router.get("/:auctionId", (req: Request<{ auctionId: string }>, res: Response): void => {
+router.get("/:auctionId", requireScope("auctions"), (req: Request<{ auctionId: string }>, res: Response): void => {
   try {
-    const { auctionId } = req.params;
+    const params = parseRequest(auctionIdParams, req.params, res);
+    if (!params) return;
+    const { auctionId } = params;
 
     const auction = getAuction(auctionId);
     if (!auction) {
@@ -20,18 +26,17 @@ router.get("/:auctionId", (req: Request<{ auctionId: string }>, res: Response):
         bidCount: 0,
         deadline: 0,
         settled: false,
-      });
+      } satisfies AuctionStatusResponse);
       return;
     }
 
     res.status(200).json({
-      bidCount: auction.bids.length,
+      bidCount: getLiveBids(auctionId).length,
       deadline: auction.deadline,
       settled: auction.settled,
-    });
+    } satisfies AuctionStatusResponse);
   } catch (err) {
-    console.error("[STATUS] Unexpected error:", err);
-    res.status(500).json({ error: "Internal server error" });
+    sendInternalError(res, "STATUS", err);
   }
 });
 
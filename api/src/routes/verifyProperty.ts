@@ -1,67 +1,66 @@
 import { Router, Request, Response } from "express";
-import { keccak256, AbiCoder } from "ethers";
+import { tokenizeProperty, getTokenizedProperty, getProperty } from "../lib/store";
+import { getPropertyRegistry, RegistryUnavailableError, type RegistryRecord } from "../lib/registry";
 import {
-  getNextTokenId,
-  storeProperty,
-} from "../lib/store";
+  COMMITMENT_ENCODING,
+  CommitmentConfigError,
+  computeMetadataHash,
+  deriveSalt,
+  newSaltSeed,
+} from "../lib/commitment";
+import { getAuctionOnChain, AuctionNotFoundError } from "../lib/chain";
+import { verifyRevealSignature } from "../lib/eip712";
+import { sendError, sendInternalError, type ErrorCode } from "../lib/errors";
+import {
+  parseRequest,
+  verifyPropertyBody,
+  tokenIdParams,
+  revealBody,
+  type VerifyPropertyResponse,
+  type RevealResponse,
+} from "../lib/schemas";
+import { requireScope } from "../lib/auth";
+import { recordAudit } from "../lib/audit";
+import { log } from "../lib/logger";
 
 const router = Router();
 
-interface Property {
-  propertyId: string;
-  address: string;
-  titleDeedNumber: string;
-  appraisedValueUsd: number;
-  ownerVerified: boolean;
-  tokenized: boolean; // prevents double-tokenization
-}
-
-// Simulated property title registry — pre-seeded for demo
-const propertyRegistry: Map<string, Property> = new Map([
-  [
-    "PROP-001",
-    {
-      propertyId: "PROP-001",
-      address: "123 Main St, Austin TX",
-      titleDeedNumber: "TX-2024-00123",
-      appraisedValueUsd: 1_000_000,
-      ownerVerified: true,
-      tokenized: false,
+/** Record the verdict in the audit log, then send it. */
+function sendVerdict(
+  req: Request,
+  res: Response,
+  propertyId: string,
+  sellerAddress: string,
+  verdict: VerifyPropertyResponse
+): void {
+  recordAudit({
+    kind: "property.verification",
+    subject: propertyId,
+    actor: req.credential?.keyId ?? null,
+    data: {
+      valid: verdict.valid,
+      seller: sellerAddress,
+      tokenId: verdict.tokenId,
+      metadataHash: verdict.metadataHash,
+      reason: verdict.valid ? "verified" : verdict.message,
     },
-  ],
-  [
-    "PROP-002",
-    {
-      propertyId: "PROP-002",
-      address: "456 Ocean Dr, Miami FL",
-      titleDeedNumber: "FL-2024-00456",
-      appraisedValueUsd: 2_500_000,
-      ownerVerified: true,
-      tokenized: false,
-    },
-  ],
-  [
-    "PROP-003",
-    {
-      propertyId: "PROP-003",
-      address: "789 Sunset Blvd, Los Angeles CA",
-      titleDeedNumber: "CA-2024-00789",
-      appraisedValueUsd: 800_000,
-      ownerVerified: false, // unverified owner — for negative test
-      tokenized: false,
-    },
-  ],
-]);
+  });
+  res.status(200).json(verdict);
+}
 
-// Secret used to make metadataHash unpredictable — in production this lives in CRE enclave
-const COMMITMENT_SECRET = "lienfi-demo-secret-2024";
+// A reveal request may be signed at most this far ahead of its expiry
+const MAX_REVEAL_WINDOW_SECONDS = 24 * 60 * 60;
 
 /**
  * POST /verify-property
  *
  * Called via Confidential HTTP from the CRE workflow.
- * Verifies that a property exists, has a clear title, and hasn't already been tokenized.
- * Returns a tokenId and metadataHash (keccak256 of property details) for NFT minting.
+ * Verifies against the property registry (lib/registry — a local file or
+ * an HTTP title registry) that the property exists, has a clear title and
+ * is owned by `sellerAddress`, and that it hasn't already been tokenized.
+ * Returns a tokenId and metadataHash (a salted commitment to the property
+ * details, see lib/commitment) for NFT minting.
+ * A registry that can't be reached is a 502, not an invalid verdict.
  *
  * Body: {
  *   propertyId: string,      // e.g. "PROP-001"
@@ -71,91 +70,268 @@ const COMMITMENT_SECRET = "lienfi-demo-secret-2024";
  * Returns: {
  *   valid: boolean,
  *   tokenId: number,          // assigned token ID
- *   metadataHash: string,     // keccak256(address + appraisedValue + titleDeed + secret)
+ *   metadataHash: string,     // keccak256(abi.encode(address, appraisedValue, titleDeed, salt))
  *   appraisedValue: string,   // total property value in USD
  *   message: string
  * }
  */
-router.post("/", (req: Request, res: Response): void => {
-  const { propertyId, sellerAddress } = req.body;
+router.post("/", requireScope("verify"), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = parseRequest(verifyPropertyBody, req.body, res);
+    if (!body) return;
+    const { propertyId, sellerAddress } = body;
 
-  // --- Validate required fields ---
-  if (!propertyId || !sellerAddress) {
-    res.status(400).json({
-      error: "Missing required fields: propertyId, sellerAddress",
-    });
-    return;
-  }
+    // --- Look up property ---
+    let property: RegistryRecord | null;
+    try {
+      property = await getPropertyRegistry().lookup(propertyId);
+    } catch (err) {
+      if (err instanceof RegistryUnavailableError) {
+        log.error("VERIFY-PROPERTY", "Registry lookup failed", { propertyId, err });
+        sendError(res, 502, "UPSTREAM_UNAVAILABLE", "Property registry unavailable");
+        return;
+      }
+      throw err;
+    }
 
-  // --- Look up property ---
-  const property = propertyRegistry.get(propertyId);
+    if (!property) {
+      sendVerdict(req, res, propertyId, sellerAddress, {
+        valid: false,
+        tokenId: 0,
+        metadataHash: "0x",
+        appraisedValue: "0",
+        message: `Property ${propertyId} not found in registry`,
+      });
+      return;
+    }
 
-  if (!property) {
-    res.status(200).json({
-      valid: false,
-      tokenId: 0,
-      metadataHash: "0x",
-      appraisedValue: "0",
-      message: `Property ${propertyId} not found in registry`,
+    if (property.ownerAddress !== sellerAddress) {
+      sendVerdict(req, res, propertyId, sellerAddress, {
+        valid: false,
+        tokenId: 0,
+        metadataHash: "0x",
+        appraisedValue: "0",
+        message: "Seller is not the registered owner of this property",
+      });
+      return;
+    }
+
+    if (!property.titleClear) {
+      sendVerdict(req, res, propertyId, sellerAddress, {
+        valid: false,
+        tokenId: 0,
+        metadataHash: "0x",
+        appraisedValue: property.appraisedValueUsd.toString(),
+        message: "Property owner not verified — title deed pending clearance",
+      });
+      return;
+    }
+
+    if (getTokenizedProperty(propertyId)) {
+      sendVerdict(req, res, propertyId, sellerAddress, {
+        valid: false,
+        tokenId: 0,
+        metadataHash: "0x",
+        appraisedValue: property.appraisedValueUsd.toString(),
+        message: "Property already tokenized — cannot tokenize twice",
+      });
+      return;
+    }
+
+    // --- Compute metadataHash over a fresh per-property salt ---
+    const saltSeed = newSaltSeed();
+    let salt: string;
+    try {
+      salt = deriveSalt(saltSeed);
+    } catch (err) {
+      if (err instanceof CommitmentConfigError) {
+        log.error("VERIFY-PROPERTY", "Cannot commit to property", { err });
+        sendError(res, 500, "SERVER_MISCONFIGURED", "Commitment pepper not configured");
+        return;
+      }
+      throw err;
+    }
+    const metadataHash = computeMetadataHash({
+      address: property.address,
+      appraisedValueUsd: property.appraisedValueUsd.toString(),
+      titleDeedNumber: property.titleDeedNumber,
+      salt,
     });
-    return;
-  }
 
-  if (!property.ownerVerified) {
-    res.status(200).json({
-      valid: false,
-      tokenId: 0,
-      metadataHash: "0x",
-      appraisedValue: property.appraisedValueUsd.toString(),
-      message: "Property owner not verified — title deed pending clearance",
+    // --- Assign tokenId and store (re-checked atomically) ---
+    const stored = tokenizeProperty({
+      propertyId: property.propertyId,
+      address: property.address,
+      appraisedValueUsd: property.appraisedValueUsd,
+      ownerAddress: sellerAddress,
+      metadataHash,
+      titleDeedNumber: property.titleDeedNumber,
+      saltSeed,
     });
-    return;
-  }
+    if (!stored) {
+      sendVerdict(req, res, propertyId, sellerAddress, {
+        valid: false,
+        tokenId: 0,
+        metadataHash: "0x",
+        appraisedValue: property.appraisedValueUsd.toString(),
+        message: "Property already tokenized — cannot tokenize twice",
+      });
+      return;
+    }
+    const { tokenId } = stored;
 
-  if (property.tokenized) {
-    res.status(200).json({
-      valid: false,
-      tokenId: 0,
-      metadataHash: "0x",
+    log.info("VERIFY-PROPERTY", "Property verified", { propertyId, seller: sellerAddress, tokenId, metadataHash });
+
+    sendVerdict(req, res, propertyId, sellerAddress, {
+      valid: true,
+      tokenId,
+      metadataHash,
       appraisedValue: property.appraisedValueUsd.toString(),
-      message: "Property already tokenized — cannot tokenize twice",
+      message: `Property ${propertyId} (${property.address}) verified. TokenId=${tokenId}`,
     });
-    return;
+  } catch (err) {
+    sendInternalError(res, "VERIFY-PROPERTY", err);
   }
+});
 
-  // --- Compute metadataHash ---
-  // keccak256(propertyAddress + appraisedValue + titleDeedNumber + secret)
-  const abiCoder = AbiCoder.defaultAbiCoder();
-  const packed = abiCoder.encode(
-    ["string", "uint256", "string", "string"],
-    [property.address, property.appraisedValueUsd, property.titleDeedNumber, COMMITMENT_SECRET]
-  );
-  const metadataHash = keccak256(packed);
-
-  // --- Assign tokenId and store ---
-  const tokenId = getNextTokenId();
-  property.tokenized = true;
-
-  storeProperty({
-    tokenId,
-    propertyId: property.propertyId,
-    address: property.address,
-    appraisedValueUsd: property.appraisedValueUsd,
-    ownerAddress: sellerAddress,
-    metadataHash,
-  });
+/**
+ * POST /verify-property/:tokenId/reveal
+ *
+ * Hands the commitment preimage of a tokenized property to its registered
+ * owner, or to the winner of a settled auction of that token, so they can
+ * recompute keccak256(abi.encode(...preimage)) and check it against
+ * PropertyNFT.tokenMetadataHash(tokenId).
+ *
+ * Body: {
+ *   requester: string,   // owner or auction winner — the EIP-712 signer
+ *   expiry: number,      // unix seconds, in the future and at most 24h ahead
+ *   signature: string,   // EIP-712 RevealRequest { tokenId, requester, expiry }
+ *   auctionId?: string   // settled auction the requester won (winners only)
+ * }
+ *
+ * Returns: {
+ *   tokenId: number,
+ *   metadataHash: string,
+ *   encoding: string[],  // abi.encode types, in preimage field order
+ *   preimage: { address, appraisedValueUsd, titleDeedNumber, salt }
+ * }
+ */
+router.post("/:tokenId/reveal", requireScope("reveal"), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const params = parseRequest(tokenIdParams, req.params, res);
+    if (!params) return;
+    const body = parseRequest(revealBody, req.body, res);
+    if (!body) return;
+    const { tokenId } = params;
+    const { requester, expiry, signature, auctionId } = body;
 
-  console.log(
-    `[VERIFY-PROPERTY] propertyId=${propertyId} seller=${sellerAddress} tokenId=${tokenId} metadataHash=${metadataHash}`
-  );
+    const audit = { tokenId, requester, auctionId: auctionId ?? null };
+    const reject = (status: number, code: ErrorCode, message: string, extra: { field?: string } = {}): void => {
+      recordAudit({
+        kind: "property.reveal",
+        subject: String(tokenId),
+        actor: req.credential?.keyId ?? null,
+        data: { ...audit, granted: false, code, reason: message },
+      });
+      log.info("VERIFY-PROPERTY", "Reveal refused", { ...audit, code, reason: message });
+      sendError(res, status, code, message, extra);
+    };
 
-  res.status(200).json({
-    valid: true,
-    tokenId,
-    metadataHash,
-    appraisedValue: property.appraisedValueUsd.toString(),
-    message: `Property ${propertyId} (${property.address}) verified. TokenId=${tokenId}`,
-  });
+    const now = Math.floor(Date.now() / 1000);
+    if (expiry <= now || expiry > now + MAX_REVEAL_WINDOW_SECONDS) {
+      reject(400, "INVALID_FIELD", "expiry must be in the future and at most 24h ahead", { field: "expiry" });
+      return;
+    }
+
+    let recovered: string;
+    try {
+      recovered = verifyRevealSignature({ tokenId, requester, expiry }, signature);
+    } catch {
+      reject(403, "INVALID_SIGNATURE", "Invalid signature", { field: "signature" });
+      return;
+    }
+    if (recovered !== requester) {
+      reject(403, "INVALID_SIGNATURE", "Invalid signature", { field: "signature" });
+      return;
+    }
+
+    const property = getProperty(tokenId);
+    if (!property) {
+      reject(404, "NOT_FOUND", `Property with tokenId ${tokenId} not found`);
+      return;
+    }
+
+    // --- Authorize: registered owner, or winner of a settled auction of this token ---
+    let role: "owner" | "winner" | null = null;
+    if (requester === property.ownerAddress) {
+      role = "owner";
+    } else if (auctionId) {
+      try {
+        const auction = await getAuctionOnChain(auctionId);
+        if (auction.settled && auction.tokenId === BigInt(tokenId) && auction.winner.toLowerCase() === requester.toLowerCase()) {
+          role = "winner";
+        }
+      } catch (err) {
+        if (!(err instanceof AuctionNotFoundError)) {
+          log.error("VERIFY-PROPERTY", "On-chain read failed", { auctionId, err });
+          sendError(res, 502, "UPSTREAM_UNAVAILABLE", "Failed to read auction on-chain");
+          return;
+        }
+      }
+    }
+    if (!role) {
+      reject(403, "FORBIDDEN", "Requester is neither the owner nor the winner of a settled auction of this token");
+      return;
+    }
+
+    // Tokenized before per-property salts — nothing to reveal
+    if (!property.saltSeed || !property.titleDeedNumber) {
+      reject(409, "CONFLICT", "Property was committed without a revealable salt");
+      return;
+    }
+
+    let salt: string;
+    try {
+      salt = deriveSalt(property.saltSeed);
+    } catch (err) {
+      if (err instanceof CommitmentConfigError) {
+        log.error("VERIFY-PROPERTY", "Cannot reveal property", { err });
+        sendError(res, 500, "SERVER_MISCONFIGURED", "Commitment pepper not configured");
+        return;
+      }
+      throw err;
+    }
+    const preimage = {
+      address: property.address,
+      appraisedValueUsd: property.appraisedValueUsd.toString(),
+      titleDeedNumber: property.titleDeedNumber,
+      salt,
+    };
+
+    // A different pepper than at tokenization would hand out a useless preimage
+    if (computeMetadataHash(preimage) !== property.metadataHash) {
+      log.error("VERIFY-PROPERTY", "Recomputed commitment does not match", { tokenId });
+      sendError(res, 500, "SERVER_MISCONFIGURED", "Commitment pepper does not match the one used at tokenization");
+      return;
+    }
+
+    recordAudit({
+      kind: "property.reveal",
+      subject: String(tokenId),
+      actor: req.credential?.keyId ?? null,
+      data: { ...audit, granted: true, role },
+    });
+    log.info("VERIFY-PROPERTY", "Preimage revealed", { ...audit, role });
+
+    res.status(200).json({
+      tokenId,
+      metadataHash: property.metadataHash,
+      encoding: [...COMMITMENT_ENCODING],
+      preimage,
+    } satisfies RevealResponse);
+  } catch (err) {
+    sendInternalError(res, "VERIFY-PROPERTY", err);
+  }
 });
 
 export default router;
@@ -0,0 +1,132 @@
+import dotenv from "dotenv";
+import crypto from "crypto";
+import * as fs from "fs";
+import { z } from "zod";
+import { SCOPES, keysFilePath, keysFileSchema, type Scope } from "../lib/auth";
+
+dotenv.config();
+
+/**
+ * Manage the API keys file (API_KEYS_FILE). The API re-reads it on change.
+ *
+ *   npm run api-keys -- list
+ *   npm run api-keys -- add <client> <scope,...>
+ *   npm run api-keys -- rotate <client> [overlapHours=24]
+ *   npm run api-keys -- prune
+ *
+ * Rotation procedure:
+ *   1. `rotate` issues a new key with the client's scopes and sets the old
+ *      key(s) to expire after the overlap
+ *   2. Store the printed secret in the workflow's Vault secret and point its
+ *      config apiKeyId at the new key, within the overlap
+ *   3. `prune` once the old key has expired
+ */
+
+type StoredCredential = z.input<typeof keysFileSchema>["credentials"][number];
+
+function readFile(file: string): StoredCredential[] {
+  if (!fs.existsSync(file)) return [];
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  keysFileSchema.parse(raw);
+  return raw.credentials;
+}
+
+function writeFile(file: string, credentials: StoredCredential[]): void {
+  keysFileSchema.parse({ credentials });
+  fs.writeFileSync(file, JSON.stringify({ credentials }, null, 2) + "\n", { mode: 0o600 });
+}
+
+/** <client>-<n>, one past the highest n issued to the client so far. */
+function nextKeyId(client: string, credentials: StoredCredential[]): string {
+  const used = credentials
+    .filter((c) => c.client === client)
+    .map((c) => Number(c.keyId.slice(client.length + 1)))
+    .filter(Number.isInteger);
+  return `${client}-${Math.max(0, ...used) + 1}`;
+}
+
+function issue(client: string, scopes: Scope[], credentials: StoredCredential[]): StoredCredential {
+  const credential: StoredCredential = {
+    keyId: nextKeyId(client, credentials),
+    client,
+    secret: crypto.randomBytes(32).toString("hex"),
+    scopes,
+    notBefore: new Date().toISOString(),
+  };
+  credentials.push(credential);
+  console.log(`[API-KEYS] Issued ${credential.keyId} scopes=${scopes.join(",")}`);
+  console.log(`[API-KEYS] Secret (shown once): ${credential.secret}`);
+  return credential;
+}
+
+function parseScopes(arg: string | undefined): Scope[] {
+  const scopes = (arg ?? "").split(",").filter(Boolean);
+  const unknown = scopes.filter((s) => !(SCOPES as readonly string[]).includes(s));
+  if (scopes.length === 0 || unknown.length > 0) {
+    throw new Error(`Scopes must be a comma-separated subset of: ${SCOPES.join(", ")}`);
+  }
+  return scopes as Scope[];
+}
+
+function main(): void {
+  const [command, ...args] = process.argv.slice(2);
+  const file = keysFilePath();
+  const credentials = readFile(file);
+  const now = Date.now();
+
+  switch (command) {
+    case "list": {
+      for (const c of credentials) {
+        const window = `${c.notBefore ?? "-"} → ${c.notAfter ?? "-"}`;
+        console.log(`${c.keyId}\t${c.client}\t${c.scopes.join(",")}\t${window}`);
+      }
+      return;
+    }
+
+    case "add": {
+      const [client, scopes] = args;
+      if (!client) throw new Error("Usage: add <client> <scope,...>");
+      issue(client, parseScopes(scopes), credentials);
+      break;
+    }
+
+    case "rotate": {
+      const [client, overlap = "24"] = args;
+      const overlapHours = Number(overlap);
+      if (!client || !(overlapHours >= 0)) throw new Error("Usage: rotate <client> [overlapHours]");
+
+      const current = credentials.filter(
+        (c) => c.client === client && (!c.notAfter || Date.parse(c.notAfter) > now)
+      );
+      if (current.length === 0) throw new Error(`No active key for client ${client}`);
+
+      const expiry = new Date(now + overlapHours * 3_600_000).toISOString();
+      for (const c of current) {
+        c.notAfter = expiry;
+        console.log(`[API-KEYS] ${c.keyId} now expires ${expiry}`);
+      }
+      issue(client, current[current.length - 1].scopes, credentials);
+      break;
+    }
+
+    case "prune": {
+      const kept = credentials.filter((c) => !c.notAfter || Date.parse(c.notAfter) > now);
+      console.log(`[API-KEYS] Removed ${credentials.length - kept.length} expired key(s)`);
+      writeFile(file, kept);
+      return;
+    }
+
+    default:
+      throw new Error("Usage: api-keys <list|add|rotate|prune> ...");
+  }
+
+  writeFile(file, credentials);
+  console.log(`[API-KEYS] Wrote ${credentials.length} key(s) to ${file}`);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(`[API-KEYS] ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+}
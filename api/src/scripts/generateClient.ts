@@ -0,0 +1,32 @@
+import * as fs from "fs";
+import * as path from "path";
+import { buildOpenApiDocument } from "../lib/openapi";
+import { renderAmortization, renderClient } from "../lib/clientgen";
+
+export const CLIENT_DIR = path.resolve(__dirname, "../../../cre-workflows/api-client");
+export const AMORTIZATION_SOURCE = path.resolve(__dirname, "../lib/amortization.ts");
+
+/**
+ * Regenerate cre-workflows/api-client from the route schemas:
+ *   openapi.json — the document GET /openapi.json serves
+ *   index.ts     — types + request builders (see ../lib/clientgen)
+ *   amortization.ts — a copy of ../lib/amortization, so both sides do the same math
+ *
+ * Run `npm run gen:client` after changing a schema; `npm test` fails until
+ * the checked-in client matches.
+ */
+function main(): void {
+  const doc = buildOpenApiDocument();
+  fs.mkdirSync(CLIENT_DIR, { recursive: true });
+  fs.writeFileSync(path.join(CLIENT_DIR, "openapi.json"), JSON.stringify(doc, null, 2) + "\n");
+  fs.writeFileSync(path.join(CLIENT_DIR, "index.ts"), renderClient(doc));
+  fs.writeFileSync(
+    path.join(CLIENT_DIR, "amortization.ts"),
+    renderAmortization(fs.readFileSync(AMORTIZATION_SOURCE, "utf8"))
+  );
+  console.log(`[GEN-CLIENT] Wrote ${Object.keys(doc.paths).length} path(s) to ${CLIENT_DIR}`);
+}
+
+if (require.main === module) {
+  main();
+}
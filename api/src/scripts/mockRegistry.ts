@@ -0,0 +1,25 @@
+import dotenv from "dotenv";
+import { FileRegistry, createMockTitleRegistry } from "../lib/registry";
+
+dotenv.config();
+
+/**
+ * Serve a registry file as a title-registry HTTP service, for trying the
+ * API's HTTP adapter locally.
+ *
+ *   npm run mock-registry -- [file=./property-registry.json] [port=4010]
+ *
+ * Then run the API with PROPERTY_REGISTRY=http and
+ * PROPERTY_REGISTRY_URL=http://localhost:4010. PROPERTY_REGISTRY_TOKEN, if
+ * set, is required as a bearer token here too.
+ */
+function main(): void {
+  const [file = "./property-registry.json", port = "4010"] = process.argv.slice(2);
+
+  const app = createMockTitleRegistry(new FileRegistry(file), process.env.PROPERTY_REGISTRY_TOKEN || undefined);
+  app.listen(Number(port), () => {
+    console.log(`[MOCK-REGISTRY] Serving ${file} at http://localhost:${port}/properties/:propertyId`);
+  });
+}
+
+main();
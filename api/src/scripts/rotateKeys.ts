@@ -0,0 +1,23 @@
+import dotenv from "dotenv";
+import { rewrapSealedRecords } from "../lib/store";
+import { activeKeyId } from "../lib/envelope";
+import { getStorage } from "../lib/storage";
+
+dotenv.config();
+
+/**
+ * Re-wrap all sealed bids and loan requests under STORE_KEK_ACTIVE.
+ *
+ * Rotation procedure:
+ *   1. Add the new key to STORE_KEKS, keeping the old one listed
+ *   2. Point STORE_KEK_ACTIVE at the new key and restart the API
+ *   3. Run `npm run rotate-keys`
+ *   4. Remove the old key from STORE_KEKS
+ */
+function main(): void {
+  const count = rewrapSealedRecords();
+  console.log(`[ROTATE] Re-wrapped ${count} record(s) under key ${activeKeyId()}`);
+  getStorage().close();
+}
+
+main();
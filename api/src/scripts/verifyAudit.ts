@@ -0,0 +1,50 @@
+import dotenv from "dotenv";
+import * as fs from "fs";
+import { ethers } from "ethers";
+import { z } from "zod";
+import { verifyAuditChain, type AuditEntry } from "../lib/audit";
+import { auditEntry, auditLogResponse } from "../lib/schemas";
+import { getStorage } from "../lib/storage";
+
+dotenv.config();
+
+/**
+ * Check the audit log's hash chain.
+ *
+ *   npm run verify-audit -- <export.json> [prevHash]
+ *   npm run verify-audit                      (reads the configured store)
+ *
+ * The export is a JSON array of entries, or GET /audit responses (one, or an
+ * array of pages) — follow `after` without filters so the pages are
+ * contiguous. An export that starts after seq 1 needs the hash of the entry
+ * before it, from an earlier verified run.
+ */
+const exportSchema = z.array(z.union([auditLogResponse, auditEntry]));
+
+function readExport(file: string): AuditEntry[] {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  const items = exportSchema.parse(Array.isArray(raw) ? raw : [raw]);
+  return items.flatMap((item) => ("entries" in item ? item.entries : [item]));
+}
+
+function main(): void {
+  const [file, prevHash = ethers.ZeroHash] = process.argv.slice(2);
+
+  let entries: AuditEntry[];
+  if (file) {
+    entries = readExport(file);
+  } else {
+    const storage = getStorage();
+    entries = storage.listAuditEntries({ after: 0, limit: Number.MAX_SAFE_INTEGER });
+    storage.close();
+  }
+
+  const result = verifyAuditChain(entries, prevHash);
+  if (!result.ok) {
+    console.error(`[VERIFY-AUDIT] Broken at seq ${result.seq}: ${result.reason}`);
+    process.exit(1);
+  }
+  console.log(`[VERIFY-AUDIT] ${result.count} entr${result.count === 1 ? "y" : "ies"} verified, head=${result.head}`);
+}
+
+main();
@@ -1,44 +1,22 @@
-import express from "express";
-import cors from "cors";
 import dotenv from "dotenv";
-import { authMiddleware } from "./lib/auth";
-import bidRouter from "./routes/bid";
-import settleRouter from "./routes/settle";
-import statusRouter from "./routes/status";
-import verifyPropertyRouter from "./routes/verifyProperty";
-import loanRequestRouter from "./routes/loanRequest";
+import app, { protectedRoutes } from "./app";
+import { log } from "./lib/logger";
+import { startIndexer } from "./lib/indexer";
 
 dotenv.config();
 
-const app = express();
 const PORT = process.env.PORT || 3001;
 
-// --- Middleware ---
-app.use(cors());
-app.use(express.json());
-
-// --- Health check (no auth) ---
-app.get("/health", (_req, res) => {
-  res.json({ status: "ok", timestamp: Date.now() });
-});
-
-// --- Protected routes (API key required) ---
-app.use("/bid", authMiddleware, bidRouter);
-app.use("/settle", authMiddleware, settleRouter);
-app.use("/status", authMiddleware, statusRouter);
-app.use("/verify-property", authMiddleware, verifyPropertyRouter);
-app.use("/loan-request", authMiddleware, loanRequestRouter);
-
 // --- Start server ---
 app.listen(PORT, () => {
-  console.log(`\n LienFi API running on port ${PORT}`);
-  console.log(`   POST /bid              — Submit a signed bid`);
-  console.log(`   POST /settle           — Run Vickrey settlement`);
-  console.log(`   GET  /status/:id       — Auction status`);
-  console.log(`   POST /verify-property  — Verify property for tokenization`);
-  console.log(`   POST /loan-request     — Submit loan request details`);
-  console.log(`   GET  /loan-request/:h  — Fetch loan request by hash`);
-  console.log(`   GET  /health           — Health check\n`);
+  // Routes and their bodies are described at /openapi.json
+  log.info("SERVER", "LienFi API listening", {
+    port: Number(PORT),
+    routes: protectedRoutes.map(([path]) => path),
+    unsigned: ["/health", "/openapi.json", "/metrics"],
+  });
+
+  startIndexer();
 });
 
 export default app;
@@ -46,20 +46,27 @@ import {ReceiverTemplate} from "./ReceiverTemplate.sol";
  * - Bid token is always USDC (i_usdc immutable): bidders deposit arbitrary USDC amounts.
  * - World ID integration: pool deposits require ZK proof — one human, one deposit.
  * - Auction lifecycle: CRE-only bid registration and settlement via onReport.
+ *   Several auctions can be open at once; the settlement workflow settles every
+ *   expired one it finds via getExpiredAuctionIds(), or closes it unsold when it
+ *   has no eligible bid — the NFT then goes back to the seller.
  *   Only opaque bid hashes stored on-chain. Settlement reveals only winner + Vickrey price.
  * - Privacy: bid amounts, bidder identities, and losing bids are never exposed on-chain.
  *
  * @notice CRE workflows deliver signed reports via the KeystoneForwarder → onReport.
  * Dispatch is based on workflowName (bytes10) from report metadata:
  *   "create" → _createPropertyAuction
- *   "bid"    → _registerBid
- *   "settle" → _settleAuction
+ *   "bid"    → _registerBid (new, revised or withdrawn bid)
+ *   "settle" → _settleAuction, or _closeAuction when winner == 0
  *
  * Workflow report encodings:
  *   create: abi.encode(bytes32 propertyId, address seller, uint256 tokenId,
  *                      bytes32 auctionId, uint256 deadline, uint256 reservePrice)
- *   bid:    abi.encode(bytes32 auctionId, bytes32 bidHash)
+ *   bid:    abi.encode(bytes32 auctionId, bytes32 bidHash, bytes32 supersededHash)
+ *           supersededHash == 0             → first bid from this bidder
+ *           bidHash != 0, supersededHash != 0 → revision: supersededHash revoked
+ *           bidHash == 0, supersededHash != 0 → withdrawal: supersededHash revoked
  *   settle: abi.encode(bytes32 auctionId, address winner, uint256 price)
+ *           winner == 0, price == 0 → no eligible bid: closed unsold
  */
 contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
     using ByteHasher for bytes;
@@ -95,6 +102,10 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
     error LienFiAuction__CanOnlyExtendLock();
     error LienFiAuction__UnknownWorkflow(bytes10 workflowName);
     error LienFiAuction__UnknownInstructionType(uint8 instructionType);
+    error LienFiAuction__BidNotRegistered();
+    error LienFiAuction__BidAlreadyRevoked();
+    error LienFiAuction__BidAlreadyRegistered();
+    error LienFiAuction__BidNotInAuction();
 
     ///////////////////
     // Type Declarations
@@ -104,7 +115,7 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
         uint256 tokenId;       // PropertyNFT token held in escrow
         uint256 deadline;
         uint256 reservePrice;  // USDC (6 decimals)
-        bool settled;
+        bool settled;          // also set when closed unsold (winner stays 0)
         address winner;
         uint256 settledPrice;  // USDC (6 decimals)
     }
@@ -127,8 +138,13 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
     // Auction Lifecycle
     mapping(bytes32 => Auction) public auctions;
     mapping(bytes32 => bytes32[]) public bidHashes;
+    mapping(bytes32 => mapping(bytes32 => bool)) public bidRegistered;
+    mapping(bytes32 => mapping(bytes32 => bool)) public bidRevoked;
+    mapping(bytes32 => bytes32) public bidAuction; // bidHash → the auction it was registered in
 
-    bytes32 public activeAuctionId;
+    // Open (created, not yet settled or closed) auctions — swap-and-pop on removal
+    bytes32[] public openAuctionIds;
+    mapping(bytes32 => uint256) private _openAuctionIndex; // 1-based; 0 = not open
 
     ///////////////////
     // Events
@@ -153,11 +169,13 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
         uint256 reservePrice
     );
     event BidRegistered(bytes32 indexed auctionId, bytes32 bidHash);
+    event BidRevoked(bytes32 indexed auctionId, bytes32 bidHash, bytes32 supersededBy);
     event AuctionSettled(
         bytes32 indexed auctionId,
         address winner,
         uint256 price
     );
+    event AuctionClosed(bytes32 indexed auctionId);
 
     ///////////////////
     // Functions
@@ -282,14 +300,21 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
             _createPropertyAuction(propertyId, seller, tokenId, auctionId, deadline, reservePrice);
 
         } else if (workflowName == WORKFLOW_BID) {
-            (bytes32 auctionId, bytes32 bidHash) =
-                abi.decode(report, (bytes32, bytes32));
-            _registerBid(auctionId, bidHash);
+            (bytes32 auctionId, bytes32 bidHash, bytes32 supersededHash) =
+                abi.decode(report, (bytes32, bytes32, bytes32));
+            _registerBid(auctionId, bidHash, supersededHash);
 
         } else if (workflowName == WORKFLOW_SETTLE) {
             (bytes32 auctionId, address winner, uint256 price) =
                 abi.decode(report, (bytes32, address, uint256));
-            _settleAuction(auctionId, winner, price);
+            if (winner == address(0)) {
+                if (price != 0) {
+                    revert LienFiAuction__InvalidAmount();
+                }
+                _closeAuction(auctionId);
+            } else {
+                _settleAuction(auctionId, winner, price);
+            }
 
         } else {
             revert LienFiAuction__UnknownWorkflow(workflowName);
@@ -312,9 +337,6 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
         if (auctions[auctionId].deadline != 0) {
             revert LienFiAuction__AuctionAlreadyExists();
         }
-        if (activeAuctionId != bytes32(0)) {
-            revert LienFiAuction__AuctionAlreadyExists();
-        }
 
         // Verify this contract holds the NFT in escrow
         if (IERC721(i_propertyNFT).ownerOf(tokenId) != address(this)) {
@@ -331,13 +353,21 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
             settledPrice: 0
         });
 
-        activeAuctionId = auctionId;
+        openAuctionIds.push(auctionId);
+        _openAuctionIndex[auctionId] = openAuctionIds.length;
 
         emit AuctionCreated(auctionId, seller, tokenId, deadline, reservePrice);
     }
 
-    /// @notice Registers an opaque bid hash on-chain for the given auction.
-    function _registerBid(bytes32 auctionId, bytes32 bidHash) internal {
+    /**
+     * @notice Registers an opaque bid hash on-chain for the given auction.
+     * A non-zero supersededHash revokes the bidder's previous hash (revision),
+     * and a zero bidHash registers nothing new (withdrawal). Revoked hashes stay
+     * in bidHashes for auditability but no longer count as live.
+     * A bidHash registers once across all auctions; a supersededHash must be
+     * live in this auction. Every check runs before any write.
+     */
+    function _registerBid(bytes32 auctionId, bytes32 bidHash, bytes32 supersededHash) internal {
         Auction storage a = auctions[auctionId];
         if (a.deadline == 0) {
             revert LienFiAuction__AuctionNotFound();
@@ -349,15 +379,35 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
             revert LienFiAuction__AuctionAlreadySettled();
         }
 
-        bidHashes[auctionId].push(bidHash);
-        emit BidRegistered(auctionId, bidHash);
+        if (bidHash != bytes32(0) && bidAuction[bidHash] != bytes32(0)) {
+            revert LienFiAuction__BidAlreadyRegistered();
+        }
+
+        if (supersededHash != bytes32(0)) {
+            bytes32 supersededAuction = bidAuction[supersededHash];
+            if (supersededAuction == bytes32(0)) {
+                revert LienFiAuction__BidNotRegistered();
+            }
+            if (supersededAuction != auctionId) {
+                revert LienFiAuction__BidNotInAuction();
+            }
+            if (bidRevoked[auctionId][supersededHash]) {
+                revert LienFiAuction__BidAlreadyRevoked();
+            }
+            bidRevoked[auctionId][supersededHash] = true;
+            emit BidRevoked(auctionId, supersededHash, bidHash);
+        }
+
+        if (bidHash != bytes32(0)) {
+            bidRegistered[auctionId][bidHash] = true;
+            bidAuction[bidHash] = auctionId;
+            bidHashes[auctionId].push(bidHash);
+            emit BidRegistered(auctionId, bidHash);
+        }
     }
 
     /// @notice Settles the auction: winner's USDC pool debited → seller gets USDC, winner gets property NFT.
     function _settleAuction(bytes32 auctionId, address winner, uint256 price) internal {
-        if (auctionId != activeAuctionId) {
-            revert LienFiAuction__AuctionNotFound();
-        }
         Auction storage a = auctions[auctionId];
         if (a.deadline == 0) {
             revert LienFiAuction__AuctionNotFound();
@@ -375,7 +425,7 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
         a.settled = true;
         a.winner = winner;
         a.settledPrice = price;
-        activeAuctionId = bytes32(0);
+        _removeOpenAuction(auctionId);
 
         // Debit winner's USDC pool → pay seller
         poolBalance[winner][i_usdc] -= price;
@@ -389,6 +439,41 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
         emit AuctionSettled(auctionId, winner, price);
     }
 
+    /// @notice Closes an expired auction that had no eligible bid: nothing is paid, the NFT returns to the seller.
+    function _closeAuction(bytes32 auctionId) internal {
+        Auction storage a = auctions[auctionId];
+        if (a.deadline == 0) {
+            revert LienFiAuction__AuctionNotFound();
+        }
+        if (block.timestamp < a.deadline) {
+            revert LienFiAuction__AuctionNotExpired();
+        }
+        if (a.settled) {
+            revert LienFiAuction__AuctionAlreadySettled();
+        }
+
+        a.settled = true;
+        _removeOpenAuction(auctionId);
+
+        // Release the property NFT from escrow → seller
+        IERC721(i_propertyNFT).safeTransferFrom(address(this), a.seller, a.tokenId);
+
+        emit AuctionClosed(auctionId);
+    }
+
+    /// @notice Drops an auction from openAuctionIds by swapping in the last entry.
+    function _removeOpenAuction(bytes32 auctionId) internal {
+        uint256 index = _openAuctionIndex[auctionId];
+        uint256 last = openAuctionIds.length;
+        if (index != last) {
+            bytes32 moved = openAuctionIds[last - 1];
+            openAuctionIds[index - 1] = moved;
+            _openAuctionIndex[moved] = index;
+        }
+        openAuctionIds.pop();
+        delete _openAuctionIndex[auctionId];
+    }
+
     ///////////////////
     // View & Pure Functions
     ///////////////////
@@ -407,7 +492,32 @@ contract LienFiAuction is ReceiverTemplate, ReentrancyGuard {
             lockExpiry[bidder] >= a.deadline;
     }
 
+    function getOpenAuctionIds() external view returns (bytes32[] memory) {
+        return openAuctionIds;
+    }
+
+    /// @notice Open auctions whose deadline has passed — the ones ready to settle or close.
+    function getExpiredAuctionIds() external view returns (bytes32[] memory expired) {
+        uint256 count;
+        for (uint256 i = 0; i < openAuctionIds.length; i++) {
+            if (block.timestamp >= auctions[openAuctionIds[i]].deadline) count++;
+        }
+
+        expired = new bytes32[](count);
+        uint256 j;
+        for (uint256 i = 0; i < openAuctionIds.length; i++) {
+            if (block.timestamp >= auctions[openAuctionIds[i]].deadline) {
+                expired[j++] = openAuctionIds[i];
+            }
+        }
+    }
+
     function getBidCount(bytes32 auctionId) external view returns (uint256) {
         return bidHashes[auctionId].length;
     }
+
+    /// @notice True if the hash was registered for the auction and has not been superseded or withdrawn.
+    function isBidLive(bytes32 auctionId, bytes32 bidHash) external view returns (bool) {
+        return bidRegistered[auctionId][bidHash] && !bidRevoked[auctionId][bidHash];
+    }
 }
@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title VerdictReport
+ * @author LienFi Team
+ *
+ * @notice Decodes the credit-assessment workflow's verdict report for
+ * LoanManager's CRE receiver.
+ *
+ * @dev The report is abi.encode(uint8 version, address borrower,
+ * bytes32 requestHash, uint256 tokenId, uint256 approvedLimit,
+ * uint256 tenureMonths, uint256 computedEMI, uint256 rateBps,
+ * uint256 expiresAt, bool approved, bytes32 policyHash), written by
+ * cre-workflows/credit-assessment-workflow/report.ts. Any other version —
+ * including the unversioned layout, whose first word is the borrower — is
+ * refused rather than misread. VERSION moves with the workflow's
+ * VERDICT_REPORT_VERSION.
+ */
+library VerdictReport {
+    uint256 internal constant VERSION = 2;
+    uint256 internal constant LENGTH = 11 * 32;
+
+    error VerdictReport__UnsupportedVersion(uint256 version);
+    error VerdictReport__BadLength(uint256 length);
+
+    struct Verdict {
+        uint8 version;
+        address borrower;
+        bytes32 requestHash;
+        uint256 tokenId;
+        uint256 approvedLimit; // USDC (6 decimals), 0 on rejection
+        uint256 tenureMonths;
+        uint256 computedEMI; // USDC (6 decimals), at rateBps
+        uint256 rateBps; // APR computedEMI was computed at, 0 when there is no EMI
+        uint256 expiresAt; // approval expiry, unix seconds
+        bool approved;
+        bytes32 policyHash; // keccak256 of the underwriting policy in force
+    }
+
+    /**
+     * @notice Decode a verdict report after checking its version and length.
+     * @param report The report bytes as delivered to _processReport.
+     * @return verdict The decoded fields.
+     */
+    function decode(bytes memory report) internal pure returns (Verdict memory verdict) {
+        if (report.length < 32) revert VerdictReport__BadLength(report.length);
+
+        uint256 version = abi.decode(report, (uint256));
+        if (version != VERSION) revert VerdictReport__UnsupportedVersion(version);
+        if (report.length != LENGTH) revert VerdictReport__BadLength(report.length);
+
+        verdict = abi.decode(report, (Verdict));
+    }
+}
@@ -0,0 +1,456 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {LienFiAuction} from "../src/LienFiAuction.sol";
+import {PropertyNFT} from "../src/PropertyNFT.sol";
+import {ReceiverTemplate} from "../src/ReceiverTemplate.sol";
+import {IWorldID} from "../src/interfaces/IWorldID.sol";
+import {MockUSDC} from "../src/mocks/MockUSDC.sol";
+import {MockWorldIDRouter} from "../src/mocks/MockWorldIDRouter.sol";
+
+contract LienFiAuctionTest is Test {
+    LienFiAuction public auction;
+    PropertyNFT public nft;
+    MockUSDC public usdc;
+    MockWorldIDRouter public worldId;
+
+    address public forwarder = makeAddr("forwarder");
+    address public seller = makeAddr("seller");
+    address public bidder = makeAddr("bidder");
+
+    // Same bytes10 names the contract dispatches on
+    bytes10 public constant WORKFLOW_CREATE = bytes10(0x66613838343762306333);
+    bytes10 public constant WORKFLOW_BID = bytes10(0x63306530656663346663);
+    bytes10 public constant WORKFLOW_SETTLE = bytes10(0x36383638653833646533);
+
+    bytes32 public constant AUCTION_A = keccak256("auction-a");
+    bytes32 public constant AUCTION_B = keccak256("auction-b");
+    bytes32 public constant AUCTION_C = keccak256("auction-c");
+    bytes32 public constant AUCTION_D = keccak256("auction-d");
+    bytes32 public constant BID_1 = keccak256("bid-1");
+    bytes32 public constant BID_2 = keccak256("bid-2");
+    bytes32 public constant BID_3 = keccak256("bid-3");
+
+    uint256 public constant RESERVE = 100_000e6;
+    uint256 public constant DURATION = 1 days;
+
+    function setUp() public {
+        usdc = new MockUSDC();
+        nft = new PropertyNFT();
+        worldId = new MockWorldIDRouter();
+        auction = new LienFiAuction(
+            forwarder, address(usdc), address(nft), IWorldID(address(worldId)), "app_lienfi", "deposit"
+        );
+
+        // Fund the bidder's pool, locked well past every auction below
+        usdc.mint(bidder, 1_000_000e6);
+        vm.startPrank(bidder);
+        usdc.approve(address(auction), type(uint256).max);
+        uint256[8] memory proof;
+        auction.depositToPool(address(usdc), block.timestamp + 30 days, 1_000_000e6, 0, 1, proof);
+        vm.stopPrank();
+    }
+
+    // ═══════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════
+
+    /// @dev Metadata as the KeystoneForwarder packs it; only workflowName is read.
+    function _report(bytes10 workflowName, bytes memory report) internal {
+        vm.prank(forwarder);
+        auction.onReport(abi.encodePacked(bytes32(0), workflowName, address(0)), report);
+    }
+
+    /// @dev Escrows a fresh property NFT and opens an auction on it.
+    function _create(bytes32 auctionId, uint256 deadline) internal returns (uint256 tokenId) {
+        vm.startPrank(seller);
+        tokenId = nft.mint(keccak256(abi.encode(auctionId)));
+        nft.transferFrom(seller, address(auction), tokenId);
+        vm.stopPrank();
+
+        _report(
+            WORKFLOW_CREATE, abi.encode(keccak256("property"), seller, tokenId, auctionId, deadline, RESERVE)
+        );
+    }
+
+    function _bid(bytes32 auctionId, bytes32 bidHash, bytes32 supersededHash) internal {
+        _report(WORKFLOW_BID, abi.encode(auctionId, bidHash, supersededHash));
+    }
+
+    function _settle(bytes32 auctionId, address winner, uint256 price) internal {
+        _report(WORKFLOW_SETTLE, abi.encode(auctionId, winner, price));
+    }
+
+    function _ids(bytes32 a) internal pure returns (bytes32[] memory ids) {
+        ids = new bytes32[](1);
+        ids[0] = a;
+    }
+
+    function _ids(bytes32 a, bytes32 b) internal pure returns (bytes32[] memory ids) {
+        ids = new bytes32[](2);
+        ids[0] = a;
+        ids[1] = b;
+    }
+
+    function _ids(bytes32 a, bytes32 b, bytes32 c) internal pure returns (bytes32[] memory ids) {
+        ids = new bytes32[](3);
+        ids[0] = a;
+        ids[1] = b;
+        ids[2] = c;
+    }
+
+    // ═══════════════════════════════════════════
+    // BID REVISION & WITHDRAWAL TESTS
+    // ═══════════════════════════════════════════
+
+    function test_FirstBidRegisters() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+
+        vm.expectEmit(true, false, false, true);
+        emit LienFiAuction.BidRegistered(AUCTION_A, BID_1);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+
+        assertTrue(auction.isBidLive(AUCTION_A, BID_1));
+        assertEq(auction.getBidCount(AUCTION_A), 1);
+    }
+
+    function test_RevisionSupersedesPreviousHash() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+
+        vm.expectEmit(true, false, false, true);
+        emit LienFiAuction.BidRevoked(AUCTION_A, BID_1, BID_2);
+        _bid(AUCTION_A, BID_2, BID_1);
+
+        assertFalse(auction.isBidLive(AUCTION_A, BID_1));
+        assertTrue(auction.isBidLive(AUCTION_A, BID_2));
+        // The revoked hash stays in the list for auditability
+        assertEq(auction.getBidCount(AUCTION_A), 2);
+        assertEq(auction.bidHashes(AUCTION_A, 0), BID_1);
+        assertEq(auction.bidHashes(AUCTION_A, 1), BID_2);
+    }
+
+    function test_WithdrawalRevokesWithoutRegistering() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+
+        vm.expectEmit(true, false, false, true);
+        emit LienFiAuction.BidRevoked(AUCTION_A, BID_1, bytes32(0));
+        _bid(AUCTION_A, bytes32(0), BID_1);
+
+        assertFalse(auction.isBidLive(AUCTION_A, BID_1));
+        assertFalse(auction.bidRegistered(AUCTION_A, bytes32(0)));
+        assertEq(auction.getBidCount(AUCTION_A), 1);
+    }
+
+    function test_RevisingUnregisteredHashReverts() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__BidNotRegistered.selector);
+        _bid(AUCTION_A, BID_2, BID_1);
+
+        // The revision is all-or-nothing: the new hash isn't registered either
+        assertFalse(auction.bidRegistered(AUCTION_A, BID_2));
+        assertEq(auction.getBidCount(AUCTION_A), 0);
+    }
+
+    function test_RevisingHashFromAnotherAuctionReverts() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+        _create(AUCTION_B, block.timestamp + DURATION);
+        _bid(AUCTION_B, BID_1, bytes32(0));
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__BidNotInAuction.selector);
+        _bid(AUCTION_A, BID_2, BID_1);
+
+        // BID_1 is untouched in its own auction
+        assertTrue(auction.isBidLive(AUCTION_B, BID_1));
+        assertFalse(auction.bidRegistered(AUCTION_A, BID_2));
+    }
+
+    function test_RegisteringHashTwiceReverts() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__BidAlreadyRegistered.selector);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+
+        assertEq(auction.getBidCount(AUCTION_A), 1);
+    }
+
+    function test_RegisteringHashFromAnotherAuctionReverts() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+        _create(AUCTION_B, block.timestamp + DURATION);
+        _bid(AUCTION_B, BID_1, bytes32(0));
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__BidAlreadyRegistered.selector);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+
+        assertEq(auction.getBidCount(AUCTION_A), 0);
+    }
+
+    function test_RevisionReusingRevokedHashReverts() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+        _bid(AUCTION_A, BID_2, BID_1);
+
+        // A revision can't resurrect the hash it once superseded
+        vm.expectRevert(LienFiAuction.LienFiAuction__BidAlreadyRegistered.selector);
+        _bid(AUCTION_A, BID_1, BID_2);
+
+        assertTrue(auction.isBidLive(AUCTION_A, BID_2));
+    }
+
+    function test_RevisingSupersededHashReverts() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+        _bid(AUCTION_A, BID_2, BID_1);
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__BidAlreadyRevoked.selector);
+        _bid(AUCTION_A, BID_3, BID_1);
+    }
+
+    function test_WithdrawingTwiceReverts() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+        _bid(AUCTION_A, bytes32(0), BID_1);
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__BidAlreadyRevoked.selector);
+        _bid(AUCTION_A, bytes32(0), BID_1);
+    }
+
+    function test_RevisionAtDeadlineReverts() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+
+        vm.warp(deadline);
+        vm.expectRevert(LienFiAuction.LienFiAuction__AuctionExpired.selector);
+        _bid(AUCTION_A, BID_2, BID_1);
+
+        assertTrue(auction.isBidLive(AUCTION_A, BID_1));
+    }
+
+    function test_BidOnUnknownAuctionReverts() public {
+        vm.expectRevert(LienFiAuction.LienFiAuction__AuctionNotFound.selector);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+    }
+
+    function test_BidFromNonForwarderReverts() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+
+        vm.prank(seller);
+        vm.expectRevert(ReceiverTemplate.ReceiverTemplate__NotForwarder.selector);
+        auction.onReport(
+            abi.encodePacked(bytes32(0), WORKFLOW_BID, address(0)), abi.encode(AUCTION_A, BID_1, bytes32(0))
+        );
+    }
+
+    // ═══════════════════════════════════════════
+    // SETTLEMENT TESTS
+    // ═══════════════════════════════════════════
+
+    function test_SettlePaysSellerAndTransfersNFT() public {
+        uint256 deadline = block.timestamp + DURATION;
+        uint256 tokenId = _create(AUCTION_A, deadline);
+
+        vm.warp(deadline);
+        vm.expectEmit(true, false, false, true);
+        emit LienFiAuction.AuctionSettled(AUCTION_A, bidder, 250_000e6);
+        _settle(AUCTION_A, bidder, 250_000e6);
+
+        assertEq(nft.ownerOf(tokenId), bidder);
+        assertEq(usdc.balanceOf(seller), 250_000e6);
+        assertEq(auction.poolBalance(bidder, address(usdc)), 750_000e6);
+
+        (,,,, bool settled, address winner, uint256 price) = auction.auctions(AUCTION_A);
+        assertTrue(settled);
+        assertEq(winner, bidder);
+        assertEq(price, 250_000e6);
+    }
+
+    function test_SettleBeforeDeadlineReverts() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+
+        vm.warp(deadline - 1);
+        vm.expectRevert(LienFiAuction.LienFiAuction__AuctionNotExpired.selector);
+        _settle(AUCTION_A, bidder, RESERVE);
+    }
+
+    function test_SettleTwiceReverts() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+        vm.warp(deadline);
+        _settle(AUCTION_A, bidder, RESERVE);
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__AuctionAlreadySettled.selector);
+        _settle(AUCTION_A, bidder, RESERVE);
+    }
+
+    function test_SettleUnderfundedWinnerReverts() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+        vm.warp(deadline);
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__WinnerUnderfunded.selector);
+        _settle(AUCTION_A, bidder, 1_000_000e6 + 1);
+    }
+
+    // ═══════════════════════════════════════════
+    // OPEN AUCTION LIST TESTS
+    // ═══════════════════════════════════════════
+
+    function test_CreateAppendsToOpenAuctions() public {
+        _create(AUCTION_A, block.timestamp + DURATION);
+        _create(AUCTION_B, block.timestamp + DURATION);
+        _create(AUCTION_C, block.timestamp + DURATION);
+
+        assertEq(auction.getOpenAuctionIds(), _ids(AUCTION_A, AUCTION_B, AUCTION_C));
+    }
+
+    function test_SettlingMiddleSwapsLastIntoItsSlot() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+        _create(AUCTION_B, deadline);
+        _create(AUCTION_C, deadline);
+        vm.warp(deadline);
+
+        _settle(AUCTION_B, bidder, RESERVE);
+        assertEq(auction.getOpenAuctionIds(), _ids(AUCTION_A, AUCTION_C));
+
+        // C was moved: settling it from its new slot must pop it cleanly
+        _settle(AUCTION_C, bidder, RESERVE);
+        assertEq(auction.getOpenAuctionIds(), _ids(AUCTION_A));
+
+        _settle(AUCTION_A, bidder, RESERVE);
+        assertEq(auction.getOpenAuctionIds().length, 0);
+    }
+
+    function test_SettlingFirstSwapsLastIntoItsSlot() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+        _create(AUCTION_B, deadline);
+        _create(AUCTION_C, deadline);
+        vm.warp(deadline);
+
+        _settle(AUCTION_A, bidder, RESERVE);
+        assertEq(auction.getOpenAuctionIds(), _ids(AUCTION_C, AUCTION_B));
+
+        // A later create appends behind the moved entry
+        _create(AUCTION_D, block.timestamp + DURATION);
+        assertEq(auction.getOpenAuctionIds(), _ids(AUCTION_C, AUCTION_B, AUCTION_D));
+
+        _settle(AUCTION_C, bidder, RESERVE);
+        assertEq(auction.getOpenAuctionIds(), _ids(AUCTION_D, AUCTION_B));
+    }
+
+    function test_SettlingLastPopsWithoutSwap() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+        _create(AUCTION_B, deadline);
+        vm.warp(deadline);
+
+        _settle(AUCTION_B, bidder, RESERVE);
+        assertEq(auction.getOpenAuctionIds(), _ids(AUCTION_A));
+        assertEq(auction.openAuctionIds(0), AUCTION_A);
+    }
+
+    function test_GetExpiredAuctionIdsFiltersByDeadline() public {
+        uint256 start = block.timestamp;
+        _create(AUCTION_A, start + 1 days);
+        _create(AUCTION_B, start + 3 days);
+        _create(AUCTION_C, start + 2 days);
+
+        assertEq(auction.getExpiredAuctionIds().length, 0);
+
+        // A deadline equal to block.timestamp counts as expired
+        vm.warp(start + 2 days);
+        assertEq(auction.getExpiredAuctionIds(), _ids(AUCTION_A, AUCTION_C));
+
+        // Settled auctions drop out; still-running ones stay out
+        _settle(AUCTION_A, bidder, RESERVE);
+        assertEq(auction.getExpiredAuctionIds(), _ids(AUCTION_C));
+
+        vm.warp(start + 3 days);
+        assertEq(auction.getExpiredAuctionIds(), _ids(AUCTION_C, AUCTION_B));
+    }
+
+    // ═══════════════════════════════════════════
+    // CLOSE (NO ELIGIBLE BIDS) TESTS
+    // ═══════════════════════════════════════════
+
+    function test_CloseReturnsNFTToSeller() public {
+        uint256 deadline = block.timestamp + DURATION;
+        uint256 tokenId = _create(AUCTION_A, deadline);
+        _bid(AUCTION_A, BID_1, bytes32(0));
+
+        vm.warp(deadline);
+        vm.expectEmit(true, false, false, true);
+        emit LienFiAuction.AuctionClosed(AUCTION_A);
+        _settle(AUCTION_A, address(0), 0);
+
+        assertEq(nft.ownerOf(tokenId), seller);
+        assertEq(usdc.balanceOf(seller), 0);
+        assertEq(auction.poolBalance(bidder, address(usdc)), 1_000_000e6);
+        assertEq(auction.getOpenAuctionIds().length, 0);
+        assertEq(auction.getExpiredAuctionIds().length, 0);
+
+        (,,,, bool settled, address winner, uint256 price) = auction.auctions(AUCTION_A);
+        assertTrue(settled);
+        assertEq(winner, address(0));
+        assertEq(price, 0);
+    }
+
+    function test_CloseBeforeDeadlineReverts() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+
+        vm.warp(deadline - 1);
+        vm.expectRevert(LienFiAuction.LienFiAuction__AuctionNotExpired.selector);
+        _settle(AUCTION_A, address(0), 0);
+    }
+
+    function test_CloseWithPriceReverts() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+        vm.warp(deadline);
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__InvalidAmount.selector);
+        _settle(AUCTION_A, address(0), RESERVE);
+    }
+
+    function test_CloseUnknownAuctionReverts() public {
+        vm.expectRevert(LienFiAuction.LienFiAuction__AuctionNotFound.selector);
+        _settle(AUCTION_A, address(0), 0);
+    }
+
+    function test_SettleAfterCloseReverts() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+        vm.warp(deadline);
+        _settle(AUCTION_A, address(0), 0);
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__AuctionAlreadySettled.selector);
+        _settle(AUCTION_A, bidder, RESERVE);
+
+        vm.expectRevert(LienFiAuction.LienFiAuction__AuctionAlreadySettled.selector);
+        _settle(AUCTION_A, address(0), 0);
+    }
+
+    function test_ClosingMiddleSwapsLastIntoItsSlot() public {
+        uint256 deadline = block.timestamp + DURATION;
+        _create(AUCTION_A, deadline);
+        _create(AUCTION_B, deadline);
+        _create(AUCTION_C, deadline);
+        vm.warp(deadline);
+
+        _settle(AUCTION_B, address(0), 0);
+        assertEq(auction.getExpiredAuctionIds(), _ids(AUCTION_A, AUCTION_C));
+
+        // Closes and settlements share the list
+        _settle(AUCTION_C, bidder, RESERVE);
+        _settle(AUCTION_A, address(0), 0);
+        assertEq(auction.getOpenAuctionIds().length, 0);
+    }
+}
@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {VerdictReport} from "../src/libraries/VerdictReport.sol";
+
+/// @dev Calls the internal decoder externally, so reverts can be expected.
+contract VerdictReportHarness {
+    function decode(bytes calldata report) external pure returns (VerdictReport.Verdict memory) {
+        return VerdictReport.decode(report);
+    }
+}
+
+contract VerdictReportTest is Test {
+    VerdictReportHarness public harness;
+
+    address public constant BORROWER = 0x1111111111111111111111111111111111111111;
+    bytes32 public constant REQUEST_HASH = 0xabababababababababababababababababababababababababababababababab;
+    bytes32 public constant POLICY_HASH = 0x64e12723437d5032c4cfeac4534cee36c6d86cd34635d2e6a7b4c0bb3537ebf5;
+
+    // encodeVerdictReport() output for the same fields — see report.test.ts in the workflow
+    bytes public constant WORKFLOW_REPORT =
+        hex"0000000000000000000000000000000000000000000000000000000000000002"
+        hex"0000000000000000000000001111111111111111111111111111111111111111"
+        hex"abababababababababababababababababababababababababababababababab"
+        hex"0000000000000000000000000000000000000000000000000000000000000007"
+        hex"000000000000000000000000000000000000000000000000000000574fbde600"
+        hex"0000000000000000000000000000000000000000000000000000000000000168"
+        hex"00000000000000000000000000000000000000000000000000000000a0110530"
+        hex"0000000000000000000000000000000000000000000000000000000000000307"
+        hex"00000000000000000000000000000000000000000000000000000000713fb300"
+        hex"0000000000000000000000000000000000000000000000000000000000000001"
+        hex"64e12723437d5032c4cfeac4534cee36c6d86cd34635d2e6a7b4c0bb3537ebf5";
+
+    function setUp() public {
+        harness = new VerdictReportHarness();
+    }
+
+    function _report(uint8 version) internal pure returns (bytes memory) {
+        return abi.encode(
+            version,
+            BORROWER,
+            REQUEST_HASH,
+            uint256(7),
+            uint256(375_000e6),
+            uint256(360),
+            uint256(2_685.47e6),
+            uint256(775),
+            uint256(1_900_000_000),
+            true,
+            POLICY_HASH
+        );
+    }
+
+    // ═══════════════════════════════════════════
+    // DECODING
+    // ═══════════════════════════════════════════
+
+    function test_DecodesWorkflowReport() public view {
+        VerdictReport.Verdict memory v = harness.decode(WORKFLOW_REPORT);
+
+        assertEq(v.version, 2);
+        assertEq(v.borrower, BORROWER);
+        assertEq(v.requestHash, REQUEST_HASH);
+        assertEq(v.tokenId, 7);
+        assertEq(v.approvedLimit, 375_000e6);
+        assertEq(v.tenureMonths, 360);
+        assertEq(v.computedEMI, 2_685.47e6);
+        assertEq(v.rateBps, 775);
+        assertEq(v.expiresAt, 1_900_000_000);
+        assertTrue(v.approved);
+        assertEq(v.policyHash, POLICY_HASH);
+    }
+
+    function test_WorkflowReportMatchesAbiEncode() public pure {
+        assertEq(keccak256(_report(2)), keccak256(WORKFLOW_REPORT));
+    }
+
+    // ═══════════════════════════════════════════
+    // REFUSED REPORTS
+    // ═══════════════════════════════════════════
+
+    function test_UnknownVersionReverts() public {
+        vm.expectRevert(abi.encodeWithSelector(VerdictReport.VerdictReport__UnsupportedVersion.selector, 3));
+        harness.decode(_report(3));
+    }
+
+    function test_UnversionedReportReverts() public {
+        // The layout before versioning: borrower first, no rateBps or policyHash
+        bytes memory legacy = abi.encode(
+            BORROWER, REQUEST_HASH, uint256(7), uint256(375_000e6), uint256(360), uint256(2_685.47e6), uint256(1_900_000_000), true
+        );
+
+        vm.expectRevert(
+            abi.encodeWithSelector(VerdictReport.VerdictReport__UnsupportedVersion.selector, uint256(uint160(BORROWER)))
+        );
+        harness.decode(legacy);
+    }
+
+    function test_TruncatedReportReverts() public {
+        bytes memory report = _report(2);
+        assembly {
+            mstore(report, 320) // drop policyHash
+        }
+
+        vm.expectRevert(abi.encodeWithSelector(VerdictReport.VerdictReport__BadLength.selector, 320));
+        harness.decode(report);
+    }
+
+    function test_EmptyReportReverts() public {
+        vm.expectRevert(abi.encodeWithSelector(VerdictReport.VerdictReport__BadLength.selector, 0));
+        harness.decode("");
+    }
+}
@@ -0,0 +1,410 @@
+// Generated from the LienFi API's OpenAPI document by api/src/scripts/generateClient.ts.
+// Do not edit — run `npm run gen:client` in api/ after changing a route schema.
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface Health {
+  status: "ok"
+  timestamp: number
+}
+
+export interface BidResponse {
+  auctionId: string
+  bidHash: string
+  supersededHash: string
+}
+
+export interface ApiError {
+  code: "MISSING_FIELD" | "INVALID_FIELD" | "UNAUTHORIZED" | "FORBIDDEN" | "INVALID_SIGNATURE" | "NOT_FOUND" | "CONFLICT" | "AUCTION_SETTLED" | "AUCTION_EXPIRED" | "BELOW_RESERVE" | "INSUFFICIENT_BALANCE" | "LOCK_TOO_SHORT" | "STALE_NONCE" | "NO_LIVE_BID" | "NO_ELIGIBLE_BIDS" | "RATE_LIMITED" | "UPSTREAM_UNAVAILABLE" | "SERVER_MISCONFIGURED" | "INTERNAL"
+  message: string
+  field?: string
+  retryAfter?: number
+}
+
+export interface BidRequest {
+  auctionId: string
+  bidder: string
+  amount: string
+  nonce: number
+  signature: string
+}
+
+export interface WithdrawBidRequest {
+  auctionId: string
+  bidder: string
+  nonce: number
+  signature: string
+}
+
+export interface SettlementProof {
+  bidRoot: string
+  bidCount: number
+  bidHashes: string[]
+  priceBidHash: string
+  commitment: string
+  signer: string
+  signature: string
+}
+
+export interface Allocation {
+  bidder: string
+  units: number
+  price: string
+}
+
+export interface Disqualification {
+  bidder: string
+  bidHash: string
+  reason: "insufficient-balance" | "lock-expired"
+}
+
+export interface ReconciliationReport {
+  auctionId: string
+  onChainCount: number
+  storedCount: number
+  counted: string[]
+  unregistered: string[]
+  revokedOnChain: string[]
+  revokePending: string[]
+  orphaned: string[]
+  consistent: boolean
+}
+
+export interface SettleResponse {
+  auctionId: string
+  winner: string
+  price: string
+  proof: SettlementProof
+  allocations: Allocation[]
+  fundingBlock: number
+  disqualified: Disqualification[]
+  reconciliation: ReconciliationReport
+}
+
+export interface SettleRequest {
+  auctionId: string
+  fundingBlock?: number
+}
+
+export interface BidProofResponse {
+  auctionId: string
+  winner?: string
+  price?: string
+  proof: SettlementProof
+  bidHash: string
+  merkleProof: string[]
+}
+
+export type AuctionFormat = {
+  kind: "vickrey"
+} | {
+  kind: "first-price"
+} | {
+  kind: "english"
+  incrementBps: number
+} | {
+  kind: "uniform-price"
+  units: number
+}
+
+export interface SignedRankingReport {
+  report: {
+    auctionId: string
+    format: AuctionFormat
+    reservePrice: string
+    winner: string
+    clearingPrice: string
+    fundingBlock: number
+    bids: Array<{
+      rank: number
+      bidder: string
+      amount: string
+      timestamp: number
+      bidHash: string
+      outcome: "won" | "lost" | "disqualified" | "below-reserve"
+      reason?: "insufficient-balance" | "lock-expired"
+    }>
+    generatedAt: number
+  }
+  digest: string
+  signer: string
+  signature: string
+}
+
+export interface AuctionStatus {
+  bidCount: number
+  deadline: number
+  settled: boolean
+}
+
+export interface VerifyPropertyResponse {
+  valid: boolean
+  tokenId: number
+  metadataHash: string
+  appraisedValue: string
+  message: string
+}
+
+export interface VerifyPropertyRequest {
+  propertyId: string
+  sellerAddress: string
+}
+
+export interface PropertyReveal {
+  tokenId: number
+  metadataHash: string
+  encoding: string[]
+  preimage: {
+    address: string
+    appraisedValueUsd: string
+    titleDeedNumber: string
+    salt: string
+  }
+}
+
+export interface RevealRequest {
+  requester: string
+  expiry: number
+  signature: string
+  auctionId?: string
+}
+
+export interface LoanRequestReceipt {
+  requestHash: string
+  tokenId: number
+  nonce: number
+}
+
+export interface LoanRequestSubmission {
+  borrowerAddress: string
+  plaidToken: string
+  tokenId: number
+  requestedAmount: string
+  tenureMonths: number
+  nonce: number
+}
+
+export interface LoanRequestDetails {
+  requestHash: string
+  borrowerAddress: string
+  plaidToken: string
+  tokenId: number
+  requestedAmount: string
+  tenureMonths: number
+  nonce: number
+  timestamp: number
+  appraisedValueUsd: number
+}
+
+export interface RepaymentSchedule {
+  requestHash: string
+  principal: string
+  rateBps: number
+  tenureMonths: number
+  emi: string
+  totalInterest: string
+  totalPaid: string
+  installments: {
+    month: number
+    payment: string
+    principal: string
+    interest: string
+    balance: string
+  }[]
+}
+
+export interface AuctionSummary {
+  auctionId: string
+  state: "open" | "expired" | "settled" | "closed"
+  deadline: number
+  format: AuctionFormat
+  settled: boolean
+  closed: boolean
+  winner?: string
+  price?: string
+  bidCount: number
+}
+
+export interface AuctionList {
+  auctions: AuctionSummary[]
+  total: number
+  limit: number
+  offset: number
+}
+
+export interface AuctionDetail {
+  auctionId: string
+  state: "open" | "expired" | "settled" | "closed"
+  deadline: number
+  format: AuctionFormat
+  bidCount: number
+  seller: string
+  tokenId: string
+  reservePrice: string
+  settled: boolean
+  winner: string | null
+  settledPrice: string | null
+  settledInStore: boolean
+}
+
+export interface RegisterAuctionRequest {
+  auctionId: string
+  format?: AuctionFormat
+}
+
+export interface AuctionFormatUpdate {
+  auctionId: string
+  format: AuctionFormat
+}
+
+export interface AuditEntry {
+  seq: number
+  timestamp: number
+  kind: "bid.accepted" | "bid.rejected" | "bid.withdrawn" | "settlement.completed" | "settlement.rejected" | "property.verification" | "property.reveal" | "loanRequest.stored" | "loanRequest.rejected"
+  subject: string
+  actor: string | null
+  data: {
+    [key: string]: unknown
+  }
+  prevHash: string
+  hash: string
+}
+
+export interface AuditLog {
+  entries: AuditEntry[]
+  head: {
+    seq: number
+    hash: string
+  } | null
+}
+
+// ─── Requests ────────────────────────────────────────────────────────────────
+
+export interface ApiRequest {
+  url: string
+  method: "GET" | "POST" | "PUT" | "DELETE"
+  bodyString?: string
+}
+
+const queryString = (query: Record<string, string | number | undefined>): string => {
+  const pairs = Object.entries(query)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}`)
+  return pairs.length > 0 ? `?${pairs.join("&")}` : ""
+}
+
+/** Health check — GET /health → Health */
+export const health = (baseUrl: string): ApiRequest => ({
+  url: `${baseUrl}/health`,
+  method: "GET",
+})
+
+/** Submit or revise a signed bid — POST /bid → BidResponse */
+export const submitBid = (baseUrl: string, body: BidRequest): ApiRequest => ({
+  url: `${baseUrl}/bid`,
+  method: "POST",
+  bodyString: JSON.stringify(body),
+})
+
+/** Withdraw a live bid — POST /bid/withdraw → BidResponse */
+export const withdrawBid = (baseUrl: string, body: WithdrawBidRequest): ApiRequest => ({
+  url: `${baseUrl}/bid/withdraw`,
+  method: "POST",
+  bodyString: JSON.stringify(body),
+})
+
+/** Run settlement for an expired auction — POST /settle → SettleResponse */
+export const settleAuction = (baseUrl: string, body: SettleRequest): ApiRequest => ({
+  url: `${baseUrl}/settle`,
+  method: "POST",
+  bodyString: JSON.stringify(body),
+})
+
+/** Inclusion proof for one bid in a settled auction — GET /settle/{auctionId}/proof/{bidHash} → BidProofResponse */
+export const getBidProof = (baseUrl: string, params: { auctionId: string; bidHash: string }): ApiRequest => ({
+  url: `${baseUrl}/settle/${params.auctionId}/proof/${params.bidHash}`,
+  method: "GET",
+})
+
+/** Signed ranking report for auditors — GET /settle/{auctionId}/report → SignedRankingReport */
+export const getRankingReport = (baseUrl: string, params: { auctionId: string }): ApiRequest => ({
+  url: `${baseUrl}/settle/${params.auctionId}/report`,
+  method: "GET",
+})
+
+/** Live bid count, deadline and settled state — GET /status/{auctionId} → AuctionStatus */
+export const getAuctionStatus = (baseUrl: string, params: { auctionId: string }): ApiRequest => ({
+  url: `${baseUrl}/status/${params.auctionId}`,
+  method: "GET",
+})
+
+/** Verify a property for tokenization — POST /verify-property → VerifyPropertyResponse */
+export const verifyProperty = (baseUrl: string, body: VerifyPropertyRequest): ApiRequest => ({
+  url: `${baseUrl}/verify-property`,
+  method: "POST",
+  bodyString: JSON.stringify(body),
+})
+
+/** Commitment preimage for the property's owner or auction winner — POST /verify-property/{tokenId}/reveal → PropertyReveal */
+export const revealPropertyPreimage = (baseUrl: string, params: { tokenId: string }, body: RevealRequest): ApiRequest => ({
+  url: `${baseUrl}/verify-property/${params.tokenId}/reveal`,
+  method: "POST",
+  bodyString: JSON.stringify(body),
+})
+
+/** Store loan request details and return their hash — POST /loan-request → LoanRequestReceipt */
+export const submitLoanRequest = (baseUrl: string, body: LoanRequestSubmission): ApiRequest => ({
+  url: `${baseUrl}/loan-request`,
+  method: "POST",
+  bodyString: JSON.stringify(body),
+})
+
+/** Loan request details, including the Plaid token — GET /loan-request/{requestHash} → LoanRequestDetails */
+export const getLoanRequest = (baseUrl: string, params: { requestHash: string }): ApiRequest => ({
+  url: `${baseUrl}/loan-request/${params.requestHash}`,
+  method: "GET",
+})
+
+/** Month-by-month repayment schedule (exact integer amortization) — GET /loan-request/{requestHash}/schedule → RepaymentSchedule */
+export const getRepaymentSchedule = (baseUrl: string, params: { requestHash: string }, query: { rateBps?: number; principal?: string } = {}): ApiRequest => ({
+  url: `${baseUrl}/loan-request/${params.requestHash}/schedule${queryString(query)}`,
+  method: "GET",
+})
+
+/** List auctions known to the store — GET /auctions → AuctionList */
+export const listAuctions = (baseUrl: string, query: { state?: "open" | "expired" | "settled" | "closed"; limit?: number; offset?: number } = {}): ApiRequest => ({
+  url: `${baseUrl}/auctions${queryString(query)}`,
+  method: "GET",
+})
+
+/** Register an auction created on-chain (201 if new, 200 if known) — POST /auctions → AuctionDetail */
+export const registerAuction = (baseUrl: string, body: RegisterAuctionRequest): ApiRequest => ({
+  url: `${baseUrl}/auctions`,
+  method: "POST",
+  bodyString: JSON.stringify(body),
+})
+
+/** Auction detail with its on-chain record — GET /auctions/{auctionId} → AuctionDetail */
+export const getAuction = (baseUrl: string, params: { auctionId: string }): ApiRequest => ({
+  url: `${baseUrl}/auctions/${params.auctionId}`,
+  method: "GET",
+})
+
+/** Set the settlement format before the first bid — PUT /auctions/{auctionId}/format → AuctionFormatUpdate */
+export const setAuctionFormat = (baseUrl: string, params: { auctionId: string }, body: AuctionFormat): ApiRequest => ({
+  url: `${baseUrl}/auctions/${params.auctionId}/format`,
+  method: "PUT",
+  bodyString: JSON.stringify(body),
+})
+
+/** Compare stored bids with on-chain bid hashes — GET /auctions/{auctionId}/reconcile → ReconciliationReport */
+export const reconcileAuction = (baseUrl: string, params: { auctionId: string }): ApiRequest => ({
+  url: `${baseUrl}/auctions/${params.auctionId}/reconcile`,
+  method: "GET",
+})
+
+/** Hash-chained audit log of bid, settlement, verification and loan decisions — GET /audit → AuditLog */
+export const listAuditEntries = (baseUrl: string, query: { after?: number; limit?: number; kind?: "bid.accepted" | "bid.rejected" | "bid.withdrawn" | "settlement.completed" | "settlement.rejected" | "property.verification" | "property.reveal" | "loanRequest.stored" | "loanRequest.rejected"; subject?: string } = {}): ApiRequest => ({
+  url: `${baseUrl}/audit${queryString(query)}`,
+  method: "GET",
+})
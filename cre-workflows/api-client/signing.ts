@@ -0,0 +1,101 @@
+// Request signing and error decoding for the LienFi API, shared by every
+// workflow. Hand-written (gen:client leaves it alone); signingPayload is
+// mirrored in api/src/lib/auth.ts — change both together.
+
+import { hmac } from "@noble/hashes/hmac"
+import { sha256 } from "@noble/hashes/sha2"
+import { bytesToHex } from "@noble/hashes/utils"
+import type { ApiError, ApiRequest } from "./index"
+
+export interface ApiCredential {
+  keyId: string  // from the API's keys file
+  secret: string // the matching secret, read from the Vault DON
+}
+
+export type MultiHeaders = Record<string, { values: string[] }>
+
+export interface SignedApiRequest extends ApiRequest {
+  multiHeaders: MultiHeaders
+}
+
+// Method, path + query, unix-seconds timestamp and body, newline-joined
+export const signingPayload = (method: string, path: string, timestamp: number, body: string): string =>
+  [method.toUpperCase(), path, String(timestamp), body].join("\n")
+
+/**
+ * Add the X-Api-Key-Id, X-Api-Timestamp and X-Api-Signature headers.
+ *
+ * The signed path is the request url minus `baseUrl`, so `baseUrl` must not
+ * carry a path prefix that a proxy strips before the API sees it.
+ * `timestamp` should be DON time (runtime.now()) so every node signs the
+ * same request — see signApiRequest.
+ */
+export const signRequest = (
+  request: ApiRequest,
+  baseUrl: string,
+  credential: ApiCredential,
+  timestamp: number
+): SignedApiRequest => {
+  if (!request.url.startsWith(baseUrl)) {
+    throw new Error(`Request url ${request.url} is not under ${baseUrl}`)
+  }
+  const path = request.url.slice(baseUrl.length)
+  const payload = signingPayload(request.method, path, timestamp, request.bodyString ?? "")
+
+  return {
+    ...request,
+    multiHeaders: {
+      "Content-Type": { values: ["application/json"] },
+      "X-Api-Key-Id": { values: [credential.keyId] },
+      "X-Api-Timestamp": { values: [String(timestamp)] },
+      "X-Api-Signature": { values: [hmacSha256Hex(credential.secret, payload)] },
+    },
+  }
+}
+
+export const hmacSha256Hex = (secret: string, payload: string): string =>
+  bytesToHex(hmac(sha256, secret, payload))
+
+// The parts of a workflow Runtime that signing reads; the CRE SDK's
+// Runtime<Config> fits whenever Config has url and apiKeyId
+export interface SigningRuntime {
+  config: { url: string; apiKeyId: string }
+  now(): Date
+  getSecret(request: { id: string }): { result(): { value: string } }
+}
+
+// Sign with DON time so every node produces the same request. `secretId` is
+// the Vault DON secret holding the HMAC secret for config.apiKeyId.
+export const signApiRequest = (runtime: SigningRuntime, secretId: string, apiRequest: ApiRequest): SignedApiRequest => {
+  const secret = runtime.getSecret({ id: secretId }).result().value
+  const timestamp = Math.floor(runtime.now().getTime() / 1000)
+  return signRequest(apiRequest, runtime.config.url, { keyId: runtime.config.apiKeyId, secret }, timestamp)
+}
+
+// The parts of a Confidential HTTP response the error helpers read
+export interface ApiResponse {
+  statusCode: number
+  body: Uint8Array
+}
+
+// The API's ApiError body, or null if the response isn't one (e.g. a proxy's error page)
+export const apiError = (response: ApiResponse): ApiError | null => {
+  try {
+    const body = JSON.parse(new TextDecoder().decode(response.body)) as ApiError
+    return typeof body.code === "string" ? body : null
+  } catch {
+    return null
+  }
+}
+
+// An Error naming the call, the status and the API's code, field and message
+export const apiFailure = (label: string, response: ApiResponse): Error => {
+  const err = apiError(response)
+  // Throttled, not refused: say so, and when the caller can retry
+  if (response.statusCode === 429) {
+    const limit = (err as { limit?: string } | null)?.limit ?? "unknown"
+    return new Error(`${label} rate limited (${limit} limit): retry in ${err?.retryAfter ?? 60}s`)
+  }
+  const detail = err ? ` ${err.code}${err.field ? ` (${err.field})` : ""} ${err.message}` : ""
+  return new Error(`${label} failed: ${response.statusCode}${detail}`)
+}
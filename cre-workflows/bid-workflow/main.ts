@@ -18,12 +18,22 @@ import {
 import {
   encodeAbiParameters,
   parseAbiParameters,
+  zeroHash,
 } from "viem"
 import { z } from "zod"
+import {
+  submitBid,
+  withdrawBid,
+  type BidRequest,
+  type BidResponse,
+  type WithdrawBidRequest,
+} from "../api-client"
+import { signApiRequest, apiFailure, type SignedApiRequest } from "../api-client/signing"
 
 const configSchema = z.object({
   url: z.string(),
   owner: z.string(),
+  apiKeyId: z.string(),        // this workflow's credential in the API keys file (scope: bid)
   evms: z.array(
     z.object({
       chainSelectorName: z.string(),
@@ -33,35 +43,28 @@ const configSchema = z.object({
   ),
 })
 type Config = z.infer<typeof configSchema>
-type BidResult = { auctionId: string; bidHash: string; }
+
+// Vault DON secret holding the HMAC secret for config.apiKeyId
+const API_SECRET_ID = "bidApiSecret"
 
 const submitBidToApi = (
   sendRequester: ConfidentialHTTPSendRequester,
   config: Config,
-  bidPayload: string
-): BidResult => {
+  apiRequest: SignedApiRequest
+): BidResponse => {
   const response = sendRequester
     .sendRequest({
-      request: {
-        url: `${config.url}/bid`,
-        method: "POST",
-        bodyString: bidPayload,
-        multiHeaders: {
-          "X-Api-Key": { values: ["{{.apiKey}}"] },
-          "Content-Type": { values: ["application/json"] },
-        },
-      },
+      request: apiRequest,
       vaultDonSecrets: [
-        { key: "apiKey", owner: config.owner },
         { key: "san_marino_aes_gcm_encryption_key", owner: config.owner },
       ],
     })
     .result()
 
   if (!ok(response)) {
-    throw new Error(`Bid API failed: ${response.statusCode}`)
+    throw apiFailure("Bid API", response)
   }
-  return json(response) as BidResult
+  return json(response) as BidResponse
 }
 
 const onBidSubmit = (runtime: Runtime<Config>, payload: HTTPPayload): string => {
@@ -74,24 +77,42 @@ const onBidSubmit = (runtime: Runtime<Config>, payload: HTTPPayload): string =>
   //      - lockExpiry[bidder] >= auction.deadline
   //      - bidAmount >= auction.reservePrice
   //      - block.timestamp < auction.deadline
-  //    The API stores the bid securely and returns the opaque bidHash.
-  //    No payload fields are inspected in the workflow to preserve bid privacy.
-  const bidPayload = payload.input.toString()
+  //    The API stores the bid securely and returns the opaque bidHash, plus
+  //    the hash of any earlier bid it superseded (revision or withdrawal).
+  //    Only the non-sensitive `action` field is read, to pick the endpoint;
+  //    the API validates the rest (and ignores `action`).
+  const input = JSON.parse(payload.input.toString())
+  const isWithdrawal = input.action === "withdraw"
+  const apiRequest = isWithdrawal
+    ? withdrawBid(runtime.config.url, input as WithdrawBidRequest)
+    : submitBid(runtime.config.url, input as BidRequest)
+
   const confHTTPClient = new ConfidentialHTTPClient()
   const result = confHTTPClient
     .sendRequest(
       runtime,
       submitBidToApi,
-      consensusIdenticalAggregation<BidResult>()
-    )(runtime.config, bidPayload)
+      consensusIdenticalAggregation<BidResponse>()
+    )(runtime.config, signApiRequest(runtime, API_SECRET_ID, apiRequest))
     .result()
 
-  runtime.log(`Bid accepted: ${result.bidHash}`)
+  if (isWithdrawal) {
+    runtime.log(`Bid withdrawn: ${result.supersededHash}`)
+  } else if (result.supersededHash !== zeroHash) {
+    runtime.log(`Bid revised: ${result.bidHash} supersedes ${result.supersededHash}`)
+  } else {
+    runtime.log(`Bid accepted: ${result.bidHash}`)
+  }
 
-  // 2. Encode auctionId + bidHash for on-chain registration
+  // 2. Encode auctionId + bidHash + supersededHash for on-chain registration.
+  //    The contract revokes supersededHash so only the latest live bid counts.
   const reportData = encodeAbiParameters(
-    parseAbiParameters("bytes32 auctionId, bytes32 bidHash"),
-    [result.auctionId as `0x${string}`, result.bidHash as `0x${string}`]
+    parseAbiParameters("bytes32 auctionId, bytes32 bidHash, bytes32 supersededHash"),
+    [
+      result.auctionId as `0x${string}`,
+      result.bidHash as `0x${string}`,
+      result.supersededHash as `0x${string}`,
+    ]
   )
 
   // 3. Get DON-signed report
@@ -21,10 +21,19 @@ import {
   getAddress,
 } from "viem"
 import { z } from "zod"
+import {
+  registerAuction,
+  verifyProperty as verifyPropertyRequest,
+  type AuctionDetail,
+  type AuctionFormat,
+  type VerifyPropertyResponse,
+} from "../api-client"
+import { signApiRequest, apiFailure, type SignedApiRequest } from "../api-client/signing"
 
 const configSchema = z.object({
   url: z.string(),
   owner: z.string(),
+  apiKeyId: z.string(), // this workflow's credential in the API keys file (scopes: verify, auctions)
   evms: z.array(
     z.object({
       chainSelectorName: z.string(),
@@ -43,16 +52,12 @@ const createAuctionPayloadSchema = z.object({
   deadline: z.number(),          // auction end timestamp (unix seconds)
   reservePrice: z.string(),      // minimum bid in USDC (6-decimal string, e.g. "200000000000" = $200k)
   auctionId: z.string(),         // bytes32 hex auction identifier
+  format: z.object({ kind: z.string() }).passthrough().optional(), // settlement format, default vickrey
 })
 type CreateAuctionPayload = z.infer<typeof createAuctionPayloadSchema>
 
-type VerifyResult = {
-  valid: boolean
-  tokenId: number          // assigned token ID
-  metadataHash: string     // keccak256 of property details
-  appraisedValue: string   // total property appraised value in USD
-  message: string
-}
+// Vault DON secret holding the HMAC secret for config.apiKeyId
+const API_SECRET_ID = "createAuctionApiSecret"
 
 // Verify property via Confidential HTTP.
 // The API checks: property exists, owner verified, not already tokenized.
@@ -60,30 +65,42 @@ type VerifyResult = {
 const verifyProperty = (
   sendRequester: ConfidentialHTTPSendRequester,
   config: Config,
-  body: string
-): VerifyResult => {
+  apiRequest: SignedApiRequest
+): VerifyPropertyResponse => {
+  const response = sendRequester
+    .sendRequest({
+      request: apiRequest,
+      vaultDonSecrets: [
+        { key: "san_marino_aes_gcm_encryption_key", owner: config.owner },
+      ],
+    })
+    .result()
+
+  if (!ok(response)) {
+    throw apiFailure("Property verification API", response)
+  }
+  return json(response) as VerifyPropertyResponse
+}
+
+// Register the new auction with the API so its store uses the on-chain deadline.
+const registerAuctionWithApi = (
+  sendRequester: ConfidentialHTTPSendRequester,
+  config: Config,
+  apiRequest: SignedApiRequest
+): AuctionDetail => {
   const response = sendRequester
     .sendRequest({
-      request: {
-        url: `${config.url}/verify-property`,
-        method: "POST",
-        bodyString: body,
-        multiHeaders: {
-          "X-Api-Key": { values: ["{{.apiKey}}"] },
-          "Content-Type": { values: ["application/json"] },
-        },
-      },
+      request: apiRequest,
       vaultDonSecrets: [
-        { key: "apiKey", owner: config.owner },
         { key: "san_marino_aes_gcm_encryption_key", owner: config.owner },
       ],
     })
     .result()
 
   if (!ok(response)) {
-    throw new Error(`Property verification API failed: ${response.statusCode}`)
+    throw apiFailure("Auction registration API", response)
   }
-  return json(response) as VerifyResult
+  return json(response) as AuctionDetail
 }
 
 const onCreateAuction = (runtime: Runtime<Config>, payload: HTTPPayload): string => {
@@ -101,7 +118,7 @@ const onCreateAuction = (runtime: Runtime<Config>, payload: HTTPPayload): string
 
   // 2. Verify property via Confidential HTTP
   //    Property details stay private — verification runs inside CRE enclave.
-  const verifyBody = JSON.stringify({
+  const verifyRequest = verifyPropertyRequest(runtime.config.url, {
     propertyId: data.propertyId,
     sellerAddress: data.sellerAddress,
   })
@@ -111,8 +128,8 @@ const onCreateAuction = (runtime: Runtime<Config>, payload: HTTPPayload): string
     .sendRequest(
       runtime,
       verifyProperty,
-      consensusIdenticalAggregation<VerifyResult>()
-    )(runtime.config, verifyBody)
+      consensusIdenticalAggregation<VerifyPropertyResponse>()
+    )(runtime.config, signApiRequest(runtime, API_SECRET_ID, verifyRequest))
     .result()
 
   if (!verifyResult.valid) {
@@ -173,6 +190,22 @@ const onCreateAuction = (runtime: Runtime<Config>, payload: HTTPPayload): string
   const txHash = bytesToHex(writeResult.txHash || new Uint8Array(32))
   runtime.log(`createPropertyAuction submitted: ${txHash}`)
   runtime.log(`Auction created for tokenId=${data.tokenId}, reserve=${data.reservePrice}`)
+
+  // 6. Register with the API — it reads the deadline back from the contract
+  //    and validates the format
+  const registerRequest = registerAuction(runtime.config.url, {
+    auctionId: data.auctionId,
+    format: data.format as AuctionFormat | undefined,
+  })
+  const registered = confHTTPClient
+    .sendRequest(
+      runtime,
+      registerAuctionWithApi,
+      consensusIdenticalAggregation<AuctionDetail>()
+    )(runtime.config, signApiRequest(runtime, API_SECRET_ID, registerRequest))
+    .result()
+
+  runtime.log(`Auction registered with API: auctionId=${registered.auctionId} deadline=${registered.deadline}`)
   return txHash
 }
 
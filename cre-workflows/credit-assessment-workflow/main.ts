@@ -29,12 +29,30 @@ import {
   zeroAddress,
 } from "viem"
 import { z } from "zod"
+import { getLoanRequest, type LoanRequestDetails } from "../api-client"
+import { signApiRequest, apiFailure, type SignedApiRequest } from "../api-client/signing"
+import {
+  LLM_VERDICT_FORMAT,
+  requestLlmVerdict,
+  scoringConfigSchema,
+  selectScorer,
+  type CreditScorer,
+  type CreditVerdict,
+  type LlmMessage,
+  type PlaidMetrics,
+  type ScoringInput,
+} from "./scoring"
+import { checkLtv, checkMetrics, policyHash, underwritingPolicySchema } from "./policy"
+import { ltvBps, priceRate, rateGridSchema } from "./pricing"
+import { encodeVerdictReport } from "./report"
+import { computeEmi, MAX_TENURE_MONTHS } from "../api-client/amortization"
 
 // ─── Config ──────────────────────────────────────────────────────────────────
 
 const configSchema = z.object({
   url: z.string(),
   owner: z.string(),
+  apiKeyId: z.string(), // this workflow's credential in the API keys file (scope: loan-read)
   evms: z.array(
     z.object({
       chainSelectorName: z.string(),
@@ -43,7 +61,10 @@ const configSchema = z.object({
       gasLimit: z.string(),
     })
   ),
-  interestRateBps: z.number(), // e.g. 800 = 8% annual
+  interestRateBps: z.number(), // e.g. 800 = 8% annual — reference rate for the EMI the gates and scorer see
+  pricing: rateGridSchema, // credit score × LTV band → APR offered (see pricing.ts)
+  scoring: scoringConfigSchema, // scorecard | llm | hybrid, plus scorecard weights (see scoring.ts)
+  policy: underwritingPolicySchema, // hard gates + approval TTL, hashed into every verdict (see policy.ts)
 })
 type Config = z.infer<typeof configSchema>
 
@@ -65,64 +86,30 @@ const LendingPoolABI: Abi = [
   },
 ]
 
-// ─── Types ───────────────────────────────────────────────────────────────────
-
-type LoanRequestDetails = {
-  requestHash: string
-  borrowerAddress: string
-  plaidToken: string
-  tokenId: number
-  requestedAmount: string
-  tenureMonths: number
-  nonce: number
-  timestamp: number
-  appraisedValueUsd: number
-}
-
-type PlaidMetrics = {
-  monthlyIncome: number
-  dti: number
-  stabilityScore: number
-  overdraftRate: number
-  hasRecentDefaults: boolean
-}
-
-type AnthropicVerdict = {
-  creditScore: number
-  verdict: "approve" | "reject"
-  approvedAmount: string
-  reason: string
-}
-
 // ─── Confidential HTTP helpers ───────────────────────────────────────────────
 
+// Vault DON secret holding the HMAC secret for config.apiKeyId
+const API_SECRET_ID = "creditAssessmentApiSecret"
+
 /**
  * Fetch loan request details from LienFi API via Confidential HTTP.
  */
 const fetchLoanRequest = (
   sendRequester: ConfidentialHTTPSendRequester,
   config: Config,
-  requestHash: string
+  apiRequest: SignedApiRequest
 ): LoanRequestDetails => {
   const response = sendRequester
     .sendRequest({
-      request: {
-        url: `${config.url}/loan-request/${requestHash}`,
-        method: "GET",
-        multiHeaders: {
-          "X-Api-Key": { values: ["{{.apiKey}}"] },
-          "Content-Type": { values: ["application/json"] },
-        },
-      },
+      request: apiRequest,
       vaultDonSecrets: [
-        { key: "apiKey", owner: config.owner },
         { key: "san_marino_aes_gcm_encryption_key", owner: config.owner },
       ],
     })
     .result()
 
   if (!ok(response)) {
-    throw new Error(`Loan request API failed: ${response.statusCode}`)
+    throw apiFailure("Loan request API", response)
   }
   return json(response) as LoanRequestDetails
 }
@@ -208,52 +195,17 @@ const fetchPlaidData = (
 }
 
 /**
- * Call Anthropic Messages API for credit scoring via Confidential HTTP.
- * Sends only pre-processed metrics — never raw financial data.
+ * One Anthropic Messages API call via Confidential HTTP; returns the reply text.
  */
-const callAnthropicScoring = (
+const sendAnthropicMessages = (
   sendRequester: ConfidentialHTTPSendRequester,
   config: Config,
-  metrics: {
-    monthlyIncome: number
-    emi: number
-    coverage: number
-    dti: number
-    ltv: number
-    stabilityScore: number
-    overdraftRate: number
-    requestedAmount: string
-  }
-): AnthropicVerdict => {
-  const prompt = `You are a mortgage credit scoring AI. Based on these financial metrics, provide a credit assessment.
-
-Metrics:
-- Monthly Income: $${metrics.monthlyIncome.toFixed(2)}
-- Monthly EMI: $${metrics.emi.toFixed(2)}
-- Income Coverage Ratio: ${metrics.coverage.toFixed(2)}×
-- Debt-to-Income Ratio: ${(metrics.dti * 100).toFixed(1)}%
-- Loan-to-Value Ratio: ${(metrics.ltv * 100).toFixed(1)}%
-- Income Stability Score: ${(metrics.stabilityScore * 100).toFixed(0)}%
-- Overdraft Rate: ${(metrics.overdraftRate * 100).toFixed(1)}%
-- Requested Amount: $${(Number(metrics.requestedAmount) / 1e6).toFixed(2)}
-
-Respond ONLY with valid JSON (no markdown, no explanation):
-{
-  "creditScore": <number 300-850>,
-  "verdict": "approve" or "reject",
-  "approvedAmount": "<USDC 6-decimal string, 0 if rejected>",
-  "reason": "<one sentence>"
-}`
-
+  messages: LlmMessage[]
+): string => {
   const body = JSON.stringify({
     model: "claude-sonnet-4-6",
     max_tokens: 256,
-    messages: [
-      {
-        role: "user",
-        content: prompt,
-      },
-    ],
+    messages,
   })
 
   const response = sendRequester
@@ -286,27 +238,60 @@ Respond ONLY with valid JSON (no markdown, no explanation):
   if (!textContent) {
     throw new Error("Anthropic response missing text content")
   }
-
-  return JSON.parse(textContent.text) as AnthropicVerdict
+  return textContent.text
 }
 
-// ─── EMI computation ─────────────────────────────────────────────────────────
-
 /**
- * EMI = P × r × (1+r)^n / ((1+r)^n - 1)
- * @param principal USDC 6-decimal string
- * @param annualBps annual interest rate in bps (e.g. 800 = 8%)
- * @param tenureMonths loan tenure in months
- * @returns EMI as a number (USDC 6-decimal scale)
+ * Call Anthropic Messages API for credit scoring via Confidential HTTP.
+ * Sends only pre-processed metrics — never raw financial data.
+ *
+ * The reply is validated by parseLlmVerdict (approvedAmount clamped to
+ * maxApprovedAmount), with one corrective retry — see requestLlmVerdict.
  */
-function computeEMI(principal: string, annualBps: number, tenureMonths: number): number {
-  const P = Number(principal)
-  const r = annualBps / 10000 / 12
-  if (r === 0) return P / tenureMonths
-  const factor = Math.pow(1 + r, tenureMonths)
-  return (P * r * factor) / (factor - 1)
+const callAnthropicScoring = (
+  sendRequester: ConfidentialHTTPSendRequester,
+  config: Config,
+  metrics: ScoringInput
+): CreditVerdict => {
+  const prompt = `You are a mortgage credit scoring AI. Based on these financial metrics, provide a credit assessment.
+
+Metrics:
+- Monthly Income: $${metrics.monthlyIncome.toFixed(2)}
+- Monthly EMI: $${metrics.emi.toFixed(2)}
+- Income Coverage Ratio: ${metrics.coverage.toFixed(2)}×
+- Debt-to-Income Ratio: ${(metrics.dti * 100).toFixed(1)}%
+- Loan-to-Value Ratio: ${(metrics.ltv * 100).toFixed(1)}%
+- Income Stability Score: ${(metrics.stabilityScore * 100).toFixed(0)}%
+- Overdraft Rate: ${(metrics.overdraftRate * 100).toFixed(1)}%
+- Requested Amount: $${(Number(metrics.requestedAmount) / 1e6).toFixed(2)}
+- Maximum Approvable: ${metrics.maxApprovedAmount} (USDC 6-decimal)
+
+Respond ONLY with valid JSON (no markdown, no explanation):
+${LLM_VERDICT_FORMAT}`
+
+  return requestLlmVerdict(
+    (messages) => sendAnthropicMessages(sendRequester, config, messages),
+    prompt,
+    metrics.maxApprovedAmount
+  )
 }
 
+/**
+ * The LLM as a CreditScorer. Every DON node must get byte-identical output
+ * for consensus, which is why the scorecard and hybrid modes exist.
+ */
+const llmScorer = (runtime: Runtime<Config>, confHTTPClient: ConfidentialHTTPClient): CreditScorer => ({
+  name: "llm",
+  score: (input) =>
+    confHTTPClient
+      .sendRequest(
+        runtime,
+        callAnthropicScoring,
+        consensusIdenticalAggregation<CreditVerdict>()
+      )(runtime.config, input)
+      .result(),
+})
+
 // ─── Main handler ────────────────────────────────────────────────────────────
 
 const onLoanRequestSubmitted = (runtime: Runtime<Config>, log: EVMLog): string => {
@@ -324,6 +309,9 @@ const onLoanRequestSubmitted = (runtime: Runtime<Config>, log: EVMLog): string =
 
   runtime.log(`LoanRequestSubmitted: borrower=${borrower} requestHash=${requestHash}`)
 
+  const { policy } = runtime.config
+  runtime.log(`Underwriting policy ${policy.version} (${policyHash(policy)})`)
+
   // 2. FETCH LOAN REQUEST via Confidential HTTP
   const confHTTPClient = new ConfidentialHTTPClient()
 
@@ -332,7 +320,7 @@ const onLoanRequestSubmitted = (runtime: Runtime<Config>, log: EVMLog): string =
       runtime,
       fetchLoanRequest,
       consensusIdenticalAggregation<LoanRequestDetails>()
-    )(runtime.config, requestHash)
+    )(runtime.config, signApiRequest(runtime, API_SECRET_ID, getLoanRequest(runtime.config.url, { requestHash })))
     .result()
 
   runtime.log(
@@ -361,32 +349,53 @@ const onLoanRequestSubmitted = (runtime: Runtime<Config>, log: EVMLog): string =
 
   runtime.log("Hash integrity verified")
 
-  // 4. COMPUTE EMI
-  const emi = computeEMI(
-    details.requestedAmount,
-    runtime.config.interestRateBps,
-    details.tenureMonths
-  )
-
-  runtime.log(`Computed EMI: ${emi.toFixed(0)} (${(emi / 1e6).toFixed(2)} USDC/mo)`)
+  // 4. HARD RULE GATES: tenure in range, then LTV within the policy band for
+  //    it — both before any EMI math, whose cost grows with the tenure
+  if (!Number.isInteger(details.tenureMonths) || details.tenureMonths < 1 || details.tenureMonths > MAX_TENURE_MONTHS) {
+    runtime.log(`REJECTED: Tenure ${details.tenureMonths} months outside 1–${MAX_TENURE_MONTHS}`)
+    return writeVerdict(runtime, {
+      borrower,
+      requestHash,
+      tokenId: details.tokenId,
+      approvedLimit: "0",
+      tenureMonths: details.tenureMonths,
+      computedEMI: "0",
+      rateBps: 0,
+      approved: false,
+    })
+  }
 
-  // 5. HARD RULE GATE: LTV ≤ 80%
   const appraisedValueUsdc = details.appraisedValueUsd * 1e6 // convert USD to USDC 6-decimal
   const ltv = Number(details.requestedAmount) / appraisedValueUsdc
+  const requested = BigInt(details.requestedAmount)
+  const ltvGate = checkLtv(policy, details.tenureMonths, requested, details.appraisedValueUsd)
 
-  if (ltv > 0.8) {
-    runtime.log(`REJECTED: LTV ${(ltv * 100).toFixed(1)}% exceeds 80% limit`)
+  if (!ltvGate.ok) {
+    runtime.log(`REJECTED: ${ltvGate.reason} (LTV ${(ltv * 100).toFixed(1)}%)`)
     return writeVerdict(runtime, {
       borrower,
       requestHash,
       tokenId: details.tokenId,
       approvedLimit: "0",
       tenureMonths: details.tenureMonths,
-      computedEMI: Math.floor(emi).toString(),
+      computedEMI: "0",
+      rateBps: 0,
       approved: false,
     })
   }
 
+  // 5. COMPUTE EMI at the reference rate (repriced for the borrower in step 9)
+  //    Exact integer math shared with the API (api-client/amortization); the
+  //    Number view is only for ratios
+  const emiUnits = computeEmi(
+    requested,
+    runtime.config.interestRateBps,
+    details.tenureMonths
+  )
+  const emi = Number(emiUnits)
+
+  runtime.log(`Computed EMI: ${emiUnits} (${(emi / 1e6).toFixed(2)} USDC/mo)`)
+
   // 6. FETCH PLAID DATA via Confidential HTTP
   const plaidMetrics = confHTTPClient
     .sendRequest(
@@ -400,70 +409,99 @@ const onLoanRequestSubmitted = (runtime: Runtime<Config>, log: EVMLog): string =
     `Plaid metrics: income=$${plaidMetrics.monthlyIncome.toFixed(0)}/mo DTI=${(plaidMetrics.dti * 100).toFixed(1)}% stability=${(plaidMetrics.stabilityScore * 100).toFixed(0)}%`
   )
 
-  // 7. HARD RULE GATES (post-Plaid)
+  // 7. HARD RULE GATES (post-Plaid): coverage, defaults, DTI, stability, overdrafts
   const incomeCoverage = plaidMetrics.monthlyIncome / emi
+  const gateFailure = checkMetrics(policy, plaidMetrics, incomeCoverage)
 
-  if (incomeCoverage < 3) {
-    runtime.log(`REJECTED: Income coverage ${incomeCoverage.toFixed(2)}× below 3× minimum`)
+  if (gateFailure) {
+    runtime.log(`REJECTED: ${gateFailure}`)
     return writeVerdict(runtime, {
       borrower,
       requestHash,
       tokenId: details.tokenId,
       approvedLimit: "0",
       tenureMonths: details.tenureMonths,
-      computedEMI: Math.floor(emi).toString(),
+      computedEMI: emiUnits.toString(),
+      rateBps: runtime.config.interestRateBps,
       approved: false,
     })
   }
 
-  if (plaidMetrics.hasRecentDefaults) {
-    runtime.log("REJECTED: Defaults detected in last 12 months")
+  // 8. CREDIT SCORING — scorecard, LLM (Anthropic via Confidential HTTP) or both
+  //    No scorer may approve more than the request or the tenure's LTV cap
+  const maxApprovedAmount = (requested < ltvGate.capUsdc ? requested : ltvGate.capUsdc).toString()
+
+  const scorer = selectScorer(runtime.config.scoring, llmScorer(runtime, confHTTPClient))
+  const aiVerdict = scorer.score({
+    ...plaidMetrics,
+    emi,
+    coverage: incomeCoverage,
+    ltv,
+    requestedAmount: details.requestedAmount,
+    maxApprovedAmount,
+  })
+
+  runtime.log(
+    `Credit verdict (${scorer.name}): score=${aiVerdict.creditScore} verdict=${aiVerdict.verdict} approved=${aiVerdict.approvedAmount} reason="${aiVerdict.reason}"`
+  )
+
+  if (aiVerdict.verdict === "reject") {
     return writeVerdict(runtime, {
       borrower,
       requestHash,
       tokenId: details.tokenId,
       approvedLimit: "0",
       tenureMonths: details.tenureMonths,
-      computedEMI: Math.floor(emi).toString(),
+      computedEMI: emiUnits.toString(),
+      rateBps: runtime.config.interestRateBps,
       approved: false,
     })
   }
 
-  // 8. CALL ANTHROPIC AI for credit scoring via Confidential HTTP
-  const aiVerdict = confHTTPClient
-    .sendRequest(
-      runtime,
-      callAnthropicScoring,
-      consensusIdenticalAggregation<AnthropicVerdict>()
-    )(runtime.config, {
-      monthlyIncome: plaidMetrics.monthlyIncome,
-      emi,
-      coverage: incomeCoverage,
-      dti: plaidMetrics.dti,
-      ltv,
-      stabilityScore: plaidMetrics.stabilityScore,
-      overdraftRate: plaidMetrics.overdraftRate,
-      requestedAmount: details.requestedAmount,
+  // 9. RISK-BASED PRICING — APR from credit score × LTV of the approved amount,
+  //    then EMI at that rate, re-checked against the coverage gate
+  const approvedLtvBps = ltvBps(BigInt(aiVerdict.approvedAmount), details.appraisedValueUsd)
+  const priced = priceRate(runtime.config.pricing, aiVerdict.creditScore, approvedLtvBps)
+  if (!priced.ok) {
+    runtime.log(`REJECTED: ${priced.reason}`)
+    return writeVerdict(runtime, {
+      borrower,
+      requestHash,
+      tokenId: details.tokenId,
+      approvedLimit: "0",
+      tenureMonths: details.tenureMonths,
+      computedEMI: emiUnits.toString(),
+      rateBps: runtime.config.interestRateBps,
+      approved: false,
     })
-    .result()
+  }
 
-  runtime.log(
-    `Anthropic verdict: score=${aiVerdict.creditScore} verdict=${aiVerdict.verdict} approved=${aiVerdict.approvedAmount} reason="${aiVerdict.reason}"`
-  )
+  const { rateBps } = priced
+  const pricedEmiUnits = computeEmi(BigInt(aiVerdict.approvedAmount), rateBps, details.tenureMonths)
+  const pricedEmi = Number(pricedEmiUnits)
+  const pricedCoverage = plaidMetrics.monthlyIncome / pricedEmi
 
-  if (aiVerdict.verdict === "reject") {
+  if (pricedCoverage < policy.minIncomeCoverage) {
+    runtime.log(
+      `REJECTED: Income coverage ${pricedCoverage.toFixed(2)}× at ${rateBps} bps below ${policy.minIncomeCoverage}× minimum`
+    )
     return writeVerdict(runtime, {
       borrower,
       requestHash,
       tokenId: details.tokenId,
       approvedLimit: "0",
       tenureMonths: details.tenureMonths,
-      computedEMI: Math.floor(emi).toString(),
+      computedEMI: pricedEmiUnits.toString(),
+      rateBps,
       approved: false,
     })
   }
 
-  // 9. LIQUIDITY CHECK — EVM Read on LendingPool
+  runtime.log(
+    `Priced: ${rateBps} bps at LTV ${(approvedLtvBps / 100).toFixed(2)}% — EMI ${pricedEmiUnits} (${(pricedEmi / 1e6).toFixed(2)} USDC/mo)`
+  )
+
+  // 10. LIQUIDITY CHECK — EVM Read on LendingPool
   const network = getNetwork({
     chainFamily: "evm",
     chainSelectorName,
@@ -507,12 +545,13 @@ const onLoanRequestSubmitted = (runtime: Runtime<Config>, log: EVMLog): string =
       tokenId: details.tokenId,
       approvedLimit: "0",
       tenureMonths: details.tenureMonths,
-      computedEMI: Math.floor(emi).toString(),
+      computedEMI: pricedEmiUnits.toString(),
+      rateBps,
       approved: false,
     })
   }
 
-  // 10. ALL CHECKS PASSED — write approval verdict
+  // 11. ALL CHECKS PASSED — write approval verdict at the priced rate
   runtime.log("All checks passed. Writing approval verdict on-chain.")
 
   return writeVerdict(runtime, {
@@ -521,7 +560,8 @@ const onLoanRequestSubmitted = (runtime: Runtime<Config>, log: EVMLog): string =
     tokenId: details.tokenId,
     approvedLimit: aiVerdict.approvedAmount,
     tenureMonths: details.tenureMonths,
-    computedEMI: Math.floor(emi).toString(),
+    computedEMI: pricedEmiUnits.toString(),
+    rateBps,
     approved: true,
   })
 }
@@ -537,29 +577,28 @@ function writeVerdict(
     approvedLimit: string
     tenureMonths: number
     computedEMI: string
+    rateBps: number // APR computedEMI was computed at: reference before pricing, priced after; 0 with no EMI
     approved: boolean
   }
 ): string {
   const { loanManagerAddress, chainSelectorName, gasLimit } = runtime.config.evms[0]
-
-  // Approval expires in 7 days
-  const expiresAt = Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60
-
-  const reportData = encodeAbiParameters(
-    parseAbiParameters(
-      "address borrower, bytes32 requestHash, uint256 tokenId, uint256 approvedLimit, uint256 tenureMonths, uint256 computedEMI, uint256 expiresAt, bool approved"
-    ),
-    [
-      params.borrower as Address,
-      params.requestHash as `0x${string}`,
-      BigInt(params.tokenId),
-      BigInt(params.approvedLimit),
-      BigInt(params.tenureMonths),
-      BigInt(params.computedEMI),
-      BigInt(expiresAt),
-      params.approved,
-    ]
-  )
+  const { policy } = runtime.config
+
+  // Approval expires after the policy's TTL, counted from DON time so every node agrees
+  const expiresAt = Math.floor(runtime.now().getTime() / 1000) + policy.approvalTtlSeconds
+
+  const reportData = encodeVerdictReport({
+    borrower: params.borrower as Address,
+    requestHash: params.requestHash as `0x${string}`,
+    tokenId: BigInt(params.tokenId),
+    approvedLimit: BigInt(params.approvedLimit),
+    tenureMonths: BigInt(params.tenureMonths),
+    computedEMI: BigInt(params.computedEMI),
+    rateBps: BigInt(params.rateBps),
+    expiresAt: BigInt(expiresAt),
+    approved: params.approved,
+    policyHash: policyHash(policy),
+  })
 
   const reportResponse = runtime
     .report({
@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test"
+import { checkLtv, checkMetrics, maxLtvBps, policyHash, underwritingPolicySchema, type UnderwritingPolicy } from "./policy"
+import type { PlaidMetrics } from "./scoring"
+
+const POLICY: UnderwritingPolicy = underwritingPolicySchema.parse({
+  version: "2026-10-01",
+  ltvBands: [
+    { maxTenureMonths: 180, maxLtvBps: 8000 },
+    { maxTenureMonths: 360, maxLtvBps: 7500 },
+  ],
+  minIncomeCoverage: 3,
+  maxDti: 0.45,
+  minStabilityScore: 0.3,
+  maxOverdraftRate: 0.05,
+  rejectRecentDefaults: true,
+  approvalTtlSeconds: 604800,
+})
+
+const GOOD: PlaidMetrics = {
+  monthlyIncome: 12_000,
+  dti: 0.2,
+  stabilityScore: 0.9,
+  overdraftRate: 0,
+  hasRecentDefaults: false,
+}
+
+describe("policyHash", () => {
+  test("is pinned for a given policy, so recorded verdicts stay traceable", () => {
+    expect(policyHash(POLICY)).toBe("0x64e12723437d5032c4cfeac4534cee36c6d86cd34635d2e6a7b4c0bb3537ebf5")
+  })
+
+  test("ignores key order at every level", () => {
+    const reordered = Object.fromEntries(Object.entries(POLICY).reverse()) as UnderwritingPolicy
+    reordered.ltvBands = POLICY.ltvBands.map((b) => ({ maxLtvBps: b.maxLtvBps, maxTenureMonths: b.maxTenureMonths }))
+    expect(policyHash(reordered)).toBe(policyHash(POLICY))
+  })
+
+  test.each([
+    ["version", { version: "2026-10-02" }],
+    ["a band's limit", { ltvBands: [{ maxTenureMonths: 180, maxLtvBps: 7999 }, POLICY.ltvBands[1]] }],
+    ["band order", { ltvBands: [...POLICY.ltvBands].reverse() }],
+    ["a threshold", { maxDti: 0.4500001 }],
+    ["a flag", { rejectRecentDefaults: false }],
+    ["the TTL", { approvalTtlSeconds: 604801 }],
+  ])("changes with %s", (_, change) => {
+    expect(policyHash({ ...POLICY, ...change })).not.toBe(policyHash(POLICY))
+  })
+})
+
+describe("LTV gate", () => {
+  test.each([
+    [1, 8000],
+    [180, 8000],
+    [181, 7500],
+    [360, 7500],
+    [361, null],
+  ])("a %i-month tenure allows %p bps", (tenure, bps) => {
+    expect(maxLtvBps(POLICY, tenure)).toBe(bps)
+  })
+
+  test("a request at the band's cap passes and one unit over fails", () => {
+    const appraised = 500_000 // USD
+    const cap = 375_000_000_000n // 75% in USDC units
+    expect(checkLtv(POLICY, 360, cap, appraised)).toEqual({ ok: true, capUsdc: cap })
+    expect(checkLtv(POLICY, 360, cap + 1n, appraised)).toEqual({
+      ok: false,
+      reason: "LTV exceeds 75% limit for 360-month tenure",
+    })
+    expect(checkLtv(POLICY, 180, cap + 1n, appraised).ok).toBe(true)
+    expect(checkLtv(POLICY, 361, 1n, appraised)).toEqual({
+      ok: false,
+      reason: "Tenure 361 months exceeds the longest LTV band",
+    })
+  })
+
+  test("bands must be in ascending tenure order", () => {
+    const parsed = underwritingPolicySchema.safeParse({ ...POLICY, ltvBands: [...POLICY.ltvBands].reverse() })
+    expect(parsed.success).toBe(false)
+  })
+})
+
+describe("metric gates", () => {
+  test("metrics inside every limit pass, including exactly at each one", () => {
+    expect(checkMetrics(POLICY, GOOD, 4)).toBeNull()
+    expect(checkMetrics(POLICY, { ...GOOD, dti: 0.45, stabilityScore: 0.3, overdraftRate: 0.05 }, 3)).toBeNull()
+  })
+
+  test.each([
+    ["coverage", GOOD, 2.99, "Income coverage 2.99× below 3× minimum"],
+    ["coverage that isn't a number", GOOD, NaN, "Income coverage NaN× below 3× minimum"],
+    ["recent defaults", { ...GOOD, hasRecentDefaults: true }, 4, "Defaults detected in last 12 months"],
+    ["DTI", { ...GOOD, dti: 0.451 }, 4, "DTI 45.1% above 45.0% ceiling"],
+    ["stability", { ...GOOD, stabilityScore: 0.29 }, 4, "Income stability 29% below 30% minimum"],
+    ["overdrafts", { ...GOOD, overdraftRate: 0.051 }, 4, "Overdraft rate 5.1% above 5.0% maximum"],
+  ])("%s", (_, metrics, coverage, reason) => {
+    expect(checkMetrics(POLICY, metrics, coverage)).toBe(reason)
+  })
+
+  test("the first failing gate is reported, and the defaults gate can be switched off", () => {
+    const everything = { ...GOOD, hasRecentDefaults: true, dti: 0.9, stabilityScore: 0, overdraftRate: 1 }
+    expect(checkMetrics(POLICY, everything, 1)).toStartWith("Income coverage")
+    expect(checkMetrics(POLICY, everything, 4)).toBe("Defaults detected in last 12 months")
+    expect(checkMetrics({ ...POLICY, rejectRecentDefaults: false }, { ...GOOD, hasRecentDefaults: true }, 4)).toBeNull()
+  })
+})
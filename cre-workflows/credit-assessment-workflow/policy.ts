@@ -0,0 +1,101 @@
+import { z } from "zod"
+import { keccak256, toBytes, type Hex } from "viem"
+import type { PlaidMetrics } from "./scoring"
+
+// ─── Underwriting policy ─────────────────────────────────────────────────────
+//
+// The hard gates and approval TTL, owned by the risk team and set in the
+// workflow config under `policy`. Every on-chain verdict carries
+// policyHash(policy), so a decision can be traced to the exact policy in
+// force: bump `version` with every change and keep old policies on file.
+
+const bps = z.number().int().min(0).max(10_000)
+
+export const underwritingPolicySchema = z.object({
+  version: z.string().min(1), // e.g. "2026-10-01"
+  // Max loan-to-value by tenure: the first band whose maxTenureMonths
+  // covers the request applies; longer tenures are rejected
+  ltvBands: z
+    .array(z.object({ maxTenureMonths: z.number().int().positive(), maxLtvBps: bps }))
+    .min(1)
+    .refine(
+      (bands) => bands.every((band, i) => i === 0 || band.maxTenureMonths > bands[i - 1].maxTenureMonths),
+      "ltvBands must be sorted by ascending maxTenureMonths"
+    ),
+  minIncomeCoverage: z.number().positive(), // monthly income / EMI
+  maxDti: z.number().positive(),            // 0.45 = 45%
+  minStabilityScore: z.number().min(0).max(1),
+  maxOverdraftRate: z.number().min(0).max(1),
+  rejectRecentDefaults: z.boolean(),
+  approvalTtlSeconds: z.number().int().positive(),
+})
+export type UnderwritingPolicy = z.infer<typeof underwritingPolicySchema>
+
+/** JSON with object keys sorted at every level, so equal policies hash equally. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`
+  }
+  return JSON.stringify(value)
+}
+
+/** keccak256 of the canonical policy JSON — written into every verdict report. */
+export function policyHash(policy: UnderwritingPolicy): Hex {
+  return keccak256(toBytes(canonicalJson(policy)))
+}
+
+/** The max LTV for a tenure, in bps, or null if no band covers it. */
+export function maxLtvBps(policy: UnderwritingPolicy, tenureMonths: number): number | null {
+  return policy.ltvBands.find((band) => tenureMonths <= band.maxTenureMonths)?.maxLtvBps ?? null
+}
+
+export type LtvGate = { ok: true; capUsdc: bigint } | { ok: false; reason: string }
+
+/**
+ * Pre-Plaid gate: the request must fit its tenure's LTV band. On success
+ * returns the band's cap on the loan amount (USDC, 6 decimals).
+ */
+export function checkLtv(
+  policy: UnderwritingPolicy,
+  tenureMonths: number,
+  requestedAmount: bigint,
+  appraisedValueUsd: number
+): LtvGate {
+  const limit = maxLtvBps(policy, tenureMonths)
+  if (limit === null) {
+    return { ok: false, reason: `Tenure ${tenureMonths} months exceeds the longest LTV band` }
+  }
+  const capUsdc = (BigInt(appraisedValueUsd) * 1_000_000n * BigInt(limit)) / 10_000n
+  if (requestedAmount > capUsdc) {
+    return { ok: false, reason: `LTV exceeds ${limit / 100}% limit for ${tenureMonths}-month tenure` }
+  }
+  return { ok: true, capUsdc }
+}
+
+/** Post-Plaid gates. Returns the first failing gate's reason, or null. */
+export function checkMetrics(
+  policy: UnderwritingPolicy,
+  metrics: PlaidMetrics,
+  incomeCoverage: number
+): string | null {
+  if (!(incomeCoverage >= policy.minIncomeCoverage)) {
+    return `Income coverage ${incomeCoverage.toFixed(2)}× below ${policy.minIncomeCoverage}× minimum`
+  }
+  if (policy.rejectRecentDefaults && metrics.hasRecentDefaults) {
+    return "Defaults detected in last 12 months"
+  }
+  if (metrics.dti > policy.maxDti) {
+    return `DTI ${(metrics.dti * 100).toFixed(1)}% above ${(policy.maxDti * 100).toFixed(1)}% ceiling`
+  }
+  if (metrics.stabilityScore < policy.minStabilityScore) {
+    return `Income stability ${(metrics.stabilityScore * 100).toFixed(0)}% below ${(policy.minStabilityScore * 100).toFixed(0)}% minimum`
+  }
+  if (metrics.overdraftRate > policy.maxOverdraftRate) {
+    return `Overdraft rate ${(metrics.overdraftRate * 100).toFixed(1)}% above ${(policy.maxOverdraftRate * 100).toFixed(1)}% maximum`
+  }
+  return null
+}
@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test"
+import { ltvBps, priceRate, rateGridSchema, type RateGrid } from "./pricing"
+
+const GRID: RateGrid = rateGridSchema.parse({
+  ltvBandsBps: [6000, 7000, 8000],
+  rows: [
+    { minScore: 750, ratesBps: [650, 700, 775] },
+    { minScore: 700, ratesBps: [750, 800, 900] },
+    { minScore: 650, ratesBps: [900, 975, 1100] },
+  ],
+})
+
+describe("ltvBps", () => {
+  const appraised = 500_000 // USD
+
+  test.each([
+    ["exactly 60%", 300_000_000_000n, 6000],
+    ["one unit over 60%, rounded up", 300_000_000_001n, 6001],
+    ["just under 60%", 299_999_999_999n, 6000],
+    ["nothing", 0n, 0],
+  ])("%s", (_, amount, bps) => {
+    expect(ltvBps(amount, appraised)).toBe(bps)
+  })
+
+  test("a zero appraisal can't be priced", () => {
+    expect(ltvBps(1n, 0)).toBe(Number.MAX_SAFE_INTEGER)
+  })
+})
+
+describe("priceRate", () => {
+  test.each([
+    [850, 6000, 650],
+    [750, 6000, 650],
+    [749, 6000, 750],
+    [700, 6001, 800],
+    [699, 7000, 975],
+    [650, 7001, 1100],
+    [650, 8000, 1100],
+  ])("score %i at %i bps LTV is %i bps", (score, ltv, rate) => {
+    expect(priceRate(GRID, score, ltv)).toEqual({ ok: true, rateBps: rate })
+  })
+
+  test("a score below the last row or an LTV past the last band is refused", () => {
+    expect(priceRate(GRID, 649, 5000)).toEqual({ ok: false, reason: "Credit score 649 below the rate grid's 650 floor" })
+    expect(priceRate(GRID, 800, 8001)).toEqual({ ok: false, reason: "LTV 80.01% above the rate grid's 80% band" })
+  })
+
+  test.each([
+    ["bands out of order", { ...GRID, ltvBandsBps: [7000, 6000, 8000] }],
+    ["rows out of order", { ...GRID, rows: [...GRID.rows].reverse() }],
+    ["a row missing a rate", { ...GRID, rows: [GRID.rows[0], { minScore: 700, ratesBps: [750, 800] }] }],
+  ])("a grid with %s is refused", (_, grid) => {
+    expect(rateGridSchema.safeParse(grid).success).toBe(false)
+  })
+})
@@ -0,0 +1,52 @@
+import { z } from "zod"
+
+// ─── Risk-based pricing ──────────────────────────────────────────────────────
+//
+// The APR a borrower is offered, from the scorer's credit score and the
+// loan's LTV, looked up in a rate grid set in the workflow config under
+// `pricing`:
+//
+//                  ltvBandsBps:  ≤6000   ≤7000   ≤8000
+//   minScore 750               [  650,    700,    775 ]
+//   minScore 700               [  750,    800,    900 ]
+//   minScore 650               [  900,    975,   1100 ]
+//
+// Rows are tried from the highest minScore down; a score below every row,
+// or an LTV above the last band, can't be priced and is rejected.
+
+const bps = z.number().int().min(0).max(10_000)
+
+export const rateGridSchema = z
+  .object({
+    ltvBandsBps: z
+      .array(bps)
+      .min(1)
+      .refine((bands) => bands.every((b, i) => i === 0 || b > bands[i - 1]), "ltvBandsBps must be ascending"),
+    rows: z
+      .array(z.object({ minScore: z.number().int().min(300).max(850), ratesBps: z.array(bps) }))
+      .min(1)
+      .refine((rows) => rows.every((r, i) => i === 0 || r.minScore < rows[i - 1].minScore), "rows must be sorted by descending minScore"),
+  })
+  .refine((grid) => grid.rows.every((r) => r.ratesBps.length === grid.ltvBandsBps.length), "each row needs one rate per LTV band")
+export type RateGrid = z.infer<typeof rateGridSchema>
+
+/** Loan-to-value in bps, rounded up so a loan never lands in a cheaper band. */
+export function ltvBps(amountUsdc: bigint, appraisedValueUsd: number): number {
+  const valueUsdc = BigInt(appraisedValueUsd) * 1_000_000n
+  if (valueUsdc === 0n) return Number.MAX_SAFE_INTEGER
+  return Number((amountUsdc * 10_000n + valueUsdc - 1n) / valueUsdc)
+}
+
+export type PricedRate = { ok: true; rateBps: number } | { ok: false; reason: string }
+
+export function priceRate(grid: RateGrid, creditScore: number, loanLtvBps: number): PricedRate {
+  const row = grid.rows.find((r) => creditScore >= r.minScore)
+  if (!row) {
+    return { ok: false, reason: `Credit score ${creditScore} below the rate grid's ${grid.rows[grid.rows.length - 1].minScore} floor` }
+  }
+  const band = grid.ltvBandsBps.findIndex((max) => loanLtvBps <= max)
+  if (band < 0) {
+    return { ok: false, reason: `LTV ${loanLtvBps / 100}% above the rate grid's ${grid.ltvBandsBps[grid.ltvBandsBps.length - 1] / 100}% band` }
+  }
+  return { ok: true, rateBps: row.ratesBps[band] }
+}
@@ -0,0 +1,40 @@
+import { expect, test } from "bun:test"
+import { decodeAbiParameters, parseAbiParameters } from "viem"
+import { VERDICT_REPORT_VERSION, encodeVerdictReport, type VerdictReport } from "./report"
+
+// contracts/test/VerdictReport.t.sol decodes the same bytes on-chain
+const REPORT: VerdictReport = {
+  borrower: "0x1111111111111111111111111111111111111111",
+  requestHash: `0x${"ab".repeat(32)}`,
+  tokenId: 7n,
+  approvedLimit: 375_000_000_000n,
+  tenureMonths: 360n,
+  computedEMI: 2_685_470_000n,
+  rateBps: 775n,
+  expiresAt: 1_900_000_000n,
+  approved: true,
+  policyHash: "0x64e12723437d5032c4cfeac4534cee36c6d86cd34635d2e6a7b4c0bb3537ebf5",
+}
+const ENCODED =
+  "0x" +
+  "0000000000000000000000000000000000000000000000000000000000000002" +
+  "0000000000000000000000001111111111111111111111111111111111111111" +
+  "abababababababababababababababababababababababababababababababab" +
+  "0000000000000000000000000000000000000000000000000000000000000007" +
+  "000000000000000000000000000000000000000000000000000000574fbde600" +
+  "0000000000000000000000000000000000000000000000000000000000000168" +
+  "00000000000000000000000000000000000000000000000000000000a0110530" +
+  "0000000000000000000000000000000000000000000000000000000000000307" +
+  "00000000000000000000000000000000000000000000000000000000713fb300" +
+  "0000000000000000000000000000000000000000000000000000000000000001" +
+  "64e12723437d5032c4cfeac4534cee36c6d86cd34635d2e6a7b4c0bb3537ebf5"
+
+test("a verdict encodes to the pinned version-2 layout", () => {
+  expect(VERDICT_REPORT_VERSION).toBe(2)
+  expect(encodeVerdictReport(REPORT)).toBe(ENCODED)
+})
+
+test("the version leads, so a receiver can check it before the rest", () => {
+  const [version] = decodeAbiParameters(parseAbiParameters("uint8"), encodeVerdictReport(REPORT))
+  expect(version).toBe(VERDICT_REPORT_VERSION)
+})
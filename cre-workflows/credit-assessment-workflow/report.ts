@@ -0,0 +1,47 @@
+import { encodeAbiParameters, parseAbiParameters, type Address, type Hex } from "viem"
+
+// ─── Verdict report ──────────────────────────────────────────────────────────
+//
+// The payload written to LoanManager, decoded on-chain by
+// contracts/src/libraries/VerdictReport.sol. It leads with a version so the
+// receiver refuses a layout it doesn't know instead of misreading it: change
+// the layout here and VERDICT_REPORT_VERSION and VerdictReport.VERSION move
+// together.
+//
+//   1 — unversioned: borrower … expiresAt, approved (no longer written)
+//   2 — version first, rateBps after computedEMI, policyHash last
+
+export const VERDICT_REPORT_VERSION = 2
+
+export type VerdictReport = {
+  borrower: Address
+  requestHash: Hex
+  tokenId: bigint
+  approvedLimit: bigint  // USDC 6-decimal, 0 on rejection
+  tenureMonths: bigint
+  computedEMI: bigint    // USDC 6-decimal, at rateBps
+  rateBps: bigint        // APR computedEMI was computed at; 0 when there is no EMI
+  expiresAt: bigint      // unix seconds
+  approved: boolean
+  policyHash: Hex        // see ./policy
+}
+
+const VERDICT_REPORT_LAYOUT = parseAbiParameters(
+  "uint8 version, address borrower, bytes32 requestHash, uint256 tokenId, uint256 approvedLimit, uint256 tenureMonths, uint256 computedEMI, uint256 rateBps, uint256 expiresAt, bool approved, bytes32 policyHash"
+)
+
+export function encodeVerdictReport(report: VerdictReport): Hex {
+  return encodeAbiParameters(VERDICT_REPORT_LAYOUT, [
+    VERDICT_REPORT_VERSION,
+    report.borrower,
+    report.requestHash,
+    report.tokenId,
+    report.approvedLimit,
+    report.tenureMonths,
+    report.computedEMI,
+    report.rateBps,
+    report.expiresAt,
+    report.approved,
+    report.policyHash,
+  ])
+}
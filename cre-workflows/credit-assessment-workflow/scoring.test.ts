@@ -0,0 +1,190 @@
+import { describe, expect, test } from "bun:test"
+import {
+  INVALID_LLM_VERDICT,
+  parseLlmVerdict,
+  requestLlmVerdict,
+  scoreWithScorecard,
+  scorecardConfigSchema,
+  scorecardFactors,
+  scoringConfigSchema,
+  selectScorer,
+  type CreditScorer,
+  type CreditVerdict,
+  type LlmMessage,
+  type ScoringInput,
+} from "./scoring"
+
+const CARD = scorecardConfigSchema.parse({})
+const REQUESTED = "1000000000" // 1,000 USDC
+
+// Every factor at 0.7 under the default scorecard
+const INPUT: ScoringInput = {
+  monthlyIncome: 10_000,
+  dti: 0.15,
+  stabilityScore: 0.7,
+  overdraftRate: 0.015,
+  hasRecentDefaults: false,
+  emi: 2_380_952_381,
+  coverage: 4.2,
+  ltv: 0.24,
+  requestedAmount: REQUESTED,
+  maxApprovedAmount: REQUESTED,
+}
+const BEST: ScoringInput = { ...INPUT, dti: 0, stabilityScore: 1, overdraftRate: 0, coverage: 6, ltv: 0 }
+const WORST: ScoringInput = { ...INPUT, dti: 0.6, stabilityScore: 0, overdraftRate: 0.2, coverage: 0, ltv: 0.9 }
+
+describe("scorecard", () => {
+  test("factors are clamped to 0..1 at their configured limits", () => {
+    expect(scorecardFactors(BEST, CARD)).toEqual({ coverage: 1, dti: 1, ltv: 1, stability: 1, overdraft: 1 })
+    expect(scorecardFactors(WORST, CARD)).toEqual({ coverage: 0, dti: 0, ltv: 0, stability: 0, overdraft: 0 })
+    expect(scorecardFactors({ ...BEST, coverage: 60 }, CARD).coverage).toBe(1)
+  })
+
+  test.each([
+    ["best", BEST, 850, "approve", REQUESTED],
+    ["worst", WORST, 300, "reject", "0"],
+    // 300 + 550 × 0.7 = 685: 35% of the way from minScore to fullAmountScore,
+    // so 50% + 50% × 0.35 of the request
+    ["every factor at 0.7", INPUT, 685, "approve", "675000000"],
+  ] as const)("%s", (_, input, creditScore, verdict, approvedAmount) => {
+    expect(scoreWithScorecard(input, CARD)).toMatchObject({ creditScore, verdict, approvedAmount })
+  })
+
+  test("the reason names the weighted factor costing the most points", () => {
+    expect(scoreWithScorecard(INPUT, CARD).reason).toBe("Scorecard 685; weakest factor: income coverage")
+    expect(scoreWithScorecard({ ...BEST, overdraftRate: 0.05 }, CARD).reason).toContain("overdraft rate")
+    expect(scoreWithScorecard(WORST, CARD).reason).toBe("Scorecard 300 below 650; weakest factor: income coverage")
+  })
+
+  test("minScore is the lowest approval and fullAmountScore the first full one", () => {
+    const flat = { ...CARD, weights: { coverage: 0, dti: 0, ltv: 0, stability: 1, overdraft: 0 } }
+    const at = (score: number) => scoreWithScorecard({ ...INPUT, stabilityScore: (score - 300) / 550 }, flat)
+
+    expect(at(649).verdict).toBe("reject")
+    expect(at(650)).toMatchObject({ verdict: "approve", approvedAmount: "500000000" })
+    expect(at(749).approvedAmount).toBe("995000000")
+    expect(at(750).approvedAmount).toBe(REQUESTED)
+  })
+
+  test("weights that sum to zero are refused", () => {
+    const none = { ...CARD, weights: { coverage: 0, dti: 0, ltv: 0, stability: 0, overdraft: 0 } }
+    expect(() => scoreWithScorecard(INPUT, none)).toThrow("Scorecard weights sum to zero")
+  })
+})
+
+describe("scorer selection", () => {
+  const llmSaying = (verdict: CreditVerdict): CreditScorer & { calls: number } => {
+    const scorer = { name: "llm", calls: 0, score: () => (scorer.calls++, verdict) }
+    return scorer
+  }
+  const approve = (approvedAmount: string): CreditVerdict => ({
+    creditScore: 800,
+    verdict: "approve",
+    approvedAmount,
+    reason: "Strong coverage",
+  })
+
+  test("scorecard mode never calls the LLM", () => {
+    const llm = llmSaying(approve(REQUESTED))
+    const scorer = selectScorer(scoringConfigSchema.parse({ mode: "scorecard" }), llm)
+    expect(scorer.score(INPUT).creditScore).toBe(685)
+    expect(llm.calls).toBe(0)
+  })
+
+  test("llm mode is the LLM verdict as given", () => {
+    const llm = llmSaying(approve(REQUESTED))
+    expect(selectScorer(scoringConfigSchema.parse({}), llm)).toBe(llm)
+  })
+
+  test("hybrid: a scorecard rejection stands without an LLM call", () => {
+    const llm = llmSaying(approve(REQUESTED))
+    const scorer = selectScorer(scoringConfigSchema.parse({ mode: "hybrid" }), llm)
+    expect(scorer.score(WORST).verdict).toBe("reject")
+    expect(llm.calls).toBe(0)
+  })
+
+  test("hybrid: the LLM may reject, and its approval is capped by the scorecard's", () => {
+    const hybrid = (llm: CreditScorer) => selectScorer(scoringConfigSchema.parse({ mode: "hybrid" }), llm)
+
+    const rejected = hybrid(llmSaying({ ...approve("5"), verdict: "reject", reason: "Thin file" })).score(INPUT)
+    expect(rejected).toMatchObject({ verdict: "reject", approvedAmount: "0", reason: "Thin file" })
+
+    const capped = hybrid(llmSaying(approve(REQUESTED))).score(INPUT)
+    expect(capped).toEqual({
+      creditScore: 800,
+      verdict: "approve",
+      approvedAmount: "675000000",
+      reason: "Strong coverage (capped at 675000000 by scorecard 685)",
+    })
+
+    const lower = hybrid(llmSaying(approve("600000000"))).score(INPUT)
+    expect(lower).toMatchObject({ approvedAmount: "600000000", reason: "Strong coverage" })
+  })
+})
+
+describe("LLM verdict parsing", () => {
+  const CAP = "750000000"
+  const reply = (fields: Record<string, unknown>) =>
+    JSON.stringify({ creditScore: 720, verdict: "approve", approvedAmount: "500000000", reason: "Stable income", ...fields })
+
+  test.each([
+    ["bare JSON", reply({}), { approvedAmount: "500000000", reason: "Stable income" }],
+    ["a ```json fence", "```json\n" + reply({}) + "\n```", { approvedAmount: "500000000" }],
+    ["prose around the object", `Here is the assessment: ${reply({})} Let me know.`, { approvedAmount: "500000000" }],
+    ["a numeric amount", reply({ approvedAmount: 500000000 }), { approvedAmount: "500000000" }],
+    ["an amount over the cap", reply({ approvedAmount: "900000000" }), { approvedAmount: CAP, reason: `Stable income (clamped to ${CAP})` }],
+    ["a rejection with an amount", reply({ verdict: "reject", approvedAmount: "5" }), { verdict: "reject", approvedAmount: "0" }],
+  ])("accepts %s", (_, text, expected) => {
+    const parsed = parseLlmVerdict(text, CAP)
+    expect(parsed.ok).toBe(true)
+    if (parsed.ok) expect(parsed.verdict).toMatchObject(expected)
+  })
+
+  test.each([
+    ["no JSON at all", "I cannot assess this applicant.", "response was not a JSON object"],
+    ["broken JSON", '{"creditScore": 720,', "response was not a JSON object"],
+    ["a score out of range", reply({ creditScore: 900 }), "creditScore:"],
+    ["an unknown verdict", reply({ verdict: "maybe" }), "verdict:"],
+    ["a fractional amount", reply({ approvedAmount: "1.5" }), "approvedAmount: must be a whole number of USDC units"],
+    ["a zero approval", reply({ approvedAmount: "0" }), "approvedAmount: an approval needs a positive approvedAmount"],
+    ["an empty reason", reply({ reason: " " }), "reason:"],
+  ])("refuses %s", (_, text, error) => {
+    const parsed = parseLlmVerdict(text, CAP)
+    expect(parsed.ok).toBe(false)
+    if (!parsed.ok) expect(parsed.error).toContain(error)
+  })
+
+  /** A model that answers each call with the next scripted reply. */
+  const model = (...replies: string[]) => {
+    const calls: LlmMessage[][] = []
+    const send = (messages: LlmMessage[]) => {
+      calls.push(messages)
+      return replies[calls.length - 1]
+    }
+    return { calls, send }
+  }
+
+  test("a valid first reply is used as is", () => {
+    const { calls, send } = model(reply({}))
+    expect(requestLlmVerdict(send, "assess", CAP).approvedAmount).toBe("500000000")
+    expect(calls).toHaveLength(1)
+  })
+
+  test("an invalid reply gets one corrective retry quoting what was wrong", () => {
+    const { calls, send } = model(reply({ creditScore: 900 }), reply({}))
+    expect(requestLlmVerdict(send, "assess", CAP).creditScore).toBe(720)
+
+    expect(calls).toHaveLength(2)
+    const [prompt, answer, correction] = calls[1]
+    expect(prompt).toEqual({ role: "user", content: "assess" })
+    expect(answer).toEqual({ role: "assistant", content: reply({ creditScore: 900 }) })
+    expect(correction.role).toBe("user")
+    expect(correction.content).toStartWith("That response was invalid: creditScore:")
+  })
+
+  test("a second invalid reply is a fixed rejection, with no third call", () => {
+    const { calls, send } = model("nope", "still nope", reply({}))
+    expect(requestLlmVerdict(send, "assess", CAP)).toEqual(INVALID_LLM_VERDICT)
+    expect(calls).toHaveLength(2)
+  })
+})
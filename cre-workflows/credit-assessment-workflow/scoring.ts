@@ -0,0 +1,293 @@
+import { z } from "zod"
+
+// ─── Credit scoring ──────────────────────────────────────────────────────────
+//
+// Pure scoring logic, free of CRE SDK calls, so a verdict can be recomputed
+// offline from the same metrics and config:
+//
+//   scorecard — weighted factors over PlaidMetrics → 300..850 score, verdict
+//               and approved amount. Deterministic: identical on every node.
+//   llm       — the Anthropic verdict (main.ts), schema-checked and clamped
+//               by parseLlmVerdict
+//   hybrid    — the LLM verdict, with approvedAmount capped by the scorecard's
+//               and either side able to reject
+//
+// Selected by config.scoring.mode.
+
+export type PlaidMetrics = {
+  monthlyIncome: number
+  dti: number
+  stabilityScore: number
+  overdraftRate: number
+  hasRecentDefaults: boolean
+}
+
+/** Everything a scorer sees — metrics only, never raw bank data. */
+export type ScoringInput = PlaidMetrics & {
+  emi: number             // USDC 6-decimal scale
+  coverage: number        // monthlyIncome / EMI
+  ltv: number             // requestedAmount / appraised value
+  requestedAmount: string // USDC 6-decimal string
+  maxApprovedAmount: string // min(requestedAmount, LTV cap) — no scorer approves more
+}
+
+export type CreditVerdict = {
+  creditScore: number
+  verdict: "approve" | "reject"
+  approvedAmount: string // USDC 6-decimal string, "0" if rejected
+  reason: string
+}
+
+export interface CreditScorer {
+  name: string
+  score(input: ScoringInput): CreditVerdict
+}
+
+const weight = z.number().min(0)
+
+export const scorecardConfigSchema = z.object({
+  // Relative importance of each factor; normalized by their sum
+  weights: z
+    .object({
+      coverage: weight,
+      dti: weight,
+      ltv: weight,
+      stability: weight,
+      overdraft: weight,
+    })
+    .default({ coverage: 0.3, dti: 0.25, ltv: 0.2, stability: 0.15, overdraft: 0.1 }),
+  // Where each factor scores full (coverage) or zero (dti, ltv, overdraft)
+  coverageFull: z.number().positive().default(6),
+  dtiMax: z.number().positive().default(0.5),
+  ltvMax: z.number().positive().default(0.8),
+  overdraftMax: z.number().positive().default(0.05),
+  // Reject below minScore; approve the full request from fullAmountScore up,
+  // and a linear share from minAmountShare at minScore in between
+  minScore: z.number().int().min(300).max(850).default(650),
+  fullAmountScore: z.number().int().min(300).max(850).default(750),
+  minAmountShare: z.number().min(0).max(1).default(0.5),
+})
+export type ScorecardConfig = z.infer<typeof scorecardConfigSchema>
+
+export const scoringConfigSchema = z
+  .object({
+    mode: z.enum(["scorecard", "llm", "hybrid"]).default("llm"),
+    scorecard: scorecardConfigSchema.default({}),
+  })
+  .default({})
+export type ScoringConfig = z.infer<typeof scoringConfigSchema>
+
+const clamp01 = (x: number): number => (Number.isFinite(x) ? Math.min(1, Math.max(0, x)) : 0)
+
+const FACTOR_LABELS = {
+  coverage: "income coverage",
+  dti: "debt-to-income",
+  ltv: "loan-to-value",
+  stability: "income stability",
+  overdraft: "overdraft rate",
+} as const
+
+/** Each factor as a 0..1 score, 1 being best. */
+export function scorecardFactors(
+  input: ScoringInput,
+  config: ScorecardConfig
+): Record<keyof typeof FACTOR_LABELS, number> {
+  return {
+    coverage: clamp01(input.coverage / config.coverageFull),
+    dti: 1 - clamp01(input.dti / config.dtiMax),
+    ltv: 1 - clamp01(input.ltv / config.ltvMax),
+    stability: clamp01(input.stabilityScore),
+    overdraft: 1 - clamp01(input.overdraftRate / config.overdraftMax),
+  }
+}
+
+/** Scale a USDC amount by a 0..1 share, rounding down to whole basis points. */
+const shareOf = (amount: string, share: number): string =>
+  ((BigInt(amount) * BigInt(Math.floor(clamp01(share) * 10_000))) / 10_000n).toString()
+
+export function scoreWithScorecard(input: ScoringInput, config: ScorecardConfig): CreditVerdict {
+  const factors = scorecardFactors(input, config)
+  const names = Object.keys(factors) as Array<keyof typeof factors>
+  const totalWeight = names.reduce((sum, name) => sum + config.weights[name], 0)
+  if (totalWeight === 0) throw new Error("Scorecard weights sum to zero")
+
+  const weighted = names.reduce((sum, name) => sum + config.weights[name] * factors[name], 0) / totalWeight
+  const creditScore = Math.round(300 + 550 * weighted)
+
+  // The weighted factor dragging the score down the most
+  const weakest = names
+    .filter((name) => config.weights[name] > 0)
+    .reduce((a, b) => (config.weights[b] * (1 - factors[b]) > config.weights[a] * (1 - factors[a]) ? b : a))
+
+  if (creditScore < config.minScore) {
+    return {
+      creditScore,
+      verdict: "reject",
+      approvedAmount: "0",
+      reason: `Scorecard ${creditScore} below ${config.minScore}; weakest factor: ${FACTOR_LABELS[weakest]}`,
+    }
+  }
+
+  const span = config.fullAmountScore - config.minScore
+  const progress = span > 0 ? (creditScore - config.minScore) / span : 1
+  const share = config.minAmountShare + (1 - config.minAmountShare) * clamp01(progress)
+  return {
+    creditScore,
+    verdict: "approve",
+    approvedAmount: shareOf(input.requestedAmount, share),
+    reason: `Scorecard ${creditScore}; weakest factor: ${FACTOR_LABELS[weakest]}`,
+  }
+}
+
+export const scorecardScorer = (config: ScorecardConfig): CreditScorer => ({
+  name: "scorecard",
+  score: (input) => scoreWithScorecard(input, config),
+})
+
+/**
+ * Combine an LLM verdict with the scorecard's: either may reject, and the
+ * approved amount is the smaller of the two (never above maxApprovedAmount).
+ */
+export function boundVerdict(llm: CreditVerdict, card: CreditVerdict, maxApprovedAmount: string): CreditVerdict {
+  if (card.verdict === "reject") return card
+  if (llm.verdict === "reject") return { ...llm, approvedAmount: "0" }
+
+  const amounts = [BigInt(llm.approvedAmount), BigInt(card.approvedAmount), BigInt(maxApprovedAmount)]
+  const approved = amounts.reduce((a, b) => (b < a ? b : a))
+  return {
+    creditScore: llm.creditScore,
+    verdict: "approve",
+    approvedAmount: approved.toString(),
+    reason:
+      approved < BigInt(llm.approvedAmount)
+        ? `${llm.reason} (capped at ${approved} by scorecard ${card.creditScore})`
+        : llm.reason,
+  }
+}
+
+export const hybridScorer = (llm: CreditScorer, config: ScorecardConfig): CreditScorer => ({
+  name: "hybrid",
+  score: (input) => {
+    // A scorecard rejection settles it without spending an LLM call
+    const card = scoreWithScorecard(input, config)
+    return card.verdict === "reject" ? card : boundVerdict(llm.score(input), card, input.maxApprovedAmount)
+  },
+})
+
+/** The scorer config.scoring.mode selects; `llm` is only called when the mode needs it. */
+export function selectScorer(config: ScoringConfig, llm: CreditScorer): CreditScorer {
+  switch (config.mode) {
+    case "scorecard":
+      return scorecardScorer(config.scorecard)
+    case "llm":
+      return llm
+    case "hybrid":
+      return hybridScorer(llm, config.scorecard)
+  }
+}
+
+// ─── LLM verdict parsing ─────────────────────────────────────────────────────
+
+const uintString = z
+  .union([z.string().trim().regex(/^\d+$/, "must be a whole number of USDC units"), z.number().int().nonnegative().safe()])
+  .transform((v) => BigInt(v).toString())
+
+export const llmVerdictSchema = z
+  .object({
+    creditScore: z.number().int().min(300).max(850),
+    verdict: z.enum(["approve", "reject"]),
+    approvedAmount: uintString,
+    reason: z.string().trim().min(1).max(500),
+  })
+  .refine((v) => v.verdict === "reject" || BigInt(v.approvedAmount) > 0n, {
+    message: "an approval needs a positive approvedAmount",
+    path: ["approvedAmount"],
+  })
+
+/**
+ * Pull the JSON object out of model output that may wrap it in a ```json
+ * fence or a sentence of prose. Throws if there is no parseable object.
+ */
+export function extractJson(text: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text)
+  const candidate = fenced ? fenced[1] : text
+  const start = candidate.indexOf("{")
+  const end = candidate.lastIndexOf("}")
+  if (start < 0 || end < start) throw new Error("no JSON object in response")
+  return JSON.parse(candidate.slice(start, end + 1))
+}
+
+export type LlmVerdictResult = { ok: true; verdict: CreditVerdict } | { ok: false; error: string }
+
+/**
+ * Validate an LLM reply into a CreditVerdict, clamping approvedAmount to
+ * maxApprovedAmount. Never throws: a bad reply comes back as `error`, worded
+ * for the corrective prompt.
+ */
+export function parseLlmVerdict(text: string, maxApprovedAmount: string): LlmVerdictResult {
+  let raw: unknown
+  try {
+    raw = extractJson(text)
+  } catch (err) {
+    return { ok: false, error: `response was not a JSON object (${(err as Error).message})` }
+  }
+
+  const parsed = llmVerdictSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "response"}: ${i.message}`)
+    return { ok: false, error: issues.join("; ") }
+  }
+
+  const verdict = parsed.data
+  if (verdict.verdict === "reject") return { ok: true, verdict: { ...verdict, approvedAmount: "0" } }
+
+  const cap = BigInt(maxApprovedAmount)
+  return BigInt(verdict.approvedAmount) > cap
+    ? { ok: true, verdict: { ...verdict, approvedAmount: cap.toString(), reason: `${verdict.reason} (clamped to ${cap})` } }
+    : { ok: true, verdict }
+}
+
+/** The verdict when the LLM still answers badly after its corrective retry. */
+export const INVALID_LLM_VERDICT: CreditVerdict = {
+  creditScore: 300,
+  verdict: "reject",
+  approvedAmount: "0",
+  reason: "Credit model returned an invalid verdict twice; rejected without scoring",
+}
+
+export type LlmMessage = { role: "user" | "assistant"; content: string }
+
+/** The reply shape the prompt asks for, repeated in the corrective retry. */
+export const LLM_VERDICT_FORMAT = `{
+  "creditScore": <integer 300-850>,
+  "verdict": "approve" or "reject",
+  "approvedAmount": "<USDC 6-decimal integer string, 0 if rejected>",
+  "reason": "<one sentence>"
+}`
+
+/**
+ * Ask `send` for a verdict on `prompt`. An invalid reply gets one corrective
+ * retry quoting the validation errors; a second one is INVALID_LLM_VERDICT,
+ * so nodes still agree.
+ */
+export function requestLlmVerdict(
+  send: (messages: LlmMessage[]) => string,
+  prompt: string,
+  maxApprovedAmount: string
+): CreditVerdict {
+  const messages: LlmMessage[] = [{ role: "user", content: prompt }]
+  const first = send(messages)
+  const parsed = parseLlmVerdict(first, maxApprovedAmount)
+  if (parsed.ok) return parsed.verdict
+
+  const retry = send([
+    ...messages,
+    { role: "assistant", content: first },
+    {
+      role: "user",
+      content: `That response was invalid: ${parsed.error}. Reply with ONLY this JSON object, no markdown:\n${LLM_VERDICT_FORMAT}`,
+    },
+  ])
+  const reparsed = parseLlmVerdict(retry, maxApprovedAmount)
+  return reparsed.ok ? reparsed.verdict : INVALID_LLM_VERDICT
+}
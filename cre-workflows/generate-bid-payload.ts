@@ -1,13 +1,15 @@
 
 import { ethers } from "ethers";
 import * as fs from "fs";
+import type { BidRequest, WithdrawBidRequest } from "./api-client";
 
 const PRIVATE_KEY = "";
 const VERIFYING_CONTRACT = "0xE42Fd40Bf86448595D1EeA64a1B59757609F0C60";
 const CHAIN_ID = 11155111;
 const AUCTION_ID = "0x0000000000000000000000000000000000000000000000000000000000000001";
 const BID_AMOUNT = "2000000"; // 2 USDC (above reserve price of 1 USDC)
-const NONCE = 1;
+const NONCE = 1; // revise a bid by re-running with a higher nonce
+const ACTION: "bid" | "withdraw" = "bid"; // "withdraw" pulls the live bid (NONCE must exceed the bid's)
 
 async function main() {
   const wallet = new ethers.Wallet(PRIVATE_KEY);
@@ -19,6 +21,29 @@ async function main() {
     verifyingContract: VERIFYING_CONTRACT,
   };
 
+  if (ACTION === "withdraw") {
+    const withdrawalTypes = {
+      BidWithdrawal: [
+        { name: "auctionId", type: "bytes32" },
+        { name: "bidder", type: "address" },
+        { name: "nonce", type: "uint256" },
+      ],
+    };
+    const withdrawal = { auctionId: AUCTION_ID, bidder: wallet.address, nonce: NONCE };
+    const signature = await wallet.signTypedData(domain, withdrawalTypes, withdrawal);
+    // `action` routes the bid-workflow to POST /bid/withdraw; the API ignores it
+    const payload: WithdrawBidRequest & { action: "withdraw" } = {
+      action: "withdraw",
+      ...withdrawal,
+      signature,
+    };
+
+    fs.writeFileSync("bid-payload.json", JSON.stringify(payload, null, 2));
+    console.log("Withdrawal payload written to bid-payload.json");
+    console.log(JSON.stringify(payload, null, 2));
+    return;
+  }
+
   const types = {
     Bid: [
       { name: "auctionId", type: "bytes32" },
@@ -36,15 +61,13 @@ async function main() {
   };
 
   const signature = await wallet.signTypedData(domain, types, message);
-  const auctionDeadline = Math.floor(Date.now() / 1000) + 3600;
 
-  const payload = {
+  const payload: BidRequest = {
     auctionId: AUCTION_ID,
     bidder: wallet.address,
     amount: BID_AMOUNT,
     nonce: NONCE,
     signature: signature,
-    auctionDeadline: auctionDeadline,
   };
 
   // Write to file
@@ -19,9 +19,10 @@ import {
 import { encodeFunctionData, decodeFunctionResult, encodeAbiParameters, parseAbiParameters, type Address, type Abi, zeroAddress } from "viem"
 import { z } from "zod"
 import LienFiAuctionABI from "../abis/LienFiAuctionABI.json"
+import { settleAuction, type ApiError, type SettleResponse } from "../api-client"
+import { signApiRequest, apiError, type SignedApiRequest } from "../api-client/signing"
 
 const ABI = LienFiAuctionABI as Abi
-const ZERO_BYTES32 = "0x0000000000000000000000000000000000000000000000000000000000000000"
 
 const configSchema = z.object({
   evms: z.array(
@@ -34,41 +35,138 @@ const configSchema = z.object({
   schedule: z.string(),
   url: z.string(),
   owner: z.string(),
+  apiKeyId: z.string(), // this workflow's credential in the API keys file (scope: settle)
 })
 type Config = z.infer<typeof configSchema>
-type SettlementResult = {
-  auctionId: string  // bytes32 hex string
-  winner: string     // address
-  price: string      // uint256 decimal string
-}
+
+// API refusals that mean "nothing to settle", not a fault. Settled on-chain
+// since our finalized read: skip. No funded bid at or above reserve: close the
+// auction unsold, which returns the NFT to the seller and frees its open slot.
+// The API registers auctions it never saw from the chain, so NOT_FOUND can't
+// follow our own read; CONFLICT (live on-chain bids missing from the API
+// store) stays a failure on purpose — closing would discard those bids.
+const SKIP_CODES: ApiError["code"][] = ["AUCTION_SETTLED"]
+const CLOSE_CODES: ApiError["code"][] = ["NO_ELIGIBLE_BIDS"]
+
+// Vault DON secret holding the HMAC secret for config.apiKeyId
+const API_SECRET_ID = "settlementApiSecret"
+
+// fundingBlock stays out of the consensus payload: each node's call resolves
+// the API's finalized block on its own, and nodes a block apart that read the
+// same funding must still agree.
+type SettleOutcome =
+  | { settled: Omit<SettleResponse, "fundingBlock"> }
+  | { closed: Pick<ApiError, "code" | "message"> }
+  | { skipped: Pick<ApiError, "code" | "message"> }
 
 const submitSettlementToApi = (
   sendRequester: ConfidentialHTTPSendRequester,
   config: Config,
-  auctionId: string
-): SettlementResult => {
+  apiRequest: SignedApiRequest
+): SettleOutcome => {
   const response = sendRequester
     .sendRequest({
-      request: {
-        url: `${config.url}/settle`,
-        method: "POST",
-        bodyString: JSON.stringify({ auctionId }),
-        multiHeaders: {
-          "X-Api-Key": { values: ["{{.apiKey}}"] },
-          "Content-Type": { values: ["application/json"] },
-        },
-      },
+      request: apiRequest,
       vaultDonSecrets: [
-        { key: "apiKey", owner: config.owner },
         { key: "san_marino_aes_gcm_encryption_key", owner: config.owner },
       ],
     })
     .result()
 
   if (!ok(response)) {
-    throw new Error(`Settlement API failed: ${response.statusCode}`)
+    const err = apiError(response)
+    if (err && SKIP_CODES.includes(err.code)) {
+      return { skipped: { code: err.code, message: err.message } }
+    }
+    if (err && CLOSE_CODES.includes(err.code)) {
+      return { closed: { code: err.code, message: err.message } }
+    }
+    const detail = err ? ` ${err.code} ${err.message}` : ""
+    throw new Error(`Settlement API failed: ${response.statusCode}${detail}`)
+  }
+  const { fundingBlock: _, ...settled } = json(response) as SettleResponse
+  return { settled }
+}
+
+// Submit the settle report via DON signature. A zero winner at price 0 closes
+// the auction unsold instead of settling it.
+const writeSettleReport = (
+  runtime: Runtime<Config>,
+  evmClient: EVMClient,
+  auctionId: string,
+  winner: Address,
+  price: bigint
+): string => {
+  const { contractAddress, gasLimit } = runtime.config.evms[0]
+
+  const reportData = encodeAbiParameters(
+    parseAbiParameters("bytes32 auctionId, address winner, uint256 price"),
+    [auctionId as `0x${string}`, winner, price]
+  )
+
+  const reportResponse = runtime
+    .report({
+      encodedPayload: hexToBase64(reportData),
+      encoderName: "evm",
+      signingAlgo: "ecdsa",
+      hashingAlgo: "keccak256",
+    })
+    .result()
+
+  const writeResult = evmClient
+    .writeReport(runtime, {
+      receiver: contractAddress,
+      report: reportResponse,
+      gasConfig: { gasLimit },
+    })
+    .result()
+
+  if (writeResult.txStatus !== TxStatus.SUCCESS) {
+    throw new Error(`settleAuction tx failed: ${writeResult.txStatus}`)
+  }
+
+  return bytesToHex(writeResult.txHash || new Uint8Array(32))
+}
+
+type SettleOneResult = { kind: "settled" | "closed"; txHash: string }
+
+// Settle one auction: API picks the winner, then a DON-signed report settles on-chain.
+// Returns the tx hash and whether the auction was settled or closed unsold,
+// or null if the API had nothing to settle.
+const settleOne = (
+  runtime: Runtime<Config>,
+  evmClient: EVMClient,
+  auctionId: string
+): SettleOneResult | null => {
+  // 1. Call private API with auctionId to determine winner
+  const confHTTPClient = new ConfidentialHTTPClient()
+  const response = confHTTPClient
+    .sendRequest(
+      runtime,
+      submitSettlementToApi,
+      consensusIdenticalAggregation<SettleOutcome>()
+    )(runtime.config, signApiRequest(runtime, API_SECRET_ID, settleAuction(runtime.config.url, { auctionId })))
+    .result()
+
+  if ("skipped" in response) {
+    runtime.log(`Settlement skipped for auctionId=${auctionId}: ${response.skipped.code} ${response.skipped.message}`)
+    return null
+  }
+
+  if ("closed" in response) {
+    runtime.log(`No eligible bids for auctionId=${auctionId}: ${response.closed.code} ${response.closed.message}`)
+    const txHash = writeSettleReport(runtime, evmClient, auctionId, zeroAddress, 0n)
+    runtime.log(`Auction closed unsold: auctionId=${auctionId} tx=${txHash}`)
+    return { kind: "closed", txHash }
   }
-  return json(response) as SettlementResult
+
+  const result = response.settled
+  runtime.log(`Settlement result: auctionId=${result.auctionId} winner=${result.winner} price=${result.price} allocations=${result.allocations.length} bidRoot=${result.proof.bidRoot}`)
+
+  // 2. Encode settleAuction args and submit via DON-signed report
+  const txHash = writeSettleReport(runtime, evmClient, result.auctionId, result.winner as Address, BigInt(result.price))
+  runtime.log(`settleAuction submitted: auctionId=${auctionId} tx=${txHash}`)
+  return { kind: "settled", txHash }
 }
 
 const onCronTrigger = (runtime: Runtime<Config>): string => {
@@ -85,8 +183,8 @@ const onCronTrigger = (runtime: Runtime<Config>): string => {
 
   const evmClient = new EVMClient(network.chainSelector.selector)
 
-  // 1. Read activeAuctionId from the contract
-  const callData = encodeFunctionData({ abi: ABI, functionName: "activeAuctionId" })
+  // 1. Read every open auction past its deadline from the contract
+  const callData = encodeFunctionData({ abi: ABI, functionName: "getExpiredAuctionIds" })
   const contractCall = evmClient
     .callContract(runtime, {
       call: encodeCallMsg({
@@ -98,63 +196,40 @@ const onCronTrigger = (runtime: Runtime<Config>): string => {
     })
     .result()
 
-  const activeAuctionId = decodeFunctionResult({
+  const expiredAuctionIds = decodeFunctionResult({
     abi: ABI,
-    functionName: "activeAuctionId",
+    functionName: "getExpiredAuctionIds",
     data: bytesToHex(contractCall.data),
-  }) as `0x${string}`
+  }) as readonly `0x${string}`[]
 
-  if (activeAuctionId === ZERO_BYTES32) {
-    runtime.log("No active auction, skipping settlement")
+  if (expiredAuctionIds.length === 0) {
+    runtime.log("No expired auctions, skipping settlement")
     return "no-op"
   }
 
-  runtime.log(`Active auction detected: ${activeAuctionId}`)
-
-  // 2. Call private API with auctionId to determine winner
-  const confHTTPClient = new ConfidentialHTTPClient()
-  const result = confHTTPClient
-    .sendRequest(
-      runtime,
-      submitSettlementToApi,
-      consensusIdenticalAggregation<SettlementResult>()
-    )(runtime.config, activeAuctionId)
-    .result()
-
-  runtime.log(`Settlement result: auctionId=${result.auctionId} winner=${result.winner} price=${result.price}`)
-
-  // 3. Encode settleAuction args and submit via DON-signed report
-  const { gasLimit } = runtime.config.evms[0]
-
-  const reportData = encodeAbiParameters(
-    parseAbiParameters("bytes32 auctionId, address winner, uint256 price"),
-    [result.auctionId as `0x${string}`, result.winner as Address, BigInt(result.price)]
-  )
-
-  const reportResponse = runtime
-    .report({
-      encodedPayload: hexToBase64(reportData),
-      encoderName: "evm",
-      signingAlgo: "ecdsa",
-      hashingAlgo: "keccak256",
-    })
-    .result()
-
-  const writeResult = evmClient
-    .writeReport(runtime, {
-      receiver: contractAddress,
-      report: reportResponse,
-      gasConfig: { gasLimit },
-    })
-    .result()
-
-  if (writeResult.txStatus !== TxStatus.SUCCESS) {
-    throw new Error(`settleAuction tx failed: ${writeResult.txStatus}`)
+  runtime.log(`Expired auctions detected: ${expiredAuctionIds.length}`)
+
+  // 2. Settle (or close) each in turn. Sequential on purpose: writeReport waits for the
+  //    tx, so a bidder who wins one auction has their pool debited before the
+  //    API re-checks funding for the next. One failure doesn't block the rest.
+  const settled: string[] = []
+  const closed: string[] = []
+  const skipped: string[] = []
+  const failed: string[] = []
+  for (const auctionId of expiredAuctionIds) {
+    try {
+      const result = settleOne(runtime, evmClient, auctionId)
+      if (!result) skipped.push(auctionId)
+      else if (result.kind === "closed") closed.push(result.txHash)
+      else settled.push(result.txHash)
+    } catch (err) {
+      runtime.log(`Settlement failed for auctionId=${auctionId}: ${err instanceof Error ? err.message : String(err)}`)
+      failed.push(auctionId)
+    }
   }
 
-  const txHash = bytesToHex(writeResult.txHash || new Uint8Array(32))
-  runtime.log(`settleAuction submitted: ${txHash}`)
-  return txHash
+  runtime.log(`Settlement tick done: settled=${settled.length} closed=${closed.length} skipped=${skipped.length} failed=${failed.length}`)
+  return [...settled, ...closed].join(",") || "no-op"
 }
 
 const initWorkflow = (config: Config) => {